@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "passwordResetExpiry" TIMESTAMP(3),
+ADD COLUMN     "passwordResetToken" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_passwordResetToken_key" ON "users"("passwordResetToken");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "project_assets" ADD COLUMN     "posterUrl" TEXT;
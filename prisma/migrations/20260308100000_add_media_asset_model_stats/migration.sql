@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "media_assets" ADD COLUMN     "hasAnimations" BOOLEAN DEFAULT false,
+ADD COLUMN     "polygonCount" INTEGER;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "document_pages" (
+    "id" TEXT NOT NULL,
+    "assetId" TEXT NOT NULL,
+    "pageNumber" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "searchVector" tsvector GENERATED ALWAYS AS (to_tsvector('english', "content")) STORED,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "document_pages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_pages_assetId_pageNumber_key" ON "document_pages"("assetId", "pageNumber");
+
+-- CreateIndex
+CREATE INDEX "document_pages_searchVector_idx" ON "document_pages" USING GIN ("searchVector");
+
+-- AddForeignKey
+ALTER TABLE "document_pages" ADD CONSTRAINT "document_pages_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "project_assets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
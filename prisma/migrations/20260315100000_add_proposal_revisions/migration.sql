@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "ProposalRevisionReason" AS ENUM ('CREATED', 'UPDATED', 'SERVICE_ADDED', 'SERVICE_UPDATED', 'SERVICE_DELETED', 'SERVICE_APPROVAL', 'SENT', 'ACCEPTED');
+
+-- CreateTable
+CREATE TABLE "proposal_revisions" (
+    "id" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "revisionNumber" INTEGER NOT NULL,
+    "reason" "ProposalRevisionReason" NOT NULL,
+    "status" "ProposalStatus" NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "totalAmount" DECIMAL(10,2) NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "proposal_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "proposal_revisions_proposalId_idx" ON "proposal_revisions"("proposalId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "proposal_revisions_proposalId_revisionNumber_key" ON "proposal_revisions"("proposalId", "revisionNumber");
+
+-- AddForeignKey
+ALTER TABLE "proposal_revisions" ADD CONSTRAINT "proposal_revisions_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "proposals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_revisions" ADD CONSTRAINT "proposal_revisions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "ProposalRevisionReason" ADD VALUE 'VOIDED';
+ALTER TYPE "ProposalRevisionReason" ADD VALUE 'REVISED';
+
+-- AlterTable
+ALTER TABLE "proposal_revisions" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "proposals" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
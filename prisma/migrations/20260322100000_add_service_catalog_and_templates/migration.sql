@@ -0,0 +1,75 @@
+-- CreateTable
+CREATE TABLE "catalog_services" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "serviceType" "ServiceType",
+    "defaultRate" DECIMAL(10,2) NOT NULL,
+    "unit" TEXT,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "timelineWeeks" INTEGER,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "catalog_services_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "proposal_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "serviceType" "ServiceType",
+    "paymentMethod" TEXT,
+    "paymentTerms" TEXT,
+    "termsAndConditions" TEXT,
+    "taxRate" DECIMAL(5,2),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "proposal_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "proposal_template_items" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "catalogServiceId" TEXT NOT NULL,
+    "description" TEXT,
+    "rate" DECIMAL(10,2),
+    "quantity" INTEGER,
+    "order" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "proposal_template_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "catalog_services_serviceType_idx" ON "catalog_services"("serviceType");
+
+-- CreateIndex
+CREATE INDEX "catalog_services_isActive_idx" ON "catalog_services"("isActive");
+
+-- CreateIndex
+CREATE INDEX "proposal_templates_serviceType_idx" ON "proposal_templates"("serviceType");
+
+-- CreateIndex
+CREATE INDEX "proposal_templates_isActive_idx" ON "proposal_templates"("isActive");
+
+-- CreateIndex
+CREATE INDEX "proposal_template_items_templateId_idx" ON "proposal_template_items"("templateId");
+
+-- CreateIndex
+CREATE INDEX "proposal_template_items_catalogServiceId_idx" ON "proposal_template_items"("catalogServiceId");
+
+-- AddForeignKey
+ALTER TABLE "proposal_templates" ADD CONSTRAINT "proposal_templates_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_template_items" ADD CONSTRAINT "proposal_template_items_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "proposal_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_template_items" ADD CONSTRAINT "proposal_template_items_catalogServiceId_fkey" FOREIGN KEY ("catalogServiceId") REFERENCES "catalog_services"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
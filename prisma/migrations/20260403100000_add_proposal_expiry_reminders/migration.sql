@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "proposals" ADD COLUMN     "expiryReminderDays" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "proposals_expiresAt_idx" ON "proposals"("expiresAt");
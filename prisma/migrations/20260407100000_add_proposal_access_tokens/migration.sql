@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "ProposalAccessAction" AS ENUM ('VIEW', 'DOWNLOAD_PDF', 'SIGN');
+
+-- CreateTable
+CREATE TABLE "proposal_access_tokens" (
+    "id" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "proposal_access_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "proposal_access_logs" (
+    "id" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "tokenId" TEXT,
+    "action" "ProposalAccessAction" NOT NULL,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "proposal_access_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "proposal_access_tokens_tokenHash_key" ON "proposal_access_tokens"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "proposal_access_tokens_proposalId_idx" ON "proposal_access_tokens"("proposalId");
+
+-- CreateIndex
+CREATE INDEX "proposal_access_logs_proposalId_idx" ON "proposal_access_logs"("proposalId");
+
+-- CreateIndex
+CREATE INDEX "proposal_access_logs_tokenId_idx" ON "proposal_access_logs"("tokenId");
+
+-- AddForeignKey
+ALTER TABLE "proposal_access_tokens" ADD CONSTRAINT "proposal_access_tokens_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "proposals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_access_tokens" ADD CONSTRAINT "proposal_access_tokens_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_access_logs" ADD CONSTRAINT "proposal_access_logs_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "proposals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_access_logs" ADD CONSTRAINT "proposal_access_logs_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "proposal_access_tokens"("id") ON DELETE SET NULL ON UPDATE CASCADE;
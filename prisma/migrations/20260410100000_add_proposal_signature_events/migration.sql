@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "SignatureAuthMethod" AS ENUM ('SESSION', 'PUBLIC_LINK');
+
+-- CreateTable
+CREATE TABLE "proposal_signature_events" (
+    "id" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "revisionId" TEXT,
+    "version" INTEGER NOT NULL,
+    "signedAs" TEXT NOT NULL,
+    "signerName" TEXT NOT NULL,
+    "signerEmail" TEXT NOT NULL,
+    "userId" TEXT,
+    "authMethod" "SignatureAuthMethod" NOT NULL,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "documentHash" TEXT NOT NULL,
+    "signatureHash" TEXT NOT NULL,
+    "previousHash" TEXT,
+    "eventHash" TEXT NOT NULL,
+    "signedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "proposal_signature_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "proposal_signature_events_eventHash_key" ON "proposal_signature_events"("eventHash");
+
+-- CreateIndex
+CREATE INDEX "proposal_signature_events_proposalId_idx" ON "proposal_signature_events"("proposalId");
+
+-- AddForeignKey
+ALTER TABLE "proposal_signature_events" ADD CONSTRAINT "proposal_signature_events_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "proposals"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_signature_events" ADD CONSTRAINT "proposal_signature_events_revisionId_fkey" FOREIGN KEY ("revisionId") REFERENCES "proposal_revisions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_signature_events" ADD CONSTRAINT "proposal_signature_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "NumberedDocument" AS ENUM ('PROPOSAL', 'AMENDMENT', 'INVOICE', 'PROJECT_REQUEST');
+
+-- AlterTable
+ALTER TABLE "project_requests" ADD COLUMN     "requestNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE "document_sequences" (
+    "id" TEXT NOT NULL,
+    "document" "NumberedDocument" NOT NULL,
+    "period" TEXT NOT NULL,
+    "value" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "document_sequences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_requests_requestNumber_key" ON "project_requests"("requestNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_sequences_document_period_key" ON "document_sequences"("document", "period");
+
+-- Backfill: number existing requests per creation year
+UPDATE "project_requests" AS r
+SET "requestNumber" = 'REQ-' || n."year" || '-' || LPAD(n."seq"::TEXT, 4, '0')
+FROM (
+    SELECT "id",
+           TO_CHAR("createdAt", 'YYYY') AS "year",
+           ROW_NUMBER() OVER (PARTITION BY TO_CHAR("createdAt", 'YYYY') ORDER BY "createdAt", "id") AS "seq"
+    FROM "project_requests"
+) AS n
+WHERE r."id" = n."id";
+
+-- Seed the yearly sequences so new numbers continue after existing ones
+INSERT INTO "document_sequences" ("id", "document", "period", "value", "updatedAt")
+SELECT gen_random_uuid()::TEXT, 'PROJECT_REQUEST', TO_CHAR("createdAt", 'YYYY'), COUNT(*), CURRENT_TIMESTAMP
+FROM "project_requests"
+GROUP BY TO_CHAR("createdAt", 'YYYY');
+
+INSERT INTO "document_sequences" ("id", "document", "period", "value", "updatedAt")
+SELECT gen_random_uuid()::TEXT, 'PROPOSAL', SUBSTRING("proposalNumber" FROM '^PROP-(\d{4})-'), MAX(SUBSTRING("proposalNumber" FROM '^PROP-\d{4}-(\d+)')::INTEGER), CURRENT_TIMESTAMP
+FROM "proposals"
+WHERE "proposalNumber" ~ '^PROP-\d{4}-\d+'
+GROUP BY SUBSTRING("proposalNumber" FROM '^PROP-(\d{4})-');
+
+INSERT INTO "document_sequences" ("id", "document", "period", "value", "updatedAt")
+SELECT gen_random_uuid()::TEXT, 'INVOICE', SUBSTRING("invoiceNumber" FROM '^INV-(\d{4})-'), MAX(SUBSTRING("invoiceNumber" FROM '^INV-\d{4}-(\d+)')::INTEGER), CURRENT_TIMESTAMP
+FROM "invoices"
+WHERE "invoiceNumber" ~ '^INV-\d{4}-\d+'
+GROUP BY SUBSTRING("invoiceNumber" FROM '^INV-(\d{4})-');
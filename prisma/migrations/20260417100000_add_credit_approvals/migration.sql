@@ -0,0 +1,44 @@
+-- AlterEnum
+ALTER TYPE "ProposalRevisionReason" ADD VALUE 'CREDIT_ADDED';
+ALTER TYPE "ProposalRevisionReason" ADD VALUE 'CREDIT_UPDATED';
+ALTER TYPE "ProposalRevisionReason" ADD VALUE 'CREDIT_DELETED';
+
+-- AlterTable
+ALTER TABLE "proposal_credits" ADD COLUMN     "approvalStatus" "ServiceApprovalStatus",
+ADD COLUMN     "createdById" TEXT;
+
+-- CreateTable
+CREATE TABLE "proposal_credit_approvals" (
+    "id" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "creditId" TEXT,
+    "decision" "ServiceApprovalStatus" NOT NULL,
+    "creditType" TEXT NOT NULL,
+    "creditAmount" DECIMAL(10,2) NOT NULL,
+    "discountAmount" DECIMAL(10,2) NOT NULL,
+    "subtotal" DECIMAL(10,2) NOT NULL,
+    "description" TEXT,
+    "reason" TEXT,
+    "decidedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "proposal_credit_approvals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "proposal_credit_approvals_proposalId_idx" ON "proposal_credit_approvals"("proposalId");
+
+-- CreateIndex
+CREATE INDEX "proposal_credit_approvals_creditId_idx" ON "proposal_credit_approvals"("creditId");
+
+-- AddForeignKey
+ALTER TABLE "proposal_credits" ADD CONSTRAINT "proposal_credits_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_credit_approvals" ADD CONSTRAINT "proposal_credit_approvals_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "proposals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_credit_approvals" ADD CONSTRAINT "proposal_credit_approvals_creditId_fkey" FOREIGN KEY ("creditId") REFERENCES "proposal_credits"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_credit_approvals" ADD CONSTRAINT "proposal_credit_approvals_decidedById_fkey" FOREIGN KEY ("decidedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
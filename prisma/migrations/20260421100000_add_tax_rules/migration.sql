@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "proposals" ADD COLUMN     "taxBreakdown" JSONB;
+
+-- CreateTable
+CREATE TABLE "tax_rules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "state" TEXT,
+    "city" TEXT,
+    "rate" DECIMAL(6,3) NOT NULL,
+    "serviceTypes" "ServiceType"[],
+    "compound" BOOLEAN NOT NULL DEFAULT false,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tax_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tax_rules_country_state_idx" ON "tax_rules"("country", "state");
+
+-- CreateIndex
+CREATE INDEX "tax_rules_isActive_idx" ON "tax_rules"("isActive");
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "FeeModel" AS ENUM ('FIXED', 'RATE_QUANTITY', 'PERCENT_OF_CONSTRUCTION', 'HOURLY_NOT_TO_EXCEED', 'PER_SQUARE_FOOT');
+
+-- AlterTable
+ALTER TABLE "proposals" ADD COLUMN     "estimatedConstructionCost" DECIMAL(14,2);
+
+-- AlterTable
+ALTER TABLE "proposal_services" ADD COLUMN     "estimatedHours" DECIMAL(8,2),
+ADD COLUMN     "feeCap" DECIMAL(10,2),
+ADD COLUMN     "feeModel" "FeeModel" NOT NULL DEFAULT 'FIXED',
+ADD COLUMN     "feePercent" DECIMAL(6,3);
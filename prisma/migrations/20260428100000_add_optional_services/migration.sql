@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "ProposalRevisionReason" ADD VALUE 'SELECTION_CHANGED';
+
+-- AlterEnum
+ALTER TYPE "ProposalAccessAction" ADD VALUE 'SELECT_SERVICE';
+
+-- AlterTable
+ALTER TABLE "proposal_services" ADD COLUMN     "optional" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "selected" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "ProposalReviewStatus" AS ENUM ('PENDING', 'APPROVED', 'CHANGES_REQUESTED');
+
+-- CreateTable
+CREATE TABLE "proposal_reviews" (
+    "id" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "status" "ProposalReviewStatus" NOT NULL DEFAULT 'PENDING',
+    "documentHash" TEXT NOT NULL,
+    "totalAmount" DECIMAL(10,2) NOT NULL,
+    "submittedById" TEXT,
+    "submitComment" TEXT,
+    "submittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "decidedById" TEXT,
+    "decisionComment" TEXT,
+    "decidedAt" TIMESTAMP(3),
+
+    CONSTRAINT "proposal_reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "proposal_reviews_proposalId_version_idx" ON "proposal_reviews"("proposalId", "version");
+
+-- CreateIndex
+CREATE INDEX "proposal_reviews_status_idx" ON "proposal_reviews"("status");
+
+-- AddForeignKey
+ALTER TABLE "proposal_reviews" ADD CONSTRAINT "proposal_reviews_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "proposals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_reviews" ADD CONSTRAINT "proposal_reviews_submittedById_fkey" FOREIGN KEY ("submittedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_reviews" ADD CONSTRAINT "proposal_reviews_decidedById_fkey" FOREIGN KEY ("decidedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- Services awaiting the client's approval are no longer priced or billed
+UPDATE "proposal_services"
+SET "active" = false
+WHERE "requiresApproval" = true
+  AND "approvalStatus" = 'PENDING_APPROVAL';
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "ProposalAccessAction" ADD VALUE 'CHECKOUT';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "proposals" ADD COLUMN     "manualTaxRate" DECIMAL(5,2);
+
+-- Proposals without a rule breakdown are still on their manual rate
+UPDATE "proposals" SET "manualTaxRate" = "taxRate" WHERE "taxBreakdown" IS NULL;
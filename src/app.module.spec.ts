@@ -0,0 +1,31 @@
+import { Test } from '@nestjs/testing';
+import { AppModule } from './app.module';
+import { PrismaService } from './prisma/prisma.service';
+
+// Resolves every provider in the real module graph, so a service gaining a
+// dependency its module cannot see fails here instead of at boot
+describe('AppModule', () => {
+  beforeAll(() => {
+    Object.assign(process.env, {
+      NODE_ENV: 'test',
+      JWT_ACCESS_SECRET: 'test-access-secret',
+      JWT_REFRESH_SECRET: 'test-refresh-secret',
+      GOOGLE_CLIENT_ID: 'test-client-id',
+      GOOGLE_CLIENT_SECRET: 'test-client-secret',
+      GOOGLE_CALLBACK_URL: 'http://localhost/auth/google/callback',
+      FAKE_PAYMENT_SECRET: 'test-payment-secret',
+    });
+  });
+
+  it('resolves every provider', async () => {
+    // No database is needed to check wiring
+    const moduleRef = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(PrismaService)
+      .useValue({})
+      .compile();
+
+    expect(moduleRef.get(AppModule)).toBeInstanceOf(AppModule);
+  });
+});
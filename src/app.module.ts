@@ -1,7 +1,7 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { CacheModule } from '@nestjs/cache-manager';
-import { BullModule } from '@nestjs/bullmq';
+import { ScheduleModule } from '@nestjs/schedule';
 
 import configuration from '../src/config/configuratin';
 // import { envValidationSchema } from '../src/config/validation-joi.schema';
@@ -12,13 +12,19 @@ import { PrismaModule } from './prisma/prisma.module';
 import { PrismaService } from './prisma/prisma.service';
 import { MailerService } from './utils/email/email.service';
 import { FileOptimizerService } from './utils/optimizer/file-optimizer.service';
-import { CloudinaryStrategy } from './upload/strategies/cloudinary.strategy';
+import { UploadModule } from './upload/upload.module';
 import { MailerModule } from './utils/email/email.module';
 import { ProjectRequestModule } from './modules/users/user.module';
 import { MediaModule } from './modules/media/media.module';
 import { ProposalModule } from './modules/project-manager/proposal/proposal.module';
 import { ProjectStageModule } from './modules/project-manager/project-stage/project-stage.module';
 import { ProjectAdminRequestModule } from './modules/project-manager/project-request/project-request.module';
+import { ServiceCatalogModule } from './modules/project-manager/service-catalog/service-catalog.module';
+import { NotificationsModule } from './modules/notifications/notifications.module';
+import { RealtimeModule } from './modules/realtime/realtime.module';
+import { QueueModule } from './modules/queue/queue.module';
+import { FinanceModule } from './modules/finance/finance.module';
+import { TaxModule } from './modules/tax/tax.module';
 
 @Module({
   imports: [
@@ -36,21 +42,9 @@ import { ProjectAdminRequestModule } from './modules/project-manager/project-req
       inject: [ConfigService],
     }),
 
-    // BullModule.forRootAsync({
-    //   imports: [ConfigModule],
-    //   useFactory: (config: ConfigService) => ({
-    //     connection: {
-    //       host: config.get<string>('REDIS_HOST'),
-    //       port: config.get<number>('REDIS_PORT'),
-    //       password: config.get<string>('REDIS_PASSWORD'),
-    //     },
-    //   }),
-    //   inject: [ConfigService],
-    // }),
-
-    // BullModule.registerQueue({
-    //   name: 'video-processing',
-    // }),
+    ScheduleModule.forRoot(),
+    QueueModule,
+    UploadModule,
 
     AuthModule,
     PrismaModule,
@@ -60,18 +54,13 @@ import { ProjectAdminRequestModule } from './modules/project-manager/project-req
     ProposalModule,
     ProjectStageModule,
     ProjectAdminRequestModule,
+    ServiceCatalogModule,
+    TaxModule,
+    FinanceModule,
+    NotificationsModule,
+    RealtimeModule,
   ],
-  providers: [
-    PrismaService,
-    MailerService,
-    FileOptimizerService,
-    CloudinaryStrategy,
-  ],
-  exports: [
-    PrismaService,
-    MailerService,
-    FileOptimizerService,
-    CloudinaryStrategy,
-  ],
+  providers: [PrismaService, MailerService, FileOptimizerService],
+  exports: [PrismaService, MailerService, FileOptimizerService],
 })
 export class AppModule {}
@@ -22,6 +22,10 @@ export default () => ({
     fromEmail: process.env.MAIL_FROM || 'noreply@yourapp.com',
     fromName: process.env.MAIL_FROM_NAME || 'Your App',
     verifyExpiryHours: parseInt(process.env.EMAIL_VERIFY_EXPIRY || '24', 10),
+    passwordResetExpiryMinutes: parseInt(
+      process.env.PASSWORD_RESET_EXPIRY || '60',
+      10,
+    ),
   },
 
   googleOAuth: {
@@ -36,12 +40,112 @@ export default () => ({
     apiSecret: process.env.CLOUDINARY_API_SECRET,
   },
 
+  model: {
+    compression: process.env.MODEL_COMPRESSION || 'draco', // 'draco' | 'meshopt' | 'none'
+    textureMaxSize: parseInt(process.env.MODEL_TEXTURE_MAX_SIZE || '2048', 10),
+    thumbnailSize: parseInt(process.env.MODEL_THUMBNAIL_SIZE || '512', 10),
+  },
+
+  document: {
+    thumbnailWidth: parseInt(process.env.DOCUMENT_THUMBNAIL_WIDTH || '640', 10),
+    maxIndexedPages: parseInt(
+      process.env.DOCUMENT_MAX_INDEXED_PAGES || '500',
+      10,
+    ),
+  },
+
+  storage: {
+    driver: process.env.STORAGE_DRIVER || 'cloudinary', // 'cloudinary' | 's3' | 'local'
+    localDir: process.env.STORAGE_LOCAL_DIR || 'uploads',
+    localUrl: process.env.STORAGE_LOCAL_URL, // defaults to http://localhost:<PORT>/uploads
+  },
+
+  s3: {
+    bucket: process.env.S3_BUCKET,
+    region: process.env.S3_REGION || 'us-east-1',
+    endpoint: process.env.S3_ENDPOINT, // set for MinIO / S3-compatible hosts
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    publicUrl: process.env.S3_PUBLIC_URL,
+  },
+
+  invoice: {
+    dueDays: parseInt(process.env.INVOICE_DUE_DAYS || '30', 10),
+    defaultInstallments: parseInt(
+      process.env.INVOICE_DEFAULT_INSTALLMENTS || '3',
+      10,
+    ), // used when paymentMethod is INSTALLMENT
+    installmentIntervalDays: parseInt(
+      process.env.INVOICE_INSTALLMENT_INTERVAL_DAYS || '30',
+      10,
+    ),
+  },
+
+  payment: {
+    driver: process.env.PAYMENT_DRIVER || 'stripe', // 'stripe' | 'fake'
+    currency: process.env.PAYMENT_CURRENCY || 'usd',
+    stripeSecretKey: process.env.STRIPE_SECRET_KEY,
+    stripeWebhookSecret: process.env.STRIPE_WEBHOOK_SECRET,
+    fakeSecret: process.env.FAKE_PAYMENT_SECRET, // signs fake-driver webhooks; required with that driver
+  },
+
+  proposalExpiry: {
+    cron: process.env.PROPOSAL_EXPIRY_CRON || '0 * * * *',
+    reminderDays: process.env.PROPOSAL_EXPIRY_REMINDER_DAYS || '7,1', // days before expiry
+  },
+
+  numbering: {
+    // <DOC>_NUMBER_PREFIX and <DOC>_NUMBER_RESET ('never' | 'yearly' | 'monthly')
+    // for DOC in PROPOSAL, AMENDMENT, INVOICE, REQUEST
+    proposalPrefix: process.env.PROPOSAL_NUMBER_PREFIX || 'PROP',
+    amendmentPrefix: process.env.AMENDMENT_NUMBER_PREFIX || 'AMD',
+    invoicePrefix: process.env.INVOICE_NUMBER_PREFIX || 'INV',
+    requestPrefix: process.env.REQUEST_NUMBER_PREFIX || 'REQ',
+    padding: parseInt(process.env.NUMBER_PADDING || '4', 10),
+  },
+
+  proposalLink: {
+    expiryDays: parseInt(process.env.PROPOSAL_LINK_EXPIRY_DAYS || '30', 10), // login-free client links
+  },
+
+  proposalReview: {
+    // Drafts above this total need internal approval; unset turns the check off
+    totalThreshold: process.env.PROPOSAL_REVIEW_TOTAL_THRESHOLD
+      ? parseFloat(process.env.PROPOSAL_REVIEW_TOTAL_THRESHOLD)
+      : undefined,
+    onDiscount: (process.env.PROPOSAL_REVIEW_ON_DISCOUNT ?? 'true') === 'true',
+  },
+
+  discountApproval: {
+    // Percent of the subtotal, per credit
+    thresholdPercent: parseFloat(
+      process.env.DISCOUNT_APPROVAL_THRESHOLD_PERCENT || '10',
+    ),
+  },
+
   redis: {
     host: process.env.REDIS_HOST || 'localhost',
     port: parseInt(process.env.REDIS_PORT || '6379', 10),
     password: process.env.REDIS_PASSWORD || undefined,
   },
 
+  queue: {
+    driver: process.env.QUEUE_DRIVER || 'bullmq', // 'bullmq' | 'memory'
+    prefix: process.env.QUEUE_PREFIX || 'bull',
+    attempts: parseInt(process.env.QUEUE_ATTEMPTS || '5', 10),
+    backoffMs: parseInt(process.env.QUEUE_BACKOFF_MS || '5000', 10),
+  },
+
+  video: {
+    ffmpegPath: process.env.FFMPEG_PATH, // falls back to ffmpeg on PATH
+    ffprobePath: process.env.FFPROBE_PATH,
+    maxWidth: parseInt(process.env.VIDEO_MAX_WIDTH || '1920', 10),
+    maxHeight: parseInt(process.env.VIDEO_MAX_HEIGHT || '1080', 10),
+    crf: parseInt(process.env.VIDEO_CRF || '23', 10),
+    preset: process.env.VIDEO_PRESET || 'veryfast',
+  },
+
   frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3001',
 
   cacheTtl: parseInt(process.env.CACHE_TTL || '300', 10), // seconds
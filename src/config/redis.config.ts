@@ -0,0 +1,10 @@
+// src/config/redis.config.ts
+import { ConfigService } from '@nestjs/config';
+import type { RedisOptions } from 'ioredis';
+
+/** Connection settings shared by the job queue and the realtime fan-out */
+export const getRedisOptions = (config: ConfigService): RedisOptions => ({
+  host: config.get<string>('REDIS_HOST', 'localhost'),
+  port: parseInt(config.get('REDIS_PORT', '6379')),
+  password: config.get<string>('REDIS_PASSWORD') || undefined,
+});
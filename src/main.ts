@@ -11,9 +11,13 @@ import { WinstonModule } from 'nest-winston';
 import * as winston from 'winston';
 import { utilities as nestWinstonUtilities } from 'nest-winston';
 import { Request, Response } from 'express';
+import { STORAGE_PROVIDER } from './upload/upload.constants';
+import type { StorageProvider } from './upload/interfaces/storage-provider.interface';
+import { LocalStrategy } from './upload/strategies/local.strategy';
 
 async function bootstrap() {
   const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    rawBody: true, // payment webhooks verify signatures over the exact bytes
     logger: WinstonModule.createLogger({
       level: process.env.NODE_ENV === 'production' ? 'info' : 'debug',
 
@@ -93,8 +97,14 @@ async function bootstrap() {
     }),
   );
 
-  // Compression
-  app.use(compression());
+  // Compression (skipped for SSE, which must flush each event immediately)
+  app.use(
+    compression({
+      filter: (req, res) =>
+        res.getHeader('Content-Type') !== 'text/event-stream' &&
+        compression.filter(req, res),
+    }),
+  );
 
   // Rate Limiting
   app.use(
@@ -149,6 +159,12 @@ async function bootstrap() {
     });
   }
 
+  // Local storage driver: uploaded files are served by the app itself
+  const storage = app.get<StorageProvider>(STORAGE_PROVIDER);
+  if (storage instanceof LocalStrategy) {
+    app.useStaticAssets(storage.rootDir, { prefix: storage.publicPath });
+  }
+
   // Health Check endpoint
   const expressApp = app.getHttpAdapter().getInstance();
   expressApp.get('/api/health', (_req: Request, res: Response) => {
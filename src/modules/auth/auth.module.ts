@@ -15,7 +15,7 @@ import { JwtStrategy } from './jwt/jwt.strategy';
 import { MailerService } from 'src/utils/email/email.service';
 import { MailerModule } from 'src/utils/email/email.module';
 import { ProjectRequestModule } from '../users/user.module';
-import { ProjectRequestService } from '../users/user-service/project-request.service';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
   imports: [
@@ -23,6 +23,7 @@ import { ProjectRequestService } from '../users/user-service/project-request.ser
     PassportModule,
     MailerModule,
     ProjectRequestModule,
+    NotificationsModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: (config: ConfigService) => ({
@@ -32,7 +33,7 @@ import { ProjectRequestService } from '../users/user-service/project-request.ser
     }),
   ],
   controllers: [AuthController, GoogleController],
-  providers: [AuthService,MailerService,ProjectRequestService, JwtStrategy, JwtRefreshStrategy, GoogleStrategy],
+  providers: [AuthService,MailerService, JwtStrategy, JwtRefreshStrategy, GoogleStrategy],
   exports: [AuthService],
 })
 export class AuthModule {}
\ No newline at end of file
@@ -20,15 +20,27 @@ import { UserRole, User, Prisma } from '@prisma/client';
 import { RegisterUserDto } from './dto/register-user.dto';
 import { RegisterStaffDto } from './dto/register-staff.dto';
 import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
 import { MailerService } from 'src/utils/email/email.service';
 import { FindAllOptions } from './constant';
 // import { User } from 'generated/prisma'; // ← Prisma User type
 
+// Secrets and one-time tokens never leave the service
+const PRIVATE_USER_FIELDS = [
+  'password',
+  'refreshToken',
+  'emailVerifyToken',
+  'emailVerifyExpiry',
+  'passwordResetToken',
+  'passwordResetExpiry',
+] as const;
+
 @Injectable()
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
   private readonly emailVerifyExpiry: number;
+  private readonly passwordResetExpiryMinutes: number;
 
   constructor(
     private prisma: PrismaService,
@@ -38,6 +50,10 @@ export class AuthService {
   ) {
     this.emailVerifyExpiry =
       parseInt(this.config.get('EMAIL_VERIFY_EXPIRY', '24')) * 60 * 60 * 1000;
+    this.passwordResetExpiryMinutes = this.config.get<number>(
+      'email.passwordResetExpiryMinutes',
+      60,
+    );
   }
 
   private async generateTokens(userId: string, role: UserRole) {
@@ -68,6 +84,11 @@ export class AuthService {
     return crypto.randomBytes(32).toString('hex');
   }
 
+  // Only the digest is stored, so a leaked users table cannot be replayed
+  private hashPasswordResetToken(token: string) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
   private async sendVerificationEmail(user: User, frontendUrl: string) {
     const token = await this.generateEmailVerifyToken();
     const expiry = new Date(Date.now() + this.emailVerifyExpiry);
@@ -88,14 +109,10 @@ export class AuthService {
   }
 
   private sanitizeUser(user: User) {
-    const {
-      password,
-      refreshToken,
-      emailVerifyToken,
-      emailVerifyExpiry,
-      ...safe
-    } = user;
-    return safe;
+    const hidden = new Set<string>(PRIVATE_USER_FIELDS);
+    return Object.fromEntries(
+      Object.entries(user).filter(([key]) => !hidden.has(key)),
+    ) as Omit<User, (typeof PRIVATE_USER_FIELDS)[number]>;
   }
 
   async registerUser(dto: RegisterUserDto, frontendUrl: string) {
@@ -382,6 +399,79 @@ export class AuthService {
     return { message: 'Verification email resent.' };
   }
 
+  async forgotPassword(email: string, frontendUrl: string) {
+    // Same response whether or not the account exists
+    const response = {
+      message:
+        'If an account exists for this email, a password reset link has been sent.',
+    };
+
+    const user = await this.prisma.user.findUnique({
+      where: { email: email.toLowerCase().trim() },
+    });
+    if (!user || !user.isActive) return response;
+
+    const token = crypto.randomBytes(32).toString('hex');
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: {
+        passwordResetToken: this.hashPasswordResetToken(token),
+        passwordResetExpiry: new Date(
+          Date.now() + this.passwordResetExpiryMinutes * 60 * 1000,
+        ),
+      },
+    });
+
+    try {
+      await this.mailer.sendPasswordReset(
+        user.email,
+        token,
+        user.name ?? 'User',
+        `${frontendUrl}/reset-password`,
+        this.passwordResetExpiryMinutes,
+      );
+      this.logger.log(`Password reset requested for ${user.email}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to send password reset email to ${user.email}`,
+        error,
+      );
+    }
+
+    return response;
+  }
+
+  async resetPassword(dto: ResetPasswordDto) {
+    const tokenHash = this.hashPasswordResetToken(dto.token);
+
+    const user = await this.prisma.user.findFirst({
+      where: {
+        passwordResetToken: tokenHash,
+        passwordResetExpiry: { gt: new Date() },
+        isActive: true,
+      },
+    });
+    if (!user) throw new BadRequestException('Invalid or expired token.');
+
+    const hashed = await bcrypt.hash(dto.password, 12);
+
+    // Conditional on the token so two concurrent requests cannot both use it
+    const { count } = await this.prisma.user.updateMany({
+      where: { id: user.id, passwordResetToken: tokenHash },
+      data: {
+        password: hashed,
+        passwordResetToken: null,
+        passwordResetExpiry: null,
+        refreshToken: null,
+      },
+    });
+    if (count === 0) throw new BadRequestException('Invalid or expired token.');
+
+    this.logger.log(`Password reset completed for ${user.email}`);
+    return { message: 'Password reset successful. You can now log in.' };
+  }
+
   async logout(userId: string) {
     await this.prisma.user.update({
       where: { id: userId },
@@ -0,0 +1,72 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { InvoiceStatus } from '@prisma/client';
+
+export class GenerateInvoicesDto {
+  // Defaults to 1 for LUMP_SUM proposals and INVOICE_DEFAULT_INSTALLMENTS otherwise
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(24)
+  installments?: number;
+
+  @IsOptional()
+  @IsDateString()
+  firstDueDate?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  intervalDays?: number;
+}
+
+export class UpdateInvoiceDto {
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+}
+
+export class VoidInvoiceDto {
+  @IsString()
+  @MaxLength(2000)
+  reason: string;
+}
+
+export class QueryInvoiceDto {
+  @IsOptional()
+  @IsEnum(InvoiceStatus)
+  status?: InvoiceStatus;
+
+  @IsOptional()
+  @IsUUID()
+  proposalId?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
@@ -0,0 +1,98 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaymentMethod, PaymentStatus } from '@prisma/client';
+
+export class CreateCheckoutDto {
+  // Pays this invoice; otherwise the payment goes against the proposal balance
+  @IsOptional()
+  @IsUUID()
+  invoiceId?: string;
+
+  // Defaults to everything still due
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount?: number;
+
+  @IsOptional()
+  @IsIn([PaymentMethod.CARD, PaymentMethod.ACH])
+  method?: PaymentMethod;
+}
+
+export class RecordPaymentDto {
+  @IsUUID()
+  proposalId: string;
+
+  @IsOptional()
+  @IsUUID()
+  invoiceId?: string;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount: number;
+
+  @IsEnum(PaymentMethod)
+  method: PaymentMethod;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  reference?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+
+  @IsOptional()
+  @IsDateString()
+  paidAt?: string;
+}
+
+export class RefundPaymentDto {
+  // Defaults to everything not yet refunded
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  reason?: string;
+}
+
+export class QueryPaymentDto {
+  @IsOptional()
+  @IsUUID()
+  proposalId?: string;
+
+  @IsOptional()
+  @IsEnum(PaymentStatus)
+  status?: PaymentStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
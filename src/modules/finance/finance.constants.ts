@@ -0,0 +1,36 @@
+// src/modules/finance/finance.constants.ts
+import { Prisma, ServiceApprovalStatus } from '@prisma/client';
+
+export const PAYMENT_PROVIDER = Symbol('PAYMENT_PROVIDER');
+
+export const PaymentDriver = {
+  STRIPE: 'stripe',
+  FAKE: 'fake',
+} as const;
+
+export type PaymentDriver = (typeof PaymentDriver)[keyof typeof PaymentDriver];
+
+// Services that are priced, staged and billed: active (not rejected or still
+// awaiting the client's approval) and, for add-ons, chosen by the client
+export const BILLABLE_SERVICE = {
+  active: true,
+  selected: true,
+} satisfies Prisma.ProposalServiceWhereInput;
+
+export const isBillable = (service: { active: boolean; selected: boolean }) =>
+  service.active && service.selected;
+
+// Credits that count against the price: under the approval threshold (no
+// status) or signed off by finance. Pending and rejected ones do not.
+export const APPLIED_CREDIT = {
+  OR: [
+    { approvalStatus: null },
+    { approvalStatus: ServiceApprovalStatus.APPROVED },
+  ],
+} satisfies Prisma.ProposalCreditWhereInput;
+
+export const isApplied = (credit: {
+  approvalStatus: ServiceApprovalStatus | null;
+}) =>
+  credit.approvalStatus === null ||
+  credit.approvalStatus === ServiceApprovalStatus.APPROVED;
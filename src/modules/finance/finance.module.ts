@@ -0,0 +1,63 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { MailerModule } from 'src/utils/email/email.module';
+import { NotificationsModule } from 'src/modules/notifications/notifications.module';
+import { NumberingModule } from 'src/modules/numbering/numbering.module';
+import { TaxModule } from 'src/modules/tax/tax.module';
+import { InvoiceService } from './invoice.service';
+import { InvoiceOverdueService } from './invoice-overdue.service';
+import { InvoiceController } from './invoice.controller';
+import { PaymentService } from './payment.service';
+import { PaymentController } from './payment.controller';
+import { PAYMENT_PROVIDER, PaymentDriver } from './finance.constants';
+import { PaymentProvider } from './interfaces/payment-provider.interface';
+import { StripePaymentProvider } from './providers/stripe-payment.provider';
+import { FakePaymentProvider } from './providers/fake-payment.provider';
+
+@Module({
+  imports: [
+    PrismaModule,
+    MailerModule,
+    NotificationsModule,
+    NumberingModule,
+    TaxModule,
+  ],
+  controllers: [InvoiceController, PaymentController],
+  providers: [
+    {
+      // Picked by PAYMENT_DRIVER (stripe | fake)
+      provide: PAYMENT_PROVIDER,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService): PaymentProvider => {
+        const defaultDriver =
+          config.get('NODE_ENV') === 'test'
+            ? PaymentDriver.FAKE
+            : PaymentDriver.STRIPE;
+
+        if (
+          config.get('PAYMENT_DRIVER', defaultDriver) === PaymentDriver.FAKE
+        ) {
+          const frontendUrl = config.get<string>(
+            'FRONTEND_URL',
+            'http://localhost:3000',
+          );
+          return new FakePaymentProvider(
+            config.getOrThrow<string>('FAKE_PAYMENT_SECRET'),
+            `${frontendUrl}/fake-checkout`,
+          );
+        }
+
+        return new StripePaymentProvider({
+          secretKey: config.get<string>('STRIPE_SECRET_KEY'),
+          webhookSecret: config.get<string>('STRIPE_WEBHOOK_SECRET'),
+        });
+      },
+    },
+    InvoiceService,
+    InvoiceOverdueService,
+    PaymentService,
+  ],
+  exports: [InvoiceService, PaymentService],
+})
+export class FinanceModule {}
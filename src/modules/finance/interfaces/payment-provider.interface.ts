@@ -0,0 +1,47 @@
+// src/modules/finance/interfaces/payment-provider.interface.ts
+import type { PaymentMethod } from '@prisma/client';
+
+export interface CheckoutRequest {
+  paymentId: string; // ours, echoed back in webhook events
+  amountCents: number;
+  currency: string;
+  description: string;
+  customerEmail: string;
+  method: PaymentMethod; // CARD or ACH
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  providerPaymentId: string;
+  url: string;
+}
+
+export type PaymentEventType = 'succeeded' | 'failed' | 'refunded';
+
+/** A provider webhook, verified and reduced to what reconciliation needs */
+export interface PaymentEvent {
+  id: string; // provider event id, used to drop redelivered events
+  type: PaymentEventType;
+  paymentId?: string;
+  providerPaymentId: string;
+  amountCents?: number;
+  refundedCents?: number; // cumulative, not the latest refund alone
+  failureReason?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  refund(providerPaymentId: string, amountCents: number): Promise<void>;
+
+  /**
+   * Verifies the delivery signature and normalizes the payload. Throws on a
+   * bad signature; returns null for event types that need no action.
+   */
+  parseWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): PaymentEvent | null;
+}
@@ -0,0 +1,57 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CronExpression, SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { InvoiceStatus } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+/**
+ * Periodically flags issued invoices past their due date as OVERDUE. A single
+ * conditional update, so several app instances running it is harmless.
+ */
+@Injectable()
+export class InvoiceOverdueService implements OnModuleInit {
+  private readonly logger = new Logger(InvoiceOverdueService.name);
+  private running = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+    private scheduler: SchedulerRegistry,
+  ) {}
+
+  onModuleInit() {
+    const schedule = this.config.get<string>(
+      'INVOICE_OVERDUE_CRON',
+      CronExpression.EVERY_HOUR,
+    );
+    const job = CronJob.from({
+      cronTime: schedule,
+      onTick: () => this.run(),
+    });
+
+    this.scheduler.addCronJob('invoice-overdue', job);
+    job.start();
+    this.logger.log(`Invoice overdue job scheduled (${schedule})`);
+  }
+
+  async run() {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const { count } = await this.prisma.invoice.updateMany({
+        where: { status: InvoiceStatus.ISSUED, dueDate: { lt: new Date() } },
+        data: { status: InvoiceStatus.OVERDUE },
+      });
+
+      if (count > 0) {
+        this.logger.log(`${count} invoice(s) flagged overdue`);
+      }
+    } catch (error) {
+      this.logger.error('Invoice overdue run failed', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
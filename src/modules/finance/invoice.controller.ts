@@ -0,0 +1,107 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import * as client from '@prisma/client';
+import { JwtAuthGuard } from 'src/common/guards/auth.guard';
+import { RolesGuard } from 'src/common/guards/roles.guard';
+import { Roles } from 'src/common/decorators/roles.decorator';
+import { CurrentUser } from 'src/common/decorators/current-user.decorator';
+import { InvoiceService } from './invoice.service';
+import {
+  GenerateInvoicesDto,
+  QueryInvoiceDto,
+  UpdateInvoiceDto,
+  VoidInvoiceDto,
+} from './dto/invoice.dto';
+
+@Controller('invoices')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class InvoiceController {
+  constructor(private readonly invoiceService: InvoiceService) {}
+
+  @Get()
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.FINANCE,
+  )
+  findAll(@Query() query: QueryInvoiceDto) {
+    return this.invoiceService.findAll(query);
+  }
+
+  @Get('mine')
+  findMine(@CurrentUser() user: client.User) {
+    return this.invoiceService.findMine(user);
+  }
+
+  // Accepted proposals are drafted automatically; this regenerates after a void
+  @Post('proposals/:proposalId')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.FINANCE,
+  )
+  generate(
+    @Param('proposalId') proposalId: string,
+    @Body() dto: GenerateInvoicesDto,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.invoiceService.generateForProposal(proposalId, dto, user);
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string, @CurrentUser() user: client.User) {
+    return this.invoiceService.findOne(id, user);
+  }
+
+  @Patch(':id')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.FINANCE,
+  )
+  update(@Param('id') id: string, @Body() dto: UpdateInvoiceDto) {
+    return this.invoiceService.update(id, dto);
+  }
+
+  @Post(':id/issue')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.FINANCE,
+  )
+  issue(@Param('id') id: string, @CurrentUser() user: client.User) {
+    return this.invoiceService.issue(id, user);
+  }
+
+  @Post(':id/mark-paid')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.FINANCE,
+  )
+  markPaid(@Param('id') id: string, @CurrentUser() user: client.User) {
+    return this.invoiceService.markPaid(id, user);
+  }
+
+  @Post(':id/void')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.FINANCE,
+  )
+  void(
+    @Param('id') id: string,
+    @Body() dto: VoidInvoiceDto,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.invoiceService.void(id, dto, user);
+  }
+}
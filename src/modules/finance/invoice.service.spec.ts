@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, ProposalStatus, ServiceType } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { MailerService } from 'src/utils/email/email.service';
+import { NotificationsService } from 'src/modules/notifications/notifications.service';
+import { NumberingService } from 'src/modules/numbering/numbering.service';
+import { TaxService } from 'src/modules/tax/tax.service';
+import { InvoiceService } from './invoice.service';
+import { APPLIED_CREDIT, BILLABLE_SERVICE } from './finance.constants';
+
+describe('InvoiceService.generateForProposal', () => {
+  let service: InvoiceService;
+  let taxes: TaxService;
+  let proposal: Record<string, unknown>;
+
+  const rules = [
+    { id: 'state', name: 'State', rate: 6.25, compound: false, state: 'TX' },
+    { id: 'city', name: 'City', rate: 2, compound: true, city: 'Austin' },
+  ].map((rule) => ({
+    country: 'US',
+    serviceTypes: [],
+    ...rule,
+    rate: new Prisma.Decimal(rule.rate),
+  }));
+
+  const prisma = {
+    $transaction: (fn: (tx: unknown) => Promise<unknown>) => fn(prisma),
+    $queryRaw: jest.fn(() => Promise.resolve([])),
+    proposal: {
+      findUnique: jest.fn<Promise<unknown>, [Prisma.ProposalFindUniqueArgs]>(
+        () => Promise.resolve(proposal),
+      ),
+    },
+    invoice: {
+      count: jest.fn(() => Promise.resolve(0)),
+      create: jest.fn(({ data }: { data: Record<string, unknown> }) =>
+        Promise.resolve(data),
+      ),
+    },
+    taxRule: { findMany: jest.fn(() => Promise.resolve(rules)) },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvoiceService,
+        TaxService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: MailerService, useValue: { queueMail: jest.fn() } },
+        {
+          provide: NotificationsService,
+          useValue: { notifyRoles: jest.fn(), notifyUser: jest.fn() },
+        },
+        {
+          provide: NumberingService,
+          useValue: { next: jest.fn(() => Promise.resolve('INV-2026-0001')) },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback?: string) => fallback },
+        },
+      ],
+    }).compile();
+
+    service = module.get(InvoiceService);
+    taxes = module.get(TaxService);
+  });
+
+  it('bills the quoted total across installments', async () => {
+    // Quoted as the proposal totals are: 1000 less a 10% credit, then tax
+    const quote = await taxes.calculate(
+      { country: 'US', state: 'TX', city: 'Austin' },
+      ServiceType.NEW_CONSTRUCTION,
+      900,
+    );
+    proposal = {
+      id: 'proposal-1',
+      proposalNumber: 'PROP-2026-0001',
+      status: ProposalStatus.ACCEPTED,
+      paymentMethod: 'INSTALLMENT',
+      services: [
+        { id: 'design', name: 'Design', quantity: 1, amount: 600 },
+        { id: 'permits', name: 'Permits', quantity: 1, amount: 400 },
+      ].map((line) => ({ ...line, amount: new Prisma.Decimal(line.amount) })),
+      credits: [{ type: 'PERCENTAGE', amount: new Prisma.Decimal(10) }],
+      taxRate: new Prisma.Decimal(quote!.rate),
+      taxAmount: new Prisma.Decimal(quote!.amount),
+      taxBreakdown: quote!.components,
+      totalAmount: new Prisma.Decimal(900 + quote!.amount),
+    };
+
+    const { data: invoices } = await service.generateForProposal('proposal-1', {
+      installments: 3,
+    });
+
+    const [query] = prisma.proposal.findUnique.mock.calls[0];
+    expect(query.include?.services).toMatchObject({ where: BILLABLE_SERVICE });
+    expect(query.include?.credits).toMatchObject({ where: APPLIED_CREDIT });
+
+    const billed = invoices.reduce(
+      (sum, invoice) => sum.plus(invoice.totalAmount),
+      new Prisma.Decimal(0),
+    );
+    expect(billed.toFixed(2)).toBe(
+      new Prisma.Decimal(proposal.totalAmount as Prisma.Decimal).toFixed(2),
+    );
+  });
+
+  it('checks for existing invoices under a lock on the proposal', async () => {
+    proposal = {
+      id: 'proposal-1',
+      proposalNumber: 'PROP-2026-0001',
+      status: ProposalStatus.ACCEPTED,
+      services: [
+        { id: 'design', name: 'Design', quantity: 1, amount: 600 },
+      ].map((line) => ({ ...line, amount: new Prisma.Decimal(line.amount) })),
+      credits: [],
+      taxRate: null,
+      taxBreakdown: null,
+    };
+    prisma.invoice.count.mockResolvedValueOnce(1);
+
+    await expect(
+      service.generateForProposal('proposal-1'),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+    expect(prisma.invoice.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,625 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  InvoiceStatus,
+  NumberedDocument,
+  Prisma,
+  ProposalStatus,
+  User,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { NumberingService } from 'src/modules/numbering/numbering.service';
+import { TaxService } from 'src/modules/tax/tax.service';
+import type { TaxComponent } from 'src/modules/tax/tax.service';
+import { MailerService } from 'src/utils/email/email.service';
+import { NotificationsService } from 'src/modules/notifications/notifications.service';
+import { NotificationType } from 'src/modules/notifications/notification-type.constant';
+import {
+  GenerateInvoicesDto,
+  QueryInvoiceDto,
+  UpdateInvoiceDto,
+  VoidInvoiceDto,
+} from './dto/invoice.dto';
+import { APPLIED_CREDIT, BILLABLE_SERVICE } from './finance.constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INVOICE_INCLUDE = {
+  lines: { orderBy: { order: 'asc' } },
+  proposal: {
+    select: { id: true, proposalNumber: true, projectName: true },
+  },
+} satisfies Prisma.InvoiceInclude;
+
+type InvoiceWithLines = Prisma.InvoiceGetPayload<{
+  include: typeof INVOICE_INCLUDE;
+}>;
+
+interface DraftLine {
+  proposalServiceId: string | null;
+  description: string;
+  quantity: number;
+  unitPrice: Prisma.Decimal;
+  amount: Prisma.Decimal;
+}
+
+@Injectable()
+export class InvoiceService {
+  private readonly logger = new Logger(InvoiceService.name);
+
+  private readonly FINANCE_ROLES = new Set<UserRole>([
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.FINANCE,
+  ]);
+
+  // For Prisma queries
+  private readonly FINANCE_ROLES_ARRAY: UserRole[] = [
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.FINANCE,
+  ];
+
+  // Issued and still collectible
+  private readonly OPEN_STATUSES: InvoiceStatus[] = [
+    InvoiceStatus.ISSUED,
+    InvoiceStatus.OVERDUE,
+  ];
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+    private mailer: MailerService,
+    private notifications: NotificationsService,
+    private numbering: NumberingService,
+    private taxes: TaxService,
+  ) {}
+
+  private isFinance(user: User): boolean {
+    return this.FINANCE_ROLES.has(user.role);
+  }
+
+  /**
+   * Drafts the invoices for an accepted proposal: one for a lump sum, or an
+   * installment schedule where every service, credit and the tax is split
+   * evenly and the rounding remainder lands on the last installment.
+   */
+  async generateForProposal(
+    proposalId: string,
+    dto: GenerateInvoicesDto = {},
+    user?: User,
+  ) {
+    const proposal = await this.prisma.proposal.findUnique({
+      where: { id: proposalId },
+      include: {
+        // The same services the proposal total is built from
+        services: {
+          where: BILLABLE_SERVICE,
+          orderBy: { order: 'asc' },
+        },
+        credits: { where: APPLIED_CREDIT, orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    if (proposal.status !== ProposalStatus.ACCEPTED) {
+      throw new BadRequestException('Only accepted proposals can be invoiced');
+    }
+
+    const serviceLines: DraftLine[] = proposal.services.map((service) => {
+      const amount = new Prisma.Decimal(service.amount);
+      return {
+        proposalServiceId: service.id,
+        description: service.name,
+        quantity: service.quantity,
+        unitPrice: service.rate
+          ? new Prisma.Decimal(service.rate)
+          : amount.div(service.quantity || 1).toDecimalPlaces(2),
+        amount,
+      };
+    });
+    const subtotal = this.sum(serviceLines.map((line) => line.amount));
+
+    // Same credit rules as the proposal totals
+    const creditLines: DraftLine[] = proposal.credits.map((credit) => {
+      const isPercentage = credit.type !== 'DOLLAR_AMOUNT';
+      const value = isPercentage
+        ? subtotal.mul(credit.amount).div(100).toDecimalPlaces(2)
+        : new Prisma.Decimal(credit.amount);
+      return {
+        proposalServiceId: null,
+        description:
+          credit.description ||
+          (isPercentage ? `Credit (${Number(credit.amount)}%)` : 'Credit'),
+        quantity: 1,
+        unitPrice: value.neg(),
+        amount: value.neg(),
+      };
+    });
+    const creditTotal = this.sum(creditLines.map((line) => line.amount)).neg();
+
+    const taxRate = proposal.taxRate
+      ? new Prisma.Decimal(proposal.taxRate)
+      : null;
+    // Quoted rule components are re-applied to the billed amount so their
+    // rates and per-component rounding carry over
+    const taxable = subtotal.minus(creditTotal);
+    const taxTotal = proposal.taxBreakdown
+      ? new Prisma.Decimal(
+          this.taxes.reapply(
+            proposal.taxBreakdown as unknown as TaxComponent[],
+            taxable.toNumber(),
+          ).amount,
+        )
+      : taxRate
+        ? taxable.mul(taxRate).div(100).toDecimalPlaces(2)
+        : new Prisma.Decimal(0);
+
+    if (subtotal.minus(creditTotal).plus(taxTotal).lte(0)) {
+      throw new BadRequestException(
+        `Proposal ${proposal.proposalNumber} has nothing to bill`,
+      );
+    }
+
+    const count =
+      dto.installments ??
+      (proposal.paymentMethod === 'INSTALLMENT'
+        ? parseInt(this.config.get('INVOICE_DEFAULT_INSTALLMENTS', '3'))
+        : 1);
+    const intervalDays =
+      dto.intervalDays ??
+      parseInt(this.config.get('INVOICE_INSTALLMENT_INTERVAL_DAYS', '30'));
+    const firstDueDate = dto.firstDueDate
+      ? new Date(dto.firstDueDate)
+      : new Date(
+          Date.now() +
+            parseInt(this.config.get('INVOICE_DUE_DAYS', '30')) * DAY_MS,
+        );
+
+    const lines = [...serviceLines, ...creditLines];
+    const lineShares = lines.map((line) => this.split(line.amount, count));
+    const taxShares = this.split(taxTotal, count);
+
+    const invoices = await this.prisma.$transaction(async (tx) => {
+      // Checked under a lock on the proposal, so two requests cannot both
+      // find it uninvoiced and draft two schedules
+      await tx.$queryRaw`SELECT "id" FROM "proposals" WHERE "id" = ${proposal.id} FOR UPDATE`;
+      const existing = await tx.invoice.count({
+        where: { proposalId, status: { not: InvoiceStatus.VOID } },
+      });
+      if (existing > 0) {
+        throw new ConflictException(
+          `Proposal ${proposal.proposalNumber} is already invoiced; void its invoices to regenerate them`,
+        );
+      }
+
+      const created: InvoiceWithLines[] = [];
+      for (let i = 0; i < count; i++) {
+        const installmentLines = lines.map((line, index) =>
+          count === 1
+            ? line
+            : {
+                ...line,
+                quantity: 1,
+                unitPrice: lineShares[index][i],
+                amount: lineShares[index][i],
+              },
+        );
+        const services = installmentLines.filter(
+          (line) => line.proposalServiceId,
+        );
+        const credits = installmentLines.filter(
+          (line) => !line.proposalServiceId,
+        );
+        const invoiceSubtotal = this.sum(services.map((line) => line.amount));
+        const invoiceCredits = this.sum(
+          credits.map((line) => line.amount),
+        ).neg();
+
+        created.push(
+          await tx.invoice.create({
+            data: {
+              invoiceNumber: await this.numbering.next(
+                NumberedDocument.INVOICE,
+                tx,
+              ),
+              proposalId: proposal.id,
+              userId: proposal.userId,
+              clientName: proposal.clientName,
+              clientEmail: proposal.clientEmail,
+              installmentNumber: i + 1,
+              installmentCount: count,
+              subtotal: invoiceSubtotal,
+              creditTotal: invoiceCredits,
+              taxRate,
+              taxAmount: taxShares[i],
+              totalAmount: invoiceSubtotal
+                .minus(invoiceCredits)
+                .plus(taxShares[i]),
+              dueDate: new Date(
+                firstDueDate.getTime() + i * intervalDays * DAY_MS,
+              ),
+              createdById: user?.id,
+              lines: {
+                create: installmentLines.map((line, order) => ({
+                  ...line,
+                  order,
+                })),
+              },
+            },
+            include: INVOICE_INCLUDE,
+          }),
+        );
+      }
+      return created;
+    });
+
+    this.logger.log(
+      `Drafted ${count} invoice(s) for proposal ${proposal.proposalNumber}`,
+    );
+
+    await this.notifications.notifyRoles(
+      this.FINANCE_ROLES_ARRAY,
+      {
+        type: NotificationType.INVOICES_DRAFTED,
+        title: 'Invoices ready for review',
+        message: `${count === 1 ? 'A lump-sum invoice' : `${count} installment invoices`} for proposal ${proposal.proposalNumber} (${proposal.projectName}) await issuing.`,
+        link: `/admin/invoices?proposalId=${proposal.id}`,
+      },
+      user?.id,
+    );
+
+    return {
+      success: true,
+      message: `${invoices.length} invoice(s) drafted for proposal ${proposal.proposalNumber}`,
+      data: invoices,
+    };
+  }
+
+  async findAll(query: QueryInvoiceDto) {
+    const { status, proposalId, page = 1, limit = 20 } = query;
+
+    const where: Prisma.InvoiceWhereInput = {
+      ...(status && { status }),
+      ...(proposalId && { proposalId }),
+    };
+
+    const [invoices, total] = await Promise.all([
+      this.prisma.invoice.findMany({
+        where,
+        include: INVOICE_INCLUDE,
+        orderBy: [{ dueDate: 'asc' }, { invoiceNumber: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.invoice.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      success: true,
+      message: 'Invoices retrieved successfully',
+      data: invoices,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrevious: page > 1,
+      },
+    };
+  }
+
+  /** Invoices billed to the signed-in client; drafts stay internal */
+  async findMine(user: User) {
+    const invoices = await this.prisma.invoice.findMany({
+      where: {
+        OR: [{ userId: user.id }, { clientEmail: user.email }],
+        status: { not: InvoiceStatus.DRAFT },
+      },
+      include: INVOICE_INCLUDE,
+      orderBy: { dueDate: 'asc' },
+    });
+
+    return {
+      success: true,
+      message: 'Invoices retrieved successfully',
+      data: invoices,
+    };
+  }
+
+  async findOne(id: string, user: User) {
+    const invoice = await this.getOrThrow(id);
+
+    const isOwner =
+      invoice.userId === user.id || invoice.clientEmail === user.email;
+    if (
+      !this.isFinance(user) &&
+      (!isOwner || invoice.status === InvoiceStatus.DRAFT)
+    ) {
+      throw new ForbiddenException('Not authorized to view this invoice');
+    }
+
+    return {
+      success: true,
+      message: 'Invoice retrieved successfully',
+      data: invoice,
+    };
+  }
+
+  async update(id: string, dto: UpdateInvoiceDto) {
+    const invoice = await this.getOrThrow(id);
+
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      throw new BadRequestException('Only draft invoices can be edited');
+    }
+
+    const updated = await this.prisma.invoice.update({
+      where: { id },
+      data: {
+        dueDate: dto.dueDate ? new Date(dto.dueDate) : undefined,
+        notes: dto.notes?.trim(),
+      },
+      include: INVOICE_INCLUDE,
+    });
+
+    return {
+      success: true,
+      message: `Invoice ${updated.invoiceNumber} updated successfully`,
+      data: updated,
+    };
+  }
+
+  async issue(id: string, user: User) {
+    const invoice = await this.getOrThrow(id);
+
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      throw new BadRequestException(
+        `Invoice is ${invoice.status}; only drafts can be issued`,
+      );
+    }
+    if (invoice.dueDate < new Date()) {
+      throw new BadRequestException(
+        'Due date is in the past; update it before issuing',
+      );
+    }
+
+    const issued = await this.prisma.invoice.update({
+      where: { id },
+      data: { status: InvoiceStatus.ISSUED, issuedAt: new Date() },
+      include: INVOICE_INCLUDE,
+    });
+
+    await this.sendInvoiceEmail(issued, {
+      subject: `Invoice ${issued.invoiceNumber}: ${issued.proposal.projectName}`,
+      heading: 'New Invoice',
+      intro: `Please find your invoice for ${issued.proposal.projectName} below. Payment is due by ${this.formatDate(issued.dueDate)}.`,
+    });
+    await this.notifications.notifyUser(issued.userId, {
+      type: NotificationType.INVOICE_ISSUED,
+      title: 'New invoice',
+      message: `Invoice ${issued.invoiceNumber} for $${this.formatAmount(issued.totalAmount)} is due ${this.formatDate(issued.dueDate)}.`,
+      link: `/dashboard/invoices/${issued.id}`,
+    });
+
+    this.logger.log(`Invoice ${issued.invoiceNumber} issued by ${user.email}`);
+
+    return {
+      success: true,
+      message: `Invoice ${issued.invoiceNumber} issued to ${issued.clientEmail}`,
+      data: issued,
+    };
+  }
+
+  async markPaid(id: string, user: User) {
+    const invoice = await this.getOrThrow(id);
+
+    if (!this.OPEN_STATUSES.includes(invoice.status)) {
+      throw new BadRequestException(
+        `Invoice is ${invoice.status}; only issued or overdue invoices can be paid`,
+      );
+    }
+
+    const paid = await this.settle(id);
+
+    this.logger.log(
+      `Invoice ${paid.invoiceNumber} marked paid by ${user.email}`,
+    );
+
+    return {
+      success: true,
+      message: `Invoice ${paid.invoiceNumber} marked as paid`,
+      data: paid,
+    };
+  }
+
+  /** Marks an open invoice paid and sends the client a receipt */
+  async settle(id: string) {
+    const paid = await this.prisma.invoice.update({
+      where: { id },
+      data: { status: InvoiceStatus.PAID, paidAt: new Date() },
+      include: INVOICE_INCLUDE,
+    });
+
+    await this.sendInvoiceEmail(paid, {
+      subject: `Payment Received: Invoice ${paid.invoiceNumber}`,
+      heading: 'Payment Received',
+      intro: `Thank you! We have received your payment for invoice ${paid.invoiceNumber}.`,
+    });
+    await this.notifications.notifyUser(paid.userId, {
+      type: NotificationType.INVOICE_PAID,
+      title: 'Payment received',
+      message: `Invoice ${paid.invoiceNumber} is paid in full.`,
+      link: `/dashboard/invoices/${paid.id}`,
+    });
+
+    return paid;
+  }
+
+  async void(id: string, dto: VoidInvoiceDto, user: User) {
+    const invoice = await this.getOrThrow(id);
+
+    if (
+      invoice.status === InvoiceStatus.PAID ||
+      invoice.status === InvoiceStatus.VOID
+    ) {
+      throw new BadRequestException(
+        `Invoice is ${invoice.status} and cannot be voided`,
+      );
+    }
+
+    const voided = await this.prisma.invoice.update({
+      where: { id },
+      data: {
+        status: InvoiceStatus.VOID,
+        voidedAt: new Date(),
+        voidReason: dto.reason.trim(),
+      },
+      include: INVOICE_INCLUDE,
+    });
+
+    // Drafts were never sent, so the client has nothing to disregard
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      await this.sendInvoiceEmail(voided, {
+        subject: `Invoice ${voided.invoiceNumber} Voided`,
+        heading: 'Invoice Voided',
+        intro: `Invoice ${voided.invoiceNumber} has been voided and no longer needs to be paid. Reason: ${voided.voidReason}`,
+      });
+      await this.notifications.notifyUser(voided.userId, {
+        type: NotificationType.INVOICE_VOIDED,
+        title: 'Invoice voided',
+        message: `Invoice ${voided.invoiceNumber} has been voided.`,
+        link: `/dashboard/invoices/${voided.id}`,
+      });
+    }
+
+    this.logger.log(
+      `Invoice ${voided.invoiceNumber} voided by ${user.email}: ${voided.voidReason}`,
+    );
+
+    return {
+      success: true,
+      message: `Invoice ${voided.invoiceNumber} voided`,
+      data: voided,
+    };
+  }
+
+  private async getOrThrow(id: string) {
+    const invoice = await this.prisma.invoice.findUnique({
+      where: { id },
+      include: INVOICE_INCLUDE,
+    });
+
+    if (!invoice) {
+      throw new NotFoundException('Invoice not found');
+    }
+
+    return invoice;
+  }
+
+  private sum(amounts: Prisma.Decimal[]) {
+    return amounts.reduce(
+      (total, amount) => total.plus(amount),
+      new Prisma.Decimal(0),
+    );
+  }
+
+  /** Equal cent-rounded parts; the last part absorbs the remainder */
+  private split(amount: Prisma.Decimal, parts: number) {
+    const share = amount
+      .div(parts)
+      .toDecimalPlaces(2, Prisma.Decimal.ROUND_DOWN);
+    return Array.from({ length: parts }, (_, i) =>
+      i < parts - 1 ? share : amount.minus(share.mul(parts - 1)),
+    );
+  }
+
+  private formatAmount(amount: Prisma.Decimal | number) {
+    return Number(amount).toFixed(2);
+  }
+
+  private formatDate(date: Date) {
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  }
+
+  private async sendInvoiceEmail(
+    invoice: InvoiceWithLines,
+    content: { subject: string; heading: string; intro: string },
+  ) {
+    const frontendUrl = this.config.get<string>(
+      'FRONTEND_URL',
+      'http://localhost:3000',
+    );
+    const link = `${frontendUrl}/dashboard/invoices/${invoice.id}`;
+    const installment =
+      invoice.installmentCount > 1
+        ? ` (installment ${invoice.installmentNumber} of ${invoice.installmentCount})`
+        : '';
+
+    const rows = invoice.lines
+      .map(
+        (line) => `
+              <tr>
+                <td style="padding: 6px 0;">${line.description}</td>
+                <td style="padding: 6px 0; text-align: right;">$${this.formatAmount(line.amount)}</td>
+              </tr>`,
+      )
+      .join('');
+
+    await this.mailer.queueMail({
+      to: invoice.clientEmail,
+      subject: content.subject,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #2563eb;">${content.heading}</h2>
+          <p>Dear ${invoice.clientName},</p>
+          <p>${content.intro}</p>
+
+          <div style="background: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            <p style="margin: 5px 0;"><strong>Invoice:</strong> ${invoice.invoiceNumber}${installment}</p>
+            <p style="margin: 5px 0;"><strong>Proposal:</strong> ${invoice.proposal.proposalNumber}</p>
+            <p style="margin: 5px 0;"><strong>Due Date:</strong> ${this.formatDate(invoice.dueDate)}</p>
+            <table style="width: 100%; border-collapse: collapse; margin-top: 10px;">${rows}
+              <tr>
+                <td style="padding: 6px 0;">Tax</td>
+                <td style="padding: 6px 0; text-align: right;">$${this.formatAmount(invoice.taxAmount)}</td>
+              </tr>
+              <tr style="border-top: 1px solid #d1d5db;">
+                <td style="padding: 6px 0;"><strong>Total</strong></td>
+                <td style="padding: 6px 0; text-align: right;"><strong>$${this.formatAmount(invoice.totalAmount)}</strong></td>
+              </tr>
+            </table>
+          </div>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${link}"
+               style="background: #2563eb; color: white; padding: 12px 24px;
+                      text-decoration: none; border-radius: 6px; display: inline-block;">
+              View Invoice
+            </a>
+          </div>
+
+          <p>Best regards,<br>Your Architecture Team</p>
+        </div>
+      `,
+      text: `${content.heading}\n\n${content.intro}\n\nInvoice: ${invoice.invoiceNumber}${installment}\nTotal: $${this.formatAmount(invoice.totalAmount)}\nDue: ${this.formatDate(invoice.dueDate)}\n\nView: ${link}`,
+    });
+  }
+}
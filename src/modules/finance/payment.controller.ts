@@ -0,0 +1,96 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+import * as client from '@prisma/client';
+import { JwtAuthGuard } from 'src/common/guards/auth.guard';
+import { RolesGuard } from 'src/common/guards/roles.guard';
+import { Roles } from 'src/common/decorators/roles.decorator';
+import { Public } from 'src/common/decorators/public.decorator';
+import { CurrentUser } from 'src/common/decorators/current-user.decorator';
+import { PaymentService } from './payment.service';
+import {
+  CreateCheckoutDto,
+  QueryPaymentDto,
+  RecordPaymentDto,
+  RefundPaymentDto,
+} from './dto/payment.dto';
+
+@Controller('payments')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class PaymentController {
+  constructor(private readonly paymentService: PaymentService) {}
+
+  // Called by the payment provider; authenticated by its signature instead
+  @Public()
+  @Post('webhook')
+  @HttpCode(HttpStatus.OK)
+  webhook(@Req() req: RawBodyRequest<Request>) {
+    if (!req.rawBody) {
+      throw new BadRequestException('Missing request body');
+    }
+    return this.paymentService.handleWebhook(req.rawBody, req.headers);
+  }
+
+  @Get()
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.FINANCE,
+  )
+  findAll(@Query() query: QueryPaymentDto) {
+    return this.paymentService.findAll(query);
+  }
+
+  @Post()
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.FINANCE,
+  )
+  record(@Body() dto: RecordPaymentDto, @CurrentUser() user: client.User) {
+    return this.paymentService.record(dto, user);
+  }
+
+  @Get('proposals/:proposalId/balance')
+  getBalance(
+    @Param('proposalId') proposalId: string,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.paymentService.getBalance(proposalId, user);
+  }
+
+  @Post('proposals/:proposalId/checkout')
+  createCheckout(
+    @Param('proposalId') proposalId: string,
+    @Body() dto: CreateCheckoutDto,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.paymentService.createCheckout(proposalId, dto, user);
+  }
+
+  @Post(':id/refund')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.FINANCE,
+  )
+  refund(
+    @Param('id') id: string,
+    @Body() dto: RefundPaymentDto,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.paymentService.refund(id, dto, user);
+  }
+}
@@ -0,0 +1,231 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentStatus, Prisma, ProposalStatus } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { MailerService } from 'src/utils/email/email.service';
+import { NotificationsService } from 'src/modules/notifications/notifications.service';
+import { PaymentService } from './payment.service';
+import { InvoiceService } from './invoice.service';
+import { PAYMENT_PROVIDER } from './finance.constants';
+import {
+  FAKE_SIGNATURE_HEADER,
+  FakePaymentProvider,
+} from './providers/fake-payment.provider';
+
+describe('PaymentService (fake provider)', () => {
+  let service: PaymentService;
+  let provider: FakePaymentProvider;
+  let payment: Record<string, unknown>;
+  const seenEvents = new Set<string>();
+
+  const prisma = {
+    $transaction: (fn: (tx: unknown) => Promise<unknown>) => fn(prisma),
+    $queryRaw: jest.fn(() => Promise.resolve([])),
+    paymentWebhookEvent: {
+      create: jest.fn(({ data }: { data: { eventId: string } }) => {
+        if (seenEvents.has(data.eventId)) {
+          return Promise.reject(
+            new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+              code: 'P2002',
+              clientVersion: 'test',
+            }),
+          );
+        }
+        seenEvents.add(data.eventId);
+        return Promise.resolve(data);
+      }),
+    },
+    payment: {
+      create: jest.fn(({ data }: { data: Record<string, unknown> }) =>
+        Promise.resolve({ ...data, id: 'payment-2' }),
+      ),
+      findFirst: jest.fn(() => Promise.resolve(payment)),
+      update: jest.fn(({ data }: { data: Record<string, unknown> }) => {
+        payment = { ...payment, ...data };
+        return Promise.resolve(payment);
+      }),
+      // Sums the one payment when its status is among those asked for
+      aggregate: jest.fn(
+        ({
+          where,
+        }: {
+          where: { status: PaymentStatus | { in: PaymentStatus[] } };
+        }) => {
+          const statuses =
+            typeof where.status === 'string' ? [where.status] : where.status.in;
+          const counted = statuses.includes(payment.status as PaymentStatus);
+
+          return Promise.resolve({
+            _sum: counted
+              ? {
+                  amount: payment.amount,
+                  refundedAmount: payment.refundedAmount,
+                }
+              : { amount: null, refundedAmount: null },
+          });
+        },
+      ),
+    },
+    invoice: { findUnique: jest.fn() },
+    proposal: {
+      findUnique: jest.fn(() =>
+        Promise.resolve({
+          id: 'proposal-1',
+          proposalNumber: 'PROP-2026-0001',
+          projectName: 'Lake House',
+          clientName: 'Dana Client',
+          clientEmail: 'dana@example.com',
+          userId: 'client-1',
+          status: ProposalStatus.ACCEPTED,
+          totalAmount: new Prisma.Decimal(1000),
+        }),
+      ),
+    },
+  };
+
+  const deliver = (event: Record<string, unknown>, signature?: string) => {
+    const body = Buffer.from(JSON.stringify(event));
+    return service.handleWebhook(body, {
+      [FAKE_SIGNATURE_HEADER]: signature ?? provider.sign(body),
+    });
+  };
+
+  beforeEach(async () => {
+    seenEvents.clear();
+    jest.clearAllMocks();
+    payment = {
+      id: 'payment-1',
+      proposalId: 'proposal-1',
+      invoiceId: null,
+      userId: 'client-1',
+      status: PaymentStatus.PENDING,
+      amount: new Prisma.Decimal(400),
+      refundedAmount: new Prisma.Decimal(0),
+      recordedById: null,
+    };
+    provider = new FakePaymentProvider('test-secret', 'http://checkout');
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentService,
+        { provide: PAYMENT_PROVIDER, useValue: provider },
+        { provide: PrismaService, useValue: prisma },
+        { provide: InvoiceService, useValue: { settle: jest.fn() } },
+        { provide: MailerService, useValue: { queueMail: jest.fn() } },
+        {
+          provide: NotificationsService,
+          useValue: { notifyRoles: jest.fn(), notifyUser: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback?: string) => fallback },
+        },
+      ],
+    }).compile();
+
+    service = module.get(PaymentService);
+  });
+
+  it('rejects deliveries with a bad signature', async () => {
+    await expect(
+      deliver(
+        { id: 'evt_1', type: 'succeeded', paymentId: 'payment-1' },
+        'forged',
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.payment.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects a signed but malformed body', async () => {
+    const body = Buffer.from('{"id": "evt_1",');
+
+    await expect(
+      service.handleWebhook(body, {
+        [FAKE_SIGNATURE_HEADER]: provider.sign(body),
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.payment.update).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['no id', { type: 'succeeded', paymentId: 'payment-1' }],
+    ['an unknown type', { id: 'evt_1', type: 'paid', paymentId: 'payment-1' }],
+    ['no payment reference', { id: 'evt_1', type: 'succeeded' }],
+    ['a non-object', ['evt_1']],
+  ])('rejects a signed body with %s', async (_case, event) => {
+    await expect(
+      deliver(event as unknown as Record<string, unknown>),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.payment.update).not.toHaveBeenCalled();
+  });
+
+  it('settles a pending payment once, ignoring redelivery', async () => {
+    const event = {
+      id: 'evt_1',
+      type: 'succeeded',
+      paymentId: 'payment-1',
+      providerPaymentId: 'fake_1',
+      amountCents: 40000,
+    };
+
+    await deliver(event);
+    await deliver(event);
+
+    expect(prisma.payment.update).toHaveBeenCalledTimes(1);
+    expect(payment.status).toBe(PaymentStatus.SUCCEEDED);
+    expect(payment.providerPaymentId).toBe('fake_1');
+  });
+
+  it('records cumulative refunds from the provider', async () => {
+    payment.status = PaymentStatus.SUCCEEDED;
+
+    await deliver({
+      id: 'evt_2',
+      type: 'refunded',
+      paymentId: 'payment-1',
+      refundedCents: 15000,
+    });
+    expect(payment.status).toBe(PaymentStatus.PARTIALLY_REFUNDED);
+    expect(Number(payment.refundedAmount)).toBe(150);
+
+    await deliver({
+      id: 'evt_3',
+      type: 'refunded',
+      paymentId: 'payment-1',
+      refundedCents: 40000,
+    });
+    expect(payment.status).toBe(PaymentStatus.REFUNDED);
+  });
+
+  it('starts a checkout for a link holder that returns to the link', async () => {
+    const { data } = await service.createLinkCheckout(
+      'proposal-1',
+      {},
+      'link-token',
+    );
+
+    const [{ data: created }] = prisma.payment.create.mock.calls[0];
+    expect(created).toMatchObject({ userId: 'client-1' });
+    const [request] = [...provider.checkouts.values()];
+    expect(request.amountCents).toBe(60000);
+    expect(request.successUrl).toBe(
+      'http://localhost:3000/proposals/shared/link-token?payment=success',
+    );
+    expect(data.checkoutUrl).toContain('http://checkout/');
+  });
+
+  it('holds back what an open checkout may still collect', async () => {
+    await expect(
+      service.createLinkCheckout('proposal-1', { amount: 700 }, 'link-token'),
+    ).rejects.toThrow('Amount exceeds the $600.00 not already in checkout');
+
+    payment.amount = new Prisma.Decimal(1000);
+    await expect(
+      service.createLinkCheckout('proposal-1', {}, 'link-token'),
+    ).rejects.toThrow(
+      'A checkout for the outstanding balance is already in progress',
+    );
+    expect(prisma.payment.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,668 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  InvoiceStatus,
+  Payment,
+  PaymentMethod,
+  PaymentStatus,
+  Prisma,
+  Proposal,
+  ProposalStatus,
+  User,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { MailerService } from 'src/utils/email/email.service';
+import { NotificationsService } from 'src/modules/notifications/notifications.service';
+import { NotificationType } from 'src/modules/notifications/notification-type.constant';
+import { InvoiceService } from './invoice.service';
+import { PAYMENT_PROVIDER } from './finance.constants';
+import type {
+  PaymentEvent,
+  PaymentProvider,
+} from './interfaces/payment-provider.interface';
+import {
+  CreateCheckoutDto,
+  QueryPaymentDto,
+  RecordPaymentDto,
+  RefundPaymentDto,
+} from './dto/payment.dto';
+
+const MANUAL_PROVIDER = 'manual';
+
+const PAYMENT_INCLUDE = {
+  proposal: {
+    select: { id: true, proposalNumber: true, projectName: true },
+  },
+  invoice: { select: { id: true, invoiceNumber: true, status: true } },
+} satisfies Prisma.PaymentInclude;
+
+@Injectable()
+export class PaymentService {
+  private readonly logger = new Logger(PaymentService.name);
+
+  // Finance plus the proposal managers, who may check a client's balance
+  private readonly STAFF_ROLES = new Set<UserRole>([
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.FINANCE,
+    UserRole.HIGHER_MANAGER,
+    UserRole.PROJECT_MANAGER,
+  ]);
+
+  // For Prisma queries
+  private readonly FINANCE_ROLES_ARRAY: UserRole[] = [
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.FINANCE,
+  ];
+
+  // Money was received, even if some of it went back
+  private readonly COLLECTED_STATUSES: PaymentStatus[] = [
+    PaymentStatus.SUCCEEDED,
+    PaymentStatus.PARTIALLY_REFUNDED,
+    PaymentStatus.REFUNDED,
+  ];
+
+  private readonly OPEN_INVOICE_STATUSES: InvoiceStatus[] = [
+    InvoiceStatus.ISSUED,
+    InvoiceStatus.OVERDUE,
+  ];
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+    @Inject(PAYMENT_PROVIDER) private provider: PaymentProvider,
+    private invoices: InvoiceService,
+    private mailer: MailerService,
+    private notifications: NotificationsService,
+  ) {}
+
+  /** Starts a provider checkout for the client to pay by card or ACH */
+  async createCheckout(proposalId: string, dto: CreateCheckoutDto, user: User) {
+    const proposal = await this.getPayableProposal(proposalId, user);
+    const frontendUrl = this.config.get<string>(
+      'FRONTEND_URL',
+      'http://localhost:3000',
+    );
+
+    return this.startCheckout(
+      proposal,
+      dto,
+      proposal.userId ?? user.id,
+      `${frontendUrl}/dashboard/proposals/${proposalId}`,
+    );
+  }
+
+  /** Checkout for a client paying from the emailed proposal link */
+  async createLinkCheckout(
+    proposalId: string,
+    dto: CreateCheckoutDto,
+    token: string,
+  ) {
+    const proposal = await this.getPayableProposal(proposalId);
+    const frontendUrl = this.config.get<string>(
+      'FRONTEND_URL',
+      'http://localhost:3000',
+    );
+
+    return this.startCheckout(
+      proposal,
+      dto,
+      proposal.userId,
+      `${frontendUrl}/proposals/shared/${token}`,
+    );
+  }
+
+  private async startCheckout(
+    proposal: Proposal,
+    dto: CreateCheckoutDto,
+    userId: string | null,
+    returnUrl: string,
+  ) {
+    const method = dto.method ?? PaymentMethod.CARD;
+
+    // Locking the proposal makes concurrent checkouts take turns, so each one
+    // sees the amounts the others have already put into checkout
+    const payment = await this.prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT "id" FROM "proposals" WHERE "id" = ${proposal.id} FOR UPDATE`;
+
+      return tx.payment.create({
+        data: {
+          proposalId: proposal.id,
+          invoiceId: dto.invoiceId,
+          userId,
+          method,
+          amount: await this.checkoutAmount(proposal, dto, tx),
+          currency: this.config.get('PAYMENT_CURRENCY', 'usd'),
+          provider: this.provider.name,
+        },
+      });
+    });
+
+    try {
+      const session = await this.provider.createCheckout({
+        paymentId: payment.id,
+        amountCents: payment.amount.mul(100).toNumber(),
+        currency: payment.currency,
+        description: `${proposal.proposalNumber}: ${proposal.projectName}`,
+        customerEmail: proposal.clientEmail,
+        method,
+        successUrl: `${returnUrl}?payment=success`,
+        cancelUrl: `${returnUrl}?payment=cancelled`,
+      });
+
+      const started = await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          providerPaymentId: session.providerPaymentId,
+          checkoutUrl: session.url,
+        },
+      });
+
+      return {
+        success: true,
+        message: 'Checkout started',
+        data: {
+          paymentId: started.id,
+          amount: started.amount,
+          checkoutUrl: session.url,
+        },
+      };
+    } catch (error) {
+      await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: PaymentStatus.FAILED,
+          failureReason: (error as Error).message,
+        },
+      });
+      throw error;
+    }
+  }
+
+  /** What a new checkout may collect: the balance less checkouts still open */
+  private async checkoutAmount(
+    proposal: Proposal,
+    dto: CreateCheckoutDto,
+    tx: Prisma.TransactionClient,
+  ) {
+    const { outstanding } = await this.balanceOf(proposal, tx);
+    const open = await this.pending({ proposalId: proposal.id }, tx);
+
+    let due = Prisma.Decimal.max(outstanding.minus(open), 0);
+    if (dto.invoiceId) {
+      const invoice = await this.getOpenInvoice(dto.invoiceId, proposal.id);
+      const { net } = await this.collected({ invoiceId: invoice.id }, tx);
+      const invoiceOpen = await this.pending({ invoiceId: invoice.id }, tx);
+      due = Prisma.Decimal.min(
+        invoice.totalAmount.minus(net).minus(invoiceOpen),
+        due,
+      );
+    }
+
+    if (due.lte(0)) {
+      throw new BadRequestException(
+        open.gt(0)
+          ? 'A checkout for the outstanding balance is already in progress'
+          : 'Nothing is outstanding',
+      );
+    }
+
+    const amount = dto.amount ? new Prisma.Decimal(dto.amount) : due;
+    if (amount.gt(due)) {
+      throw new BadRequestException(
+        open.gt(0)
+          ? `Amount exceeds the $${due.toFixed(2)} not already in checkout`
+          : `Amount exceeds the $${due.toFixed(2)} outstanding`,
+      );
+    }
+
+    return amount;
+  }
+
+  /** Cheques, wires and other payments received outside the provider */
+  async record(dto: RecordPaymentDto, user: User) {
+    const proposal = await this.getPayableProposal(dto.proposalId, user);
+    if (dto.invoiceId) {
+      await this.getOpenInvoice(dto.invoiceId, proposal.id);
+    }
+
+    const { outstanding } = await this.balanceOf(proposal);
+    if (new Prisma.Decimal(dto.amount).gt(outstanding)) {
+      throw new BadRequestException(
+        `Amount exceeds the $${outstanding.toFixed(2)} outstanding`,
+      );
+    }
+
+    const payment = await this.prisma.payment.create({
+      data: {
+        proposalId: proposal.id,
+        invoiceId: dto.invoiceId,
+        userId: proposal.userId,
+        status: PaymentStatus.SUCCEEDED,
+        method: dto.method,
+        amount: dto.amount,
+        currency: this.config.get('PAYMENT_CURRENCY', 'usd'),
+        provider: MANUAL_PROVIDER,
+        reference: dto.reference?.trim(),
+        note: dto.note?.trim(),
+        paidAt: dto.paidAt ? new Date(dto.paidAt) : new Date(),
+        recordedById: user.id,
+      },
+      include: PAYMENT_INCLUDE,
+    });
+
+    this.logger.log(
+      `Payment of $${payment.amount.toFixed(2)} recorded on ${proposal.proposalNumber} by ${user.email}`,
+    );
+    await this.afterCollected(payment);
+
+    return {
+      success: true,
+      message: `Payment of $${payment.amount.toFixed(2)} recorded`,
+      data: payment,
+    };
+  }
+
+  async refund(id: string, dto: RefundPaymentDto, user: User) {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id },
+      include: { proposal: true },
+    });
+
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    const refundable = payment.amount.minus(payment.refundedAmount);
+    if (
+      !this.COLLECTED_STATUSES.includes(payment.status) ||
+      refundable.lte(0)
+    ) {
+      throw new BadRequestException('Payment has nothing left to refund');
+    }
+
+    const amount = dto.amount ? new Prisma.Decimal(dto.amount) : refundable;
+    if (amount.gt(refundable)) {
+      throw new BadRequestException(
+        `At most $${refundable.toFixed(2)} can be refunded`,
+      );
+    }
+
+    if (payment.provider !== MANUAL_PROVIDER) {
+      if (
+        payment.provider !== this.provider.name ||
+        !payment.providerPaymentId
+      ) {
+        throw new BadRequestException(
+          `Payment was taken through ${payment.provider}; refund it there`,
+        );
+      }
+      await this.provider.refund(
+        payment.providerPaymentId,
+        amount.mul(100).toNumber(),
+      );
+    }
+
+    // The provider's refund webhook later confirms the same cumulative total
+    const refundedAmount = payment.refundedAmount.plus(amount);
+    const refunded = await this.prisma.payment.update({
+      where: { id },
+      data: {
+        refundedAmount,
+        refundedAt: new Date(),
+        status: refundedAmount.gte(payment.amount)
+          ? PaymentStatus.REFUNDED
+          : PaymentStatus.PARTIALLY_REFUNDED,
+      },
+      include: PAYMENT_INCLUDE,
+    });
+
+    await this.mailer.queueMail({
+      to: payment.proposal.clientEmail,
+      subject: `Refund Issued: ${payment.proposal.proposalNumber}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #2563eb;">Refund Issued</h2>
+          <p>Dear ${payment.proposal.clientName},</p>
+          <p>We have refunded <strong>$${amount.toFixed(2)}</strong> of your payment for ${payment.proposal.projectName}.</p>
+          ${dto.reason ? `<p><strong>Reason:</strong> ${dto.reason}</p>` : ''}
+          <p>Card refunds usually appear within 5-10 business days.</p>
+          <p>Best regards,<br>Your Architecture Team</p>
+        </div>
+      `,
+      text: `We have refunded $${amount.toFixed(2)} of your payment for ${payment.proposal.projectName}.${dto.reason ? `\nReason: ${dto.reason}` : ''}`,
+    });
+    await this.notifications.notifyUser(payment.userId, {
+      type: NotificationType.PAYMENT_REFUNDED,
+      title: 'Refund issued',
+      message: `$${amount.toFixed(2)} was refunded for proposal ${payment.proposal.proposalNumber}.`,
+      link: `/dashboard/proposals/${payment.proposalId}`,
+    });
+
+    this.logger.log(
+      `Refunded $${amount.toFixed(2)} of payment ${id} by ${user.email}`,
+    );
+
+    return {
+      success: true,
+      message: `$${amount.toFixed(2)} refunded`,
+      data: refunded,
+    };
+  }
+
+  async findAll(query: QueryPaymentDto) {
+    const { proposalId, status, page = 1, limit = 20 } = query;
+
+    const where: Prisma.PaymentWhereInput = {
+      ...(proposalId && { proposalId }),
+      ...(status && { status }),
+    };
+
+    const [payments, total] = await Promise.all([
+      this.prisma.payment.findMany({
+        where,
+        include: PAYMENT_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.payment.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      success: true,
+      message: 'Payments retrieved successfully',
+      data: payments,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrevious: page > 1,
+      },
+    };
+  }
+
+  async getBalance(proposalId: string, user: User) {
+    const proposal = await this.getPayableProposal(proposalId, user);
+
+    const [balance, payments] = await Promise.all([
+      this.balanceOf(proposal),
+      this.prisma.payment.findMany({
+        where: { proposalId },
+        include: PAYMENT_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return {
+      success: true,
+      message: 'Proposal balance retrieved successfully',
+      data: { ...balance, payments },
+    };
+  }
+
+  /**
+   * Reconciles a provider webhook. Each event is applied once: its id is
+   * stored in the same transaction, so redeliveries hit the unique index.
+   */
+  async handleWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ) {
+    const event = this.provider.parseWebhook(rawBody, headers);
+    if (!event) {
+      return { received: true };
+    }
+
+    let payment: Payment | null;
+    try {
+      payment = await this.prisma.$transaction(async (tx) => {
+        await tx.paymentWebhookEvent.create({
+          data: {
+            provider: this.provider.name,
+            eventId: event.id,
+            type: event.type,
+          },
+        });
+        return this.applyEvent(tx, event);
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        this.logger.log(
+          `Ignoring redelivered ${this.provider.name} event ${event.id}`,
+        );
+        return { received: true };
+      }
+      throw error;
+    }
+
+    if (payment && event.type === 'succeeded') {
+      await this.afterCollected(payment);
+    }
+
+    return { received: true };
+  }
+
+  private async applyEvent(
+    tx: Prisma.TransactionClient,
+    event: PaymentEvent,
+  ): Promise<Payment | null> {
+    const payment = await tx.payment.findFirst({
+      where: event.paymentId
+        ? { id: event.paymentId }
+        : { providerPaymentId: event.providerPaymentId },
+    });
+
+    if (!payment) {
+      this.logger.warn(
+        `No payment matches ${this.provider.name} event ${event.id} (${event.providerPaymentId})`,
+      );
+      return null;
+    }
+
+    switch (event.type) {
+      case 'succeeded':
+        if (this.COLLECTED_STATUSES.includes(payment.status)) return null;
+        return tx.payment.update({
+          where: { id: payment.id },
+          data: {
+            status: PaymentStatus.SUCCEEDED,
+            paidAt: new Date(),
+            failureReason: null,
+            providerPaymentId: event.providerPaymentId ?? undefined,
+            amount:
+              event.amountCents !== undefined
+                ? new Prisma.Decimal(event.amountCents).div(100)
+                : undefined,
+          },
+        });
+
+      case 'failed':
+        if (payment.status !== PaymentStatus.PENDING) return null;
+        return tx.payment.update({
+          where: { id: payment.id },
+          data: {
+            status: PaymentStatus.FAILED,
+            failureReason: event.failureReason ?? 'Payment failed',
+          },
+        });
+
+      case 'refunded': {
+        const refundedAmount = new Prisma.Decimal(event.refundedCents ?? 0).div(
+          100,
+        );
+        return tx.payment.update({
+          where: { id: payment.id },
+          data: {
+            refundedAmount,
+            refundedAt: new Date(),
+            status: refundedAmount.gte(payment.amount)
+              ? PaymentStatus.REFUNDED
+              : PaymentStatus.PARTIALLY_REFUNDED,
+          },
+        });
+      }
+    }
+  }
+
+  /** Settles the invoice once covered, otherwise sends a payment receipt */
+  private async afterCollected(payment: Payment) {
+    let settled = false;
+
+    if (payment.invoiceId) {
+      const invoice = await this.prisma.invoice.findUnique({
+        where: { id: payment.invoiceId },
+      });
+      const { net } = await this.collected({ invoiceId: payment.invoiceId });
+
+      if (
+        invoice &&
+        this.OPEN_INVOICE_STATUSES.includes(invoice.status) &&
+        net.gte(invoice.totalAmount)
+      ) {
+        await this.invoices.settle(invoice.id);
+        settled = true;
+      }
+    }
+
+    const proposal = await this.prisma.proposal.findUnique({
+      where: { id: payment.proposalId },
+    });
+    if (!proposal) return;
+
+    if (!settled) {
+      const { outstanding } = await this.balanceOf(proposal);
+      await this.mailer.queueMail({
+        to: proposal.clientEmail,
+        subject: `Payment Received: ${proposal.proposalNumber}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #10b981;">Payment Received</h2>
+            <p>Dear ${proposal.clientName},</p>
+            <p>Thank you! We have received your payment of <strong>$${payment.amount.toFixed(2)}</strong> for ${proposal.projectName}.</p>
+            <p><strong>Remaining balance:</strong> $${outstanding.toFixed(2)}</p>
+            <p>Best regards,<br>Your Architecture Team</p>
+          </div>
+        `,
+        text: `We have received your payment of $${payment.amount.toFixed(2)} for ${proposal.projectName}. Remaining balance: $${outstanding.toFixed(2)}`,
+      });
+    }
+
+    await this.notifications.notifyRoles(
+      this.FINANCE_ROLES_ARRAY,
+      {
+        type: NotificationType.PAYMENT_RECEIVED,
+        title: 'Payment received',
+        message: `$${payment.amount.toFixed(2)} received from ${proposal.clientName} for proposal ${proposal.proposalNumber}.`,
+        link: `/admin/payments?proposalId=${proposal.id}`,
+      },
+      payment.recordedById ?? undefined,
+    );
+  }
+
+  private async balanceOf(
+    proposal: Pick<Proposal, 'id' | 'totalAmount'>,
+    db: Prisma.TransactionClient = this.prisma,
+  ) {
+    const { paid, refunded, net } = await this.collected(
+      { proposalId: proposal.id },
+      db,
+    );
+    const outstanding = Prisma.Decimal.max(proposal.totalAmount.minus(net), 0);
+
+    return {
+      totalAmount: proposal.totalAmount,
+      paid,
+      refunded,
+      outstanding,
+      status: net.lte(0)
+        ? 'UNPAID'
+        : outstanding.gt(0)
+          ? 'PARTIALLY_PAID'
+          : 'PAID',
+    };
+  }
+
+  private async collected(
+    where: Prisma.PaymentWhereInput,
+    db: Prisma.TransactionClient = this.prisma,
+  ) {
+    const { _sum } = await db.payment.aggregate({
+      where: { ...where, status: { in: this.COLLECTED_STATUSES } },
+      _sum: { amount: true, refundedAmount: true },
+    });
+    const paid = _sum.amount ?? new Prisma.Decimal(0);
+    const refunded = _sum.refundedAmount ?? new Prisma.Decimal(0);
+
+    return { paid, refunded, net: paid.minus(refunded) };
+  }
+
+  // Checkouts the provider has not settled or failed yet, including ACH
+  // debits still clearing
+  private async pending(
+    where: Prisma.PaymentWhereInput,
+    db: Prisma.TransactionClient = this.prisma,
+  ) {
+    const { _sum } = await db.payment.aggregate({
+      where: { ...where, status: PaymentStatus.PENDING },
+      _sum: { amount: true },
+    });
+
+    return _sum.amount ?? new Prisma.Decimal(0);
+  }
+
+  // Without a user the caller has already authorized access, e.g. by link
+  private async getPayableProposal(proposalId: string, user?: User) {
+    const proposal = await this.prisma.proposal.findUnique({
+      where: { id: proposalId },
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    const isOwner =
+      !user ||
+      proposal.userId === user.id ||
+      proposal.clientEmail === user.email;
+    if (user && !this.STAFF_ROLES.has(user.role) && !isOwner) {
+      throw new ForbiddenException('Not authorized to pay this proposal');
+    }
+
+    if (proposal.status !== ProposalStatus.ACCEPTED) {
+      throw new BadRequestException('Only accepted proposals take payments');
+    }
+
+    return proposal;
+  }
+
+  private async getOpenInvoice(invoiceId: string, proposalId: string) {
+    const invoice = await this.prisma.invoice.findFirst({
+      where: { id: invoiceId, proposalId },
+    });
+
+    if (!invoice || !this.OPEN_INVOICE_STATUSES.includes(invoice.status)) {
+      throw new BadRequestException(
+        'Invoice is not open for payment on this proposal',
+      );
+    }
+
+    return invoice;
+  }
+}
@@ -0,0 +1,92 @@
+// src/modules/finance/providers/fake-payment.provider.ts
+import { BadRequestException } from '@nestjs/common';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentEvent,
+  PaymentEventType,
+  PaymentProvider,
+} from '../interfaces/payment-provider.interface';
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-signature';
+
+const EVENT_TYPES: PaymentEventType[] = ['succeeded', 'failed', 'refunded'];
+
+/**
+ * Local provider for development and tests. Nothing is charged; a payment only
+ * settles when a webhook body signed with the shared secret is posted, e.g.
+ * `{ "id": "evt_1", "type": "succeeded", "paymentId": "..." }`.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  readonly checkouts = new Map<string, CheckoutRequest>();
+  readonly refunds: { providerPaymentId: string; amountCents: number }[] = [];
+
+  constructor(
+    private readonly secret: string,
+    private readonly checkoutBaseUrl: string,
+  ) {}
+
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const providerPaymentId = `fake_${randomUUID()}`;
+    this.checkouts.set(providerPaymentId, request);
+
+    return Promise.resolve({
+      providerPaymentId,
+      url: `${this.checkoutBaseUrl}/${providerPaymentId}`,
+    });
+  }
+
+  refund(providerPaymentId: string, amountCents: number): Promise<void> {
+    this.refunds.push({ providerPaymentId, amountCents });
+    return Promise.resolve();
+  }
+
+  sign(rawBody: Buffer | string): string {
+    return createHmac('sha256', this.secret).update(rawBody).digest('hex');
+  }
+
+  parseWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): PaymentEvent | null {
+    const signature = headers[FAKE_SIGNATURE_HEADER];
+    const expected = Buffer.from(this.sign(rawBody));
+
+    if (
+      typeof signature !== 'string' ||
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), expected)
+    ) {
+      throw new BadRequestException('Invalid webhook signature');
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new BadRequestException('Malformed webhook body');
+    }
+
+    if (!this.isEvent(body)) {
+      throw new BadRequestException(
+        'Webhook body needs a string id, a known type and a payment id',
+      );
+    }
+    return body;
+  }
+
+  private isEvent(body: unknown): body is PaymentEvent {
+    if (typeof body !== 'object' || body === null) return false;
+    const event = body as Record<string, unknown>;
+
+    return (
+      typeof event.id === 'string' &&
+      typeof event.type === 'string' &&
+      EVENT_TYPES.includes(event.type as PaymentEventType) &&
+      (typeof event.paymentId === 'string' ||
+        typeof event.providerPaymentId === 'string')
+    );
+  }
+}
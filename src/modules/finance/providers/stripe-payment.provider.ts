@@ -0,0 +1,163 @@
+// src/modules/finance/providers/stripe-payment.provider.ts
+import {
+  BadRequestException,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import Stripe from 'stripe';
+import {
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentEvent,
+  PaymentProvider,
+} from '../interfaces/payment-provider.interface';
+
+// Stripe's shortest allowed checkout session lifetime
+const CHECKOUT_TTL_SECONDS = 30 * 60;
+
+export interface StripePaymentOptions {
+  secretKey?: string;
+  webhookSecret?: string;
+}
+
+/**
+ * Card and ACH (us_bank_account) payments through Stripe Checkout. ACH
+ * settles days after checkout, so its outcome arrives as an async event.
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe';
+  private readonly logger = new Logger(StripePaymentProvider.name);
+  private client?: Stripe;
+
+  constructor(private readonly options: StripePaymentOptions) {}
+
+  // Created on first use so the app still boots without Stripe keys
+  private get stripe(): Stripe {
+    if (!this.options.secretKey) {
+      throw new ServiceUnavailableException(
+        'Online payments are not configured',
+      );
+    }
+    this.client ??= new Stripe(this.options.secretKey);
+    return this.client;
+  }
+
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const metadata = { paymentId: request.paymentId };
+
+    const session = await this.stripe.checkout.sessions.create({
+      mode: 'payment',
+      payment_method_types: [
+        request.method === 'ACH' ? 'us_bank_account' : 'card',
+      ],
+      customer_email: request.customerEmail,
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency: request.currency,
+            unit_amount: request.amountCents,
+            product_data: { name: request.description },
+          },
+        },
+      ],
+      metadata,
+      payment_intent_data: { metadata },
+      success_url: request.successUrl,
+      cancel_url: request.cancelUrl,
+      // Abandoned checkouts hold back the balance until Stripe expires them
+      expires_at: Math.floor(Date.now() / 1000) + CHECKOUT_TTL_SECONDS,
+    });
+
+    if (!session.url) {
+      throw new ServiceUnavailableException(
+        'Stripe did not return a checkout URL',
+      );
+    }
+
+    return { providerPaymentId: session.id, url: session.url };
+  }
+
+  async refund(providerPaymentId: string, amountCents: number) {
+    await this.stripe.refunds.create({
+      payment_intent: providerPaymentId,
+      amount: amountCents,
+    });
+  }
+
+  parseWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): PaymentEvent | null {
+    const signature = headers['stripe-signature'];
+    if (!this.options.webhookSecret || typeof signature !== 'string') {
+      throw new BadRequestException('Missing webhook signature');
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = this.stripe.webhooks.constructEvent(
+        rawBody,
+        signature,
+        this.options.webhookSecret,
+      );
+    } catch (error) {
+      this.logger.warn(`Rejected Stripe webhook: ${(error as Error).message}`);
+      throw new BadRequestException('Invalid webhook signature');
+    }
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+      case 'checkout.session.async_payment_succeeded': {
+        const session = event.data.object;
+        // ACH completes checkout while the debit is still processing
+        if (session.payment_status !== 'paid') return null;
+        return {
+          id: event.id,
+          type: 'succeeded',
+          paymentId: session.metadata?.paymentId,
+          providerPaymentId: this.intentId(session) ?? session.id,
+          amountCents: session.amount_total ?? undefined,
+        };
+      }
+
+      case 'checkout.session.async_payment_failed':
+      case 'checkout.session.expired': {
+        const session = event.data.object;
+        return {
+          id: event.id,
+          type: 'failed',
+          paymentId: session.metadata?.paymentId,
+          providerPaymentId: session.id,
+          failureReason:
+            event.type === 'checkout.session.expired'
+              ? 'Checkout expired before payment'
+              : 'Bank debit failed',
+        };
+      }
+
+      case 'charge.refunded': {
+        const charge = event.data.object;
+        if (!charge.payment_intent) return null;
+        return {
+          id: event.id,
+          type: 'refunded',
+          paymentId: charge.metadata?.paymentId,
+          providerPaymentId:
+            typeof charge.payment_intent === 'string'
+              ? charge.payment_intent
+              : charge.payment_intent.id,
+          refundedCents: charge.amount_refunded,
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  private intentId(session: Stripe.Checkout.Session) {
+    const intent = session.payment_intent;
+    return typeof intent === 'string' ? intent : intent?.id;
+  }
+}
@@ -0,0 +1,544 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AssetType, MediaAsset, Prisma } from '@prisma/client';
+import { extname } from 'path';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { STORAGE_PROVIDER } from 'src/upload/upload.constants';
+import type {
+  StorageProvider,
+  StoredFileRef,
+} from 'src/upload/interfaces/storage-provider.interface';
+import {
+  FileOptimizerService,
+  ImageVariantFormat,
+  ImageVariantSize,
+} from 'src/utils/optimizer/file-optimizer.service';
+import { ModelOptimizerService } from 'src/utils/optimizer/model-optimizer.service';
+import { DocumentOptimizerService } from 'src/utils/optimizer/document-optimizer.service';
+import { QueueService } from 'src/modules/queue/queue.service';
+import { QueueName } from 'src/modules/queue/queue.constants';
+import { QueueJob } from 'src/modules/queue/interfaces/queue-driver.interface';
+import { PermanentJobError } from 'src/modules/queue/queue.errors';
+
+export const MEDIA_JOB_PROCESS_ASSET = 'process-asset';
+
+const MODEL_EXTENSIONS = ['.glb', '.gltf', '.usdz'];
+
+export const AssetProcessStatus = {
+  PENDING: 'pending',
+  PROCESSING: 'processing',
+  DONE: 'done',
+  FAILED: 'failed',
+} as const;
+
+/** Which table the asset row lives in */
+export const AssetTarget = {
+  MEDIA: 'media', // MediaAsset
+  PROJECT: 'project', // ProjectAsset
+} as const;
+
+export type AssetTarget = (typeof AssetTarget)[keyof typeof AssetTarget];
+
+export interface ProcessAssetJob {
+  target: AssetTarget;
+  assetId: string;
+  staged: StoredFileRef; // original upload, kept in storage until processed
+  originalName: string;
+  mimeType: string;
+  folder: string;
+}
+
+// Columns shared by MediaAsset and ProjectAsset that processing fills in
+type ProcessedAssetData = Partial<
+  Pick<
+    MediaAsset,
+    | 'originalUrl'
+    | 'cdnUrl'
+    | 'fileSize'
+    | 'mimeType'
+    | 'width'
+    | 'height'
+    | 'format'
+    | 'duration'
+    | 'resolution'
+    | 'posterUrl'
+    | 'modelUrl'
+    | 'usdzUrl'
+    | 'thumbnailUrl'
+    | 'polygonCount'
+    | 'hasAnimations'
+    | 'blurHash'
+    | 'isProcessed'
+    | 'processStatus'
+  >
+> & {
+  sizes?: Prisma.InputJsonValue;
+  pageCount?: number; // ProjectAsset only
+};
+
+/** Shape of the `sizes` column: one entry per variant size, one URL per format */
+export type ImageSizes = Partial<
+  Record<
+    ImageVariantSize,
+    { width: number; height: number } & Partial<
+      Record<ImageVariantFormat, string>
+    >
+  >
+>;
+
+/**
+ * Moves uploaded media off the request path. Originals are staged in storage,
+ * so any app instance can pick the job up, and a job optimizes and uploads
+ * them, filling in the asset row afterwards.
+ */
+@Injectable()
+export class MediaProcessingService implements OnModuleInit {
+  private readonly logger = new Logger(MediaProcessingService.name);
+  private readonly stagingFolder: string;
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(STORAGE_PROVIDER) private storage: StorageProvider,
+    private optimizer: FileOptimizerService,
+    private modelOptimizer: ModelOptimizerService,
+    private documentOptimizer: DocumentOptimizerService,
+    private queue: QueueService,
+    private config: ConfigService,
+  ) {
+    this.stagingFolder = this.config.get('MEDIA_STAGING_FOLDER', 'staging');
+  }
+
+  onModuleInit() {
+    this.queue.process(
+      QueueName.MEDIA_PROCESSING,
+      {
+        [MEDIA_JOB_PROCESS_ASSET]: (job: QueueJob<ProcessAssetJob>) =>
+          this.processAsset(job),
+      },
+      parseInt(this.config.get('MEDIA_QUEUE_CONCURRENCY', '2')),
+    );
+  }
+
+  /** 3D formats are usually sent as octet-stream, so the extension wins */
+  determineAssetType(mimeType: string, fileName = ''): AssetType {
+    if (MODEL_EXTENSIONS.includes(extname(fileName).toLowerCase())) {
+      return AssetType.MODEL_3D;
+    }
+    if (mimeType.startsWith('model/')) return AssetType.MODEL_3D;
+    if (mimeType.startsWith('image/')) return AssetType.IMAGE_2D;
+    if (mimeType.startsWith('video/')) return AssetType.VIDEO;
+    if (mimeType.includes('pdf')) return AssetType.DOCUMENT_1D;
+    return AssetType.IMAGE_2D; // fallback
+  }
+
+  /**
+   * Stages the file and queues it. Returns false (and marks the asset failed)
+   * when the job could not be queued.
+   */
+  async schedule(
+    assetId: string,
+    file: Express.Multer.File,
+    folder: string,
+    target: AssetTarget = AssetTarget.MEDIA,
+  ): Promise<boolean> {
+    let staged: StoredFileRef | undefined;
+
+    try {
+      const { key, url } = await this.storage.upload(file, this.stagingFolder);
+      staged = { key, url };
+
+      await this.queue.enqueue<ProcessAssetJob>(
+        QueueName.MEDIA_PROCESSING,
+        MEDIA_JOB_PROCESS_ASSET,
+        {
+          target,
+          assetId,
+          staged,
+          originalName: file.originalname,
+          mimeType: file.mimetype,
+          folder,
+        },
+        { jobId: `asset-${assetId}` },
+      );
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue processing for asset ${assetId}`,
+        error,
+      );
+      if (staged) await this.discardStaged(staged);
+      await this.updateAsset(target, assetId, {
+        processStatus: AssetProcessStatus.FAILED,
+      });
+      return false;
+    }
+  }
+
+  private async processAsset(job: QueueJob<ProcessAssetJob>) {
+    const { target, assetId, staged, originalName } = job.data;
+
+    const asset = await this.findAsset(target, assetId);
+
+    // The asset (or its parent) was deleted while queued
+    if (!asset) {
+      await this.discardStaged(staged);
+      return;
+    }
+
+    await this.updateAsset(target, assetId, {
+      processStatus: AssetProcessStatus.PROCESSING,
+    });
+
+    try {
+      const buffer = await this.storage.download(staged);
+      const processed = await this.processByType(asset.type, buffer, job.data);
+
+      await this.updateAsset(target, assetId, {
+        ...processed,
+        isProcessed: true,
+        processStatus: AssetProcessStatus.DONE,
+      });
+
+      await this.discardStaged(staged);
+
+      // Auto set cover image if none exists yet
+      if (asset.type === AssetType.IMAGE_2D && asset.mediaContentId) {
+        await this.prisma.mediaContent.updateMany({
+          where: { id: asset.mediaContentId, coverImage: null },
+          data: { coverImage: processed.cdnUrl },
+        });
+      }
+
+      this.logger.log(`Asset ${assetId} processed (${originalName})`);
+    } catch (error) {
+      // The optimizers reject unusable input with a 400; retrying the same
+      // file cannot fix that.
+      const permanent = error instanceof BadRequestException;
+
+      // The staged file is kept after the last attempt so that a retry from
+      // the admin failed-jobs route can still pick it up.
+      await this.updateAsset(target, assetId, {
+        processStatus:
+          permanent || job.attempt >= job.maxAttempts
+            ? AssetProcessStatus.FAILED
+            : AssetProcessStatus.PENDING,
+      });
+      throw permanent
+        ? new PermanentJobError(error.message, { cause: error })
+        : error;
+    }
+  }
+
+  private processByType(type: AssetType, buffer: Buffer, job: ProcessAssetJob) {
+    switch (type) {
+      case AssetType.VIDEO:
+        return this.processVideo(buffer, job);
+      case AssetType.MODEL_3D:
+        return this.processModel(buffer, job);
+      case AssetType.DOCUMENT_1D:
+      case AssetType.DRAWING_2D:
+        return job.mimeType === 'application/pdf'
+          ? this.processDocument(buffer, job)
+          : this.processFile(buffer, job);
+      default:
+        return this.processFile(buffer, job);
+    }
+  }
+
+  private async processFile(
+    buffer: Buffer,
+    { originalName, mimeType, folder }: ProcessAssetJob,
+  ): Promise<ProcessedAssetData> {
+    if (this.hasVariants(mimeType)) {
+      return this.processImage(buffer, originalName, mimeType, folder);
+    }
+
+    const result = await this.storage.upload(
+      this.toUpload(buffer, originalName, mimeType),
+      folder,
+    );
+
+    return {
+      originalUrl: result.url,
+      cdnUrl: result.url,
+      fileSize: result.size,
+      width: result.width,
+      height: result.height,
+      format: result.format,
+    };
+  }
+
+  /** Stores an optimized copy of the original plus its srcset variants */
+  private async processImage(
+    buffer: Buffer,
+    originalName: string,
+    mimeType: string,
+    folder: string,
+  ): Promise<ProcessedAssetData> {
+    const optimized = await this.optimizer.optimizeImage(buffer, mimeType);
+    const { width, height } = await this.optimizer.getImageSize(
+      optimized.buffer,
+    );
+    const baseName = originalName.replace(/\.[^.]+$/, '');
+    const extension = optimized.format === 'jpeg' ? 'jpg' : optimized.format;
+
+    const result = await this.storage.upload(
+      this.toUpload(
+        optimized.buffer,
+        `${baseName}.${extension}`,
+        optimized.mimeType,
+      ),
+      folder,
+    );
+
+    return {
+      originalUrl: result.url,
+      cdnUrl: result.url,
+      fileSize: result.size,
+      mimeType: optimized.mimeType,
+      width,
+      height,
+      format: result.format,
+      ...(await this.processImageVariants(buffer, originalName, folder)),
+    };
+  }
+
+  /** Uploads srcset variants and returns the `sizes` map and blurHash */
+  private async processImageVariants(
+    buffer: Buffer,
+    originalName: string,
+    folder: string,
+  ): Promise<ProcessedAssetData> {
+    const { variants, blurHash } =
+      await this.optimizer.generateImageVariants(buffer);
+    const baseName = originalName.replace(/\.[^.]+$/, '');
+
+    const uploads = await Promise.all(
+      variants.map((variant) =>
+        this.storage.upload(
+          this.toUpload(
+            variant.buffer,
+            `${baseName}-${variant.size}.${variant.format}`,
+            variant.mimeType,
+          ),
+          folder,
+        ),
+      ),
+    );
+
+    const sizes: ImageSizes = {};
+    variants.forEach((variant, i) => {
+      const entry = (sizes[variant.size] ??= {
+        width: variant.width,
+        height: variant.height,
+      });
+      entry[variant.format] = uploads[i].url;
+    });
+
+    return { sizes, blurHash };
+  }
+
+  // SVGs are already resolution independent
+  private hasVariants(mimeType: string) {
+    return mimeType.startsWith('image/') && mimeType !== 'image/svg+xml';
+  }
+
+  /** Transcodes to MP4 and uploads the video together with its poster frame */
+  private async processVideo(
+    buffer: Buffer,
+    { originalName, mimeType, folder }: ProcessAssetJob,
+  ): Promise<ProcessedAssetData> {
+    const video = await this.optimizer.optimizeVideo(buffer, mimeType);
+    const baseName = originalName.replace(/\.[^.]+$/, '');
+
+    const [result, poster] = await Promise.all([
+      this.storage.upload(
+        this.toUpload(video.buffer, `${baseName}.mp4`, video.mimeType),
+        folder,
+      ),
+      this.storage.upload(
+        this.toUpload(video.poster, `${baseName}-poster.jpg`, 'image/jpeg'),
+        folder,
+      ),
+    ]);
+
+    return {
+      originalUrl: result.url,
+      cdnUrl: result.url,
+      fileSize: result.size,
+      mimeType: video.mimeType,
+      format: video.format,
+      width: video.width,
+      height: video.height,
+      duration: Math.round(video.duration),
+      resolution: `${video.width}x${video.height}`,
+      posterUrl: poster.url,
+    };
+  }
+
+  /**
+   * GLB/GLTF is optimized into a single GLB with a rendered thumbnail. USDZ
+   * (AR Quick Look) cannot be processed here and is stored as uploaded.
+   */
+  private async processModel(
+    buffer: Buffer,
+    { originalName, mimeType, folder }: ProcessAssetJob,
+  ): Promise<ProcessedAssetData> {
+    if (extname(originalName).toLowerCase() === '.usdz') {
+      const result = await this.storage.upload(
+        this.toUpload(buffer, originalName, mimeType),
+        folder,
+      );
+      return {
+        originalUrl: result.url,
+        cdnUrl: result.url,
+        usdzUrl: result.url,
+        fileSize: result.size,
+        format: 'usdz',
+      };
+    }
+
+    const model = await this.modelOptimizer.optimizeModel(buffer, originalName);
+    const baseName = originalName.replace(/\.[^.]+$/, '');
+
+    const [result, thumbnail] = await Promise.all([
+      this.storage.upload(
+        this.toUpload(model.buffer, `${baseName}.glb`, 'model/gltf-binary'),
+        folder,
+      ),
+      model.thumbnail
+        ? this.storage.upload(
+            this.toUpload(
+              model.thumbnail,
+              `${baseName}-thumb.jpg`,
+              'image/jpeg',
+            ),
+            folder,
+          )
+        : null,
+    ]);
+
+    return {
+      originalUrl: result.url,
+      cdnUrl: result.url,
+      modelUrl: result.url,
+      fileSize: result.size,
+      mimeType: 'model/gltf-binary',
+      format: 'glb',
+      polygonCount: model.polygonCount,
+      hasAnimations: model.hasAnimations,
+      thumbnailUrl: thumbnail ? thumbnail.url : null,
+    };
+  }
+
+  /**
+   * Stores the PDF as uploaded with a first-page thumbnail. Project assets
+   * also get their page count and text indexed for document search.
+   */
+  private async processDocument(
+    buffer: Buffer,
+    { target, assetId, originalName, mimeType, folder }: ProcessAssetJob,
+  ): Promise<ProcessedAssetData> {
+    const document = await this.documentOptimizer.inspectPdf(buffer);
+    const baseName = originalName.replace(/\.[^.]+$/, '');
+
+    const [result, thumbnail] = await Promise.all([
+      this.storage.upload(
+        this.toUpload(buffer, originalName, mimeType),
+        folder,
+      ),
+      document.thumbnail
+        ? this.storage.upload(
+            this.toUpload(
+              document.thumbnail,
+              `${baseName}-thumb.jpg`,
+              'image/jpeg',
+            ),
+            folder,
+          )
+        : null,
+    ]);
+
+    if (target === AssetTarget.PROJECT) {
+      await this.indexDocument(assetId, document.pages);
+    }
+
+    return {
+      originalUrl: result.url,
+      cdnUrl: result.url,
+      fileSize: result.size,
+      format: 'pdf',
+      thumbnailUrl: thumbnail ? thumbnail.url : null,
+      ...(target === AssetTarget.PROJECT && { pageCount: document.pageCount }),
+    };
+  }
+
+  /**
+   * Replaces the asset's indexed pages, so a retried job does not duplicate
+   * them. Scanned PDFs without a text layer stay unsearchable.
+   */
+  private async indexDocument(assetId: string, pages: string[]) {
+    const rows = pages
+      .map((content, i) => ({ assetId, pageNumber: i + 1, content }))
+      .filter((row) => row.content.length > 0);
+
+    await this.prisma.$transaction([
+      this.prisma.documentPage.deleteMany({ where: { assetId } }),
+      this.prisma.documentPage.createMany({ data: rows }),
+      this.prisma.projectAsset.update({
+        where: { id: assetId },
+        data: { isSearchable: rows.length > 0 },
+      }),
+    ]);
+
+    this.logger.log(`Indexed ${rows.length} pages of asset ${assetId}`);
+  }
+
+  private toUpload(buffer: Buffer, originalname: string, mimetype: string) {
+    return {
+      buffer,
+      originalname,
+      mimetype,
+      size: buffer.length,
+    } as Express.Multer.File;
+  }
+
+  private async findAsset(target: AssetTarget, id: string) {
+    if (target === AssetTarget.PROJECT) {
+      const asset = await this.prisma.projectAsset.findUnique({
+        where: { id },
+        select: { type: true },
+      });
+      return asset && { ...asset, mediaContentId: null };
+    }
+
+    return this.prisma.mediaAsset.findUnique({
+      where: { id },
+      select: { type: true, mediaContentId: true },
+    });
+  }
+
+  private async updateAsset(
+    target: AssetTarget,
+    id: string,
+    data: ProcessedAssetData,
+  ) {
+    if (target === AssetTarget.PROJECT) {
+      await this.prisma.projectAsset.update({ where: { id }, data });
+    } else {
+      await this.prisma.mediaAsset.update({ where: { id }, data });
+    }
+  }
+
+  private async discardStaged({ key }: StoredFileRef) {
+    if (!(await this.storage.delete(key))) {
+      this.logger.warn(`Could not remove staged file ${key}`);
+    }
+  }
+}
@@ -2,8 +2,10 @@ import { Module } from '@nestjs/common';
 import { MediaService } from './media.service';
 import { MediaController } from './media.controller';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { CloudinaryStrategy } from 'src/upload/strategies/cloudinary.strategy';
 import { FileOptimizerService } from 'src/utils/optimizer/file-optimizer.service';
+import { ModelOptimizerService } from 'src/utils/optimizer/model-optimizer.service';
+import { DocumentOptimizerService } from 'src/utils/optimizer/document-optimizer.service';
+import { MediaProcessingService } from './media-processing.service';
 
 
 @Module({
@@ -11,9 +13,11 @@ import { FileOptimizerService } from 'src/utils/optimizer/file-optimizer.service
   providers: [
     MediaService,
     PrismaService,
-    CloudinaryStrategy,
     FileOptimizerService,
+    ModelOptimizerService,
+    DocumentOptimizerService,
+    MediaProcessingService,
   ],
-  exports: [MediaService],
+  exports: [MediaService, MediaProcessingService],
 })
 export class MediaModule {}
\ No newline at end of file
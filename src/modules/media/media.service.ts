@@ -1,4 +1,5 @@
 import {
+  Inject,
   Injectable,
   NotFoundException,
   BadRequestException,
@@ -9,17 +10,23 @@ import {
   MediaContentType,
   MediaStatus,
   UserRole,
-  AssetType,
   ProjectCategory,
+  Prisma,
 } from '@prisma/client';
 import slugify from 'slugify';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { CloudinaryStrategy } from 'src/upload/strategies/cloudinary.strategy';
+import { STORAGE_PROVIDER } from 'src/upload/upload.constants';
+import type { StorageProvider } from 'src/upload/interfaces/storage-provider.interface';
 import {
   CreateMediaCommentDto,
   CreateMediaContentDto,
 } from './dto/create-media-content.dto';
 import { UpdateMediaContentDto } from './dto/update-media-content.dto';
+import {
+  AssetProcessStatus,
+  ImageSizes,
+  MediaProcessingService,
+} from './media-processing.service';
 
 @Injectable()
 export class MediaService {
@@ -31,7 +38,8 @@ export class MediaService {
 
   constructor(
     private prisma: PrismaService,
-    private cloudinary: CloudinaryStrategy,
+    @Inject(STORAGE_PROVIDER) private storage: StorageProvider,
+    private mediaProcessing: MediaProcessingService,
   ) {}
 
   async create(dto: CreateMediaContentDto, userId: string, userRole: UserRole) {
@@ -85,48 +93,44 @@ export class MediaService {
 
     const folder = `architecture-simple/media/${media.contentType.toLowerCase()}/${media.slug || media.id}`;
 
-    const uploadedAssets = await Promise.all(
+    // Rows are created up front; URLs and dimensions are filled in by the
+    // media-processing queue once the upload has been optimized and stored.
+    const stagedAssets = await Promise.all(
       files.map(async (file) => {
-        const result = await this.cloudinary.upload(file, folder);
-
-        const assetType = this.determineAssetType(file.mimetype);
-
-        return this.prisma.mediaAsset.create({
+        const asset = await this.prisma.mediaAsset.create({
           data: {
             mediaContentId: mediaId,
             uploadedById,
-            type: assetType,
+            type: this.mediaProcessing.determineAssetType(
+              file.mimetype,
+              file.originalname,
+            ),
             title: file.originalname,
-            originalUrl: result.url,
-            cdnUrl: result.url,
-            fileSize: result.size,
+            originalUrl: '',
+            cdnUrl: '',
+            fileSize: file.size,
             mimeType: file.mimetype,
-            width: result.width,
-            height: result.height,
-            format: result.format,
-            // You can add blurHash generation later
+            isProcessed: false,
+            processStatus: AssetProcessStatus.PENDING,
           },
         });
+
+        const queued = await this.mediaProcessing.schedule(
+          asset.id,
+          file,
+          folder,
+        );
+
+        return queued
+          ? asset
+          : { ...asset, processStatus: AssetProcessStatus.FAILED };
       }),
     );
 
-    // Auto set cover image if none exists and we have images
-    if (!media.coverImage) {
-      const firstImage = uploadedAssets.find(
-        (a) => a.type === AssetType.IMAGE_2D,
-      );
-      if (firstImage) {
-        await this.prisma.mediaContent.update({
-          where: { id: mediaId },
-          data: { coverImage: firstImage.cdnUrl },
-        });
-      }
-    }
-
     return {
-      message: 'Assets uploaded successfully',
-      count: uploadedAssets.length,
-      assets: uploadedAssets,
+      message: 'Assets uploaded successfully and queued for processing',
+      count: stagedAssets.length,
+      assets: stagedAssets,
     };
   }
 
@@ -159,7 +163,16 @@ export class MediaService {
   async delete(id: string, userId: string, userRole: UserRole) {
     const media = await this.prisma.mediaContent.findUnique({
       where: { id },
-      include: { assets: { select: { cdnUrl: true } } },
+      include: {
+        assets: {
+          select: {
+            cdnUrl: true,
+            posterUrl: true,
+            thumbnailUrl: true,
+            sizes: true,
+          },
+        },
+      },
     });
 
     if (!media) throw new NotFoundException();
@@ -171,17 +184,12 @@ export class MediaService {
       throw new ForbiddenException('Not authorized to delete');
     }
 
-    // Delete Cloudinary files
-    const publicIds = media.assets
-      .map((asset) => {
-        const parts = asset.cdnUrl.split('/');
-        const filename = parts[parts.length - 1];
-        return filename.split('.')[0];
-      })
-      .filter(Boolean);
-
-    if (publicIds.length > 0) {
-      await this.cloudinary.deleteMultiple(publicIds);
+    // Delete stored files, including posters, thumbnails and responsive
+    // variants
+    const keys = media.assets.flatMap((asset) => this.storageKeys(asset));
+
+    if (keys.length > 0) {
+      await this.storage.deleteMultiple(keys);
     }
 
     await this.prisma.mediaContent.delete({ where: { id } });
@@ -521,11 +529,22 @@ export class MediaService {
     });
   }
 
-  private determineAssetType(mimeType: string): AssetType {
-    if (mimeType.startsWith('image/')) return AssetType.IMAGE_2D;
-    if (mimeType.startsWith('video/')) return AssetType.VIDEO;
-    if (mimeType.includes('pdf')) return AssetType.DOCUMENT_1D;
-    return AssetType.IMAGE_2D; // fallback
+  private storageKeys(asset: {
+    cdnUrl: string;
+    posterUrl: string | null;
+    thumbnailUrl: string | null;
+    sizes: Prisma.JsonValue;
+  }): string[] {
+    const sizes = (asset.sizes ?? {}) as ImageSizes;
+    const variantUrls = Object.values(sizes).flatMap((variant) => [
+      variant?.jpeg,
+      variant?.webp,
+      variant?.avif,
+    ]);
+
+    return [asset.cdnUrl, asset.posterUrl, asset.thumbnailUrl, ...variantUrls]
+      .map((url) => (url ? this.storage.keyFromUrl(url) : null))
+      .filter((key): key is string => !!key);
   }
 
   //================comment and like =================
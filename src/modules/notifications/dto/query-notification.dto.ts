@@ -0,0 +1,22 @@
+import { IsOptional, IsInt, IsBoolean, Min, Max } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+export class QueryNotificationDto {
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  unreadOnly?: boolean = false;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
@@ -0,0 +1,8 @@
+import { NotificationType } from '../notification-type.constant';
+
+export interface NotificationPayload {
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+}
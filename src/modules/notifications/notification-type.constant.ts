@@ -0,0 +1,27 @@
+// src/modules/notifications/notification-type.constant.ts
+export const NotificationType = {
+  NEW_REQUEST: 'NEW_REQUEST',
+  PROPOSAL_SENT: 'PROPOSAL_SENT',
+  PROPOSAL_STATUS_UPDATED: 'PROPOSAL_STATUS_UPDATED',
+  PROPOSAL_ACCEPTED: 'PROPOSAL_ACCEPTED',
+  PROPOSAL_REVISED: 'PROPOSAL_REVISED',
+  PROPOSAL_EXPIRING: 'PROPOSAL_EXPIRING',
+  PROPOSAL_EXPIRED: 'PROPOSAL_EXPIRED',
+  DISCOUNT_APPROVAL_REQUESTED: 'DISCOUNT_APPROVAL_REQUESTED',
+  DISCOUNT_APPROVAL_DECIDED: 'DISCOUNT_APPROVAL_DECIDED',
+  PROPOSAL_REVIEW_REQUESTED: 'PROPOSAL_REVIEW_REQUESTED',
+  PROPOSAL_REVIEW_DECIDED: 'PROPOSAL_REVIEW_DECIDED',
+  AMENDMENT_REQUESTED: 'AMENDMENT_REQUESTED',
+  AMENDMENT_REVIEWED: 'AMENDMENT_REVIEWED',
+  INVOICES_DRAFTED: 'INVOICES_DRAFTED',
+  INVOICE_ISSUED: 'INVOICE_ISSUED',
+  INVOICE_PAID: 'INVOICE_PAID',
+  INVOICE_VOIDED: 'INVOICE_VOIDED',
+  PAYMENT_RECEIVED: 'PAYMENT_RECEIVED',
+  PAYMENT_REFUNDED: 'PAYMENT_REFUNDED',
+  STAGE_COMPLETED: 'STAGE_COMPLETED',
+  MEETING_SCHEDULED: 'MEETING_SCHEDULED',
+} as const;
+
+export type NotificationType =
+  (typeof NotificationType)[keyof typeof NotificationType];
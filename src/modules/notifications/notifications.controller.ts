@@ -0,0 +1,42 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import * as client from '@prisma/client';
+import { JwtAuthGuard } from 'src/common/guards/auth.guard';
+import { CurrentUser } from 'src/common/decorators/current-user.decorator';
+import { NotificationsService } from './notifications.service';
+import { QueryNotificationDto } from './dto/query-notification.dto';
+
+@Controller('notifications')
+@UseGuards(JwtAuthGuard)
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @Get()
+  findAll(
+    @Query() query: QueryNotificationDto,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.notificationsService.findAll(user, query);
+  }
+
+  @Get('unread-count')
+  getUnreadCount(@CurrentUser() user: client.User) {
+    return this.notificationsService.getUnreadCount(user);
+  }
+
+  @Patch('read-all')
+  markAllAsRead(@CurrentUser() user: client.User) {
+    return this.notificationsService.markAllAsRead(user);
+  }
+
+  @Patch(':id/read')
+  markAsRead(@Param('id') id: string, @CurrentUser() user: client.User) {
+    return this.notificationsService.markAsRead(id, user);
+  }
+}
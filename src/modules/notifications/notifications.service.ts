@@ -0,0 +1,182 @@
+import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+import { Prisma, User, UserRole } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { RealtimeEvent } from '../realtime/realtime-event.constant';
+import { QueryNotificationDto } from './dto/query-notification.dto';
+import { NotificationPayload } from './interfaces/notification-payload.interface';
+
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private realtime: RealtimeService,
+  ) {}
+
+  // ============================================
+  // WRITERS (used by other modules, never throw)
+  // ============================================
+
+  async notifyUser(
+    userId: string | null | undefined,
+    payload: NotificationPayload,
+  ) {
+    if (!userId) return;
+    await this.notifyUsers([userId], payload);
+  }
+
+  async notifyUsers(userIds: string[], payload: NotificationPayload) {
+    const recipients = [...new Set(userIds.filter(Boolean))];
+    if (recipients.length === 0) return;
+
+    try {
+      const created = await this.prisma.notification.createManyAndReturn({
+        data: recipients.map((userId) => ({
+          userId,
+          type: payload.type,
+          title: payload.title,
+          message: payload.message,
+          link: payload.link,
+        })),
+      });
+
+      for (const notification of created) {
+        this.realtime.publish(
+          { userIds: [notification.userId] },
+          RealtimeEvent.NOTIFICATION_CREATED,
+          notification,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to persist ${payload.type} notification for ${recipients.length} user(s)`,
+        error,
+      );
+    }
+  }
+
+  async notifyRoles(
+    roles: UserRole[],
+    payload: NotificationPayload,
+    excludeUserId?: string,
+  ) {
+    try {
+      const members = await this.prisma.user.findMany({
+        where: {
+          role: { in: roles },
+          isActive: true,
+          ...(excludeUserId ? { id: { not: excludeUserId } } : {}),
+        },
+        select: { id: true },
+      });
+
+      await this.notifyUsers(
+        members.map((m) => m.id),
+        payload,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify roles ${roles.join(', ')} about ${payload.type}`,
+        error,
+      );
+    }
+  }
+
+  // ============================================
+  // READERS (notification center)
+  // ============================================
+
+  async findAll(user: User, query: QueryNotificationDto) {
+    const { unreadOnly = false, page = 1, limit = 20 } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.NotificationWhereInput = {
+      userId: user.id,
+      ...(unreadOnly ? { isRead: false } : {}),
+    };
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      this.prisma.notification.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.notification.count({ where }),
+      this.prisma.notification.count({
+        where: { userId: user.id, isRead: false },
+      }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      success: true,
+      message: 'Successfully retrieved notifications',
+      data: notifications,
+      meta: {
+        total,
+        unreadCount,
+        page,
+        limit,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrevious: page > 1,
+      },
+    };
+  }
+
+  async getUnreadCount(user: User) {
+    const count = await this.prisma.notification.count({
+      where: { userId: user.id, isRead: false },
+    });
+
+    return {
+      success: true,
+      message: 'Successfully retrieved unread count',
+      data: { count },
+    };
+  }
+
+  async markAsRead(id: string, user: User) {
+    const notification = await this.prisma.notification.findFirst({
+      where: { id, userId: user.id },
+    });
+
+    if (!notification) {
+      throw new NotFoundException('Notification not found');
+    }
+
+    const updated = notification.isRead
+      ? notification
+      : await this.prisma.notification.update({
+          where: { id },
+          data: { isRead: true },
+        });
+
+    return {
+      success: true,
+      message: 'Notification marked as read',
+      data: updated,
+    };
+  }
+
+  async markAllAsRead(user: User) {
+    const result = await this.prisma.notification.updateMany({
+      where: { userId: user.id, isRead: false },
+      data: { isRead: true },
+    });
+
+    this.logger.log(
+      `Marked ${result.count} notifications as read for ${user.email}`,
+    );
+
+    return {
+      success: true,
+      message: 'All notifications marked as read',
+      data: { updated: result.count },
+    };
+  }
+}
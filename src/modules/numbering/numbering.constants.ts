@@ -0,0 +1,22 @@
+// src/modules/numbering/numbering.constants.ts
+import { NumberedDocument } from '@prisma/client';
+
+export const NumberingReset = {
+  NEVER: 'never',
+  YEARLY: 'yearly',
+  MONTHLY: 'monthly',
+} as const;
+
+export type NumberingReset =
+  (typeof NumberingReset)[keyof typeof NumberingReset];
+
+// Env var stem and default prefix per document, e.g. PROPOSAL_NUMBER_PREFIX
+export const NUMBERING_DEFAULTS: Record<
+  NumberedDocument,
+  { env: string; prefix: string }
+> = {
+  PROPOSAL: { env: 'PROPOSAL', prefix: 'PROP' },
+  AMENDMENT: { env: 'AMENDMENT', prefix: 'AMD' },
+  INVOICE: { env: 'INVOICE', prefix: 'INV' },
+  PROJECT_REQUEST: { env: 'REQUEST', prefix: 'REQ' },
+};
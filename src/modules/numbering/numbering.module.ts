@@ -0,0 +1,11 @@
+// src/modules/numbering/numbering.module.ts
+import { Module } from '@nestjs/common';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { NumberingService } from './numbering.service';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [NumberingService],
+  exports: [NumberingService],
+})
+export class NumberingModule {}
@@ -0,0 +1,92 @@
+// src/modules/numbering/numbering.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NumberedDocument, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { NUMBERING_DEFAULTS, NumberingReset } from './numbering.constants';
+
+/**
+ * Human-readable document numbers (PROP-2026-0001) backed by a counter row
+ * per document and reset period. The counter is bumped with a single
+ * INSERT ... ON CONFLICT, so concurrent callers never get the same number
+ * and deleted documents never hand theirs out again.
+ */
+@Injectable()
+export class NumberingService {
+  private readonly logger = new Logger(NumberingService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+  ) {}
+
+  /**
+   * Reserves the next number. Pass the caller's transaction so a rolled-back
+   * insert releases its number instead of leaving a gap.
+   */
+  async next(
+    document: NumberedDocument,
+    tx: Prisma.TransactionClient = this.prisma,
+    at = new Date(),
+  ): Promise<string> {
+    const { prefix, reset } = this.settings(document);
+    const period = this.period(reset, at);
+
+    const [{ value }] = await tx.$queryRaw<{ value: number }[]>`
+      INSERT INTO "document_sequences" ("id", "document", "period", "value", "updatedAt")
+      VALUES (gen_random_uuid()::text, ${document}::"NumberedDocument", ${period}, 1, NOW())
+      ON CONFLICT ("document", "period")
+      DO UPDATE SET "value" = "document_sequences"."value" + 1, "updatedAt" = NOW()
+      RETURNING "value"
+    `;
+
+    return this.format(prefix, period, value);
+  }
+
+  private settings(document: NumberedDocument) {
+    const defaults = NUMBERING_DEFAULTS[document];
+    const reset = this.config.get<string>(
+      `${defaults.env}_NUMBER_RESET`,
+      NumberingReset.YEARLY,
+    );
+
+    if (!Object.values<string>(NumberingReset).includes(reset)) {
+      this.logger.warn(
+        `Unknown ${defaults.env}_NUMBER_RESET "${reset}", using yearly`,
+      );
+    }
+
+    return {
+      prefix: this.config.get<string>(
+        `${defaults.env}_NUMBER_PREFIX`,
+        defaults.prefix,
+      ),
+      reset: reset as NumberingReset,
+    };
+  }
+
+  private period(reset: NumberingReset, at: Date) {
+    const year = String(at.getFullYear());
+    const month = String(at.getMonth() + 1).padStart(2, '0');
+
+    switch (reset) {
+      case NumberingReset.NEVER:
+        return '';
+      case NumberingReset.MONTHLY:
+        return `${year}-${month}`;
+      default:
+        return year;
+    }
+  }
+
+  private format(prefix: string, period: string, value: number) {
+    const digits = parseInt(this.config.get<string>('NUMBER_PADDING', '4'), 10);
+    return [
+      prefix,
+      period.replace('-', ''),
+      String(value).padStart(digits, '0'),
+    ]
+      .filter(Boolean)
+      .join('-');
+  }
+}
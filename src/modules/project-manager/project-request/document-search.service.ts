@@ -0,0 +1,131 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { AssetType, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SearchDocumentsDto } from './dto/search-documents.dto';
+
+interface DocumentPageHit {
+  assetId: string;
+  pageNumber: number;
+  rank: number;
+  snippet: string;
+  title: string | null;
+  type: AssetType;
+  cdnUrl: string;
+  thumbnailUrl: string | null;
+  pageCount: number | null;
+  projectRequestId: string;
+  projectName: string;
+}
+
+/**
+ * Full-text search over the pages of PDFs attached to project requests
+ * (and so to their proposals). Pages are indexed by the media pipeline into
+ * `document_pages`, whose generated `searchVector` column carries the GIN index.
+ */
+@Injectable()
+export class DocumentSearchService {
+  private readonly logger = new Logger(DocumentSearchService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  async search(query: SearchDocumentsDto) {
+    const { q, type, page = 1, limit = 20 } = query;
+    const skip = (page - 1) * limit;
+
+    const projectRequestId = query.proposalId
+      ? await this.requestIdForProposal(query.proposalId)
+      : query.projectRequestId;
+
+    const where = Prisma.sql`
+      dp."searchVector" @@ websearch_to_tsquery('english', ${q})
+      AND a."isSearchable" = true
+      AND pr."deletedAt" IS NULL
+      ${projectRequestId ? Prisma.sql`AND a."projectRequestId" = ${projectRequestId}` : Prisma.empty}
+      ${type ? Prisma.sql`AND a."type" = ${type}::"AssetType"` : Prisma.empty}
+    `;
+
+    const [hits, [{ total }]] = await Promise.all([
+      this.prisma.$queryRaw<DocumentPageHit[]>`
+        SELECT
+          dp."assetId",
+          dp."pageNumber",
+          ts_rank(dp."searchVector", websearch_to_tsquery('english', ${q})) AS rank,
+          ts_headline('english', dp."content", websearch_to_tsquery('english', ${q}),
+            'MaxFragments=2, MaxWords=25, MinWords=8') AS snippet,
+          a."title",
+          a."type",
+          a."cdnUrl",
+          a."thumbnailUrl",
+          a."pageCount",
+          a."projectRequestId",
+          pr."projectName"
+        FROM "document_pages" dp
+        JOIN "project_assets" a ON a."id" = dp."assetId"
+        JOIN "project_requests" pr ON pr."id" = a."projectRequestId"
+        WHERE ${where}
+        ORDER BY rank DESC, dp."pageNumber" ASC
+        LIMIT ${limit} OFFSET ${skip}
+      `,
+      this.prisma.$queryRaw<{ total: number }[]>`
+        SELECT COUNT(*)::int AS total
+        FROM "document_pages" dp
+        JOIN "project_assets" a ON a."id" = dp."assetId"
+        JOIN "project_requests" pr ON pr."id" = a."projectRequestId"
+        WHERE ${where}
+      `,
+    ]);
+
+    const proposals = await this.prisma.proposal.findMany({
+      where: {
+        projectRequestId: {
+          in: [...new Set(hits.map((hit) => hit.projectRequestId))],
+        },
+      },
+      select: {
+        id: true,
+        proposalNumber: true,
+        status: true,
+        projectRequestId: true,
+      },
+    });
+
+    this.logger.log(`Document search "${q}": ${total} page hits`);
+
+    return {
+      success: true,
+      message: 'Documents searched successfully',
+      data: hits.map((hit) => ({
+        ...hit,
+        proposals: proposals
+          .filter(
+            (proposal) => proposal.projectRequestId === hit.projectRequestId,
+          )
+          .map(({ id, proposalNumber, status }) => ({
+            id,
+            proposalNumber,
+            status,
+          })),
+      })),
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  // Proposal documents are the ones uploaded to its project request
+  private async requestIdForProposal(proposalId: string) {
+    const proposal = await this.prisma.proposal.findUnique({
+      where: { id: proposalId },
+      select: { projectRequestId: true },
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    return proposal.projectRequestId;
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { AssetType } from '@prisma/client';
+
+export class SearchDocumentsDto {
+  // Web-search syntax: "exact phrase", OR, -excluded
+  @IsString()
+  @MinLength(2)
+  @MaxLength(200)
+  q: string;
+
+  @IsOptional()
+  @IsUUID()
+  projectRequestId?: string;
+
+  @IsOptional()
+  @IsUUID()
+  proposalId?: string;
+
+  @IsOptional()
+  @IsEnum([AssetType.DOCUMENT_1D, AssetType.DRAWING_2D])
+  type?: AssetType;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number = 20;
+}
@@ -25,12 +25,17 @@ import { CurrentUser } from 'src/common/decorators/current-user.decorator';
 import { UpdateRequestStatusDto } from './dto/update-request-status.dto';
 import { AssignRequestDto } from './dto/create-project-request.dto';
 import { CreateMeetingLinkDto } from './dto/create-meeting-link.dto';
+import { SearchDocumentsDto } from './dto/search-documents.dto';
+import { DocumentSearchService } from './document-search.service';
 
 @Controller('project-requests-admin')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class ProjectRequestController {
   // meetingLink: any;
-  constructor(private readonly projectRequestService: ProjectRequestService) {}
+  constructor(
+    private readonly projectRequestService: ProjectRequestService,
+    private readonly documentSearchService: DocumentSearchService,
+  ) {}
 
   @Get()
   @Roles(
@@ -55,6 +60,19 @@ export class ProjectRequestController {
     return this.projectRequestService.getRequestsByStatus(user);
   }
 
+  @Get('documents/search')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.HIGHER_MANAGER,
+    client.UserRole.PROJECT_MANAGER,
+    client.UserRole.DRAFTER,
+    client.UserRole.EMPLOYEE,
+  )
+  searchDocuments(@Query() query: SearchDocumentsDto) {
+    return this.documentSearchService.search(query);
+  }
+
   @Get('my-requests')
   getMyRequests(
     @Query() query: QueryProjectRequestDto,
@@ -1,14 +1,16 @@
 import { Module } from '@nestjs/common';
 import { ProjectRequestService } from './project-request.service';
 import { ProjectRequestController } from './project-request.controller';
+import { DocumentSearchService } from './document-search.service';
 import { MailerModule } from 'src/utils/email/email.module';
 import { PrismaModule } from 'src/prisma/prisma.module';
+import { NotificationsModule } from 'src/modules/notifications/notifications.module';
 
 
 @Module({
-  imports: [PrismaModule, MailerModule],
+  imports: [PrismaModule, MailerModule, NotificationsModule],
   controllers: [ProjectRequestController],
-  providers: [ProjectRequestService],
+  providers: [ProjectRequestService, DocumentSearchService],
   exports: [ProjectRequestService],
 })
 export class ProjectAdminRequestModule {}
\ No newline at end of file
@@ -19,6 +19,8 @@ import { MailerService } from 'src/utils/email/email.service';
 import { GetMyMeetingsDto, QueryProjectRequestDto } from './dto/query-project-request.dto';
 import { UpdateRequestStatusDto } from './dto/update-request-status.dto';
 import { CreateMeetingLinkDto } from './dto/create-meeting-link.dto';
+import { NotificationsService } from 'src/modules/notifications/notifications.service';
+import { NotificationType } from 'src/modules/notifications/notification-type.constant';
 
 @Injectable()
 export class ProjectRequestService {
@@ -39,6 +41,7 @@ export class ProjectRequestService {
   constructor(
     private prisma: PrismaService,
     private mailer: MailerService,
+    private notifications: NotificationsService,
   ) {}
 
   private canManageRequests(user: User): boolean {
@@ -483,6 +486,13 @@ async sendMeetingLink(dto: CreateMeetingLinkDto, staff: User) {
       `Meeting link sent for project ${dto.projectRequestId} by ${staff.email} to ${projectRequest.user.email}`,
     );
 
+    await this.notifications.notifyUser(projectRequest.userId, {
+      type: NotificationType.MEETING_SCHEDULED,
+      title: `Meeting scheduled: ${dto.title}`,
+      message: `${staff.name || 'Project Team'} scheduled a meeting for ${projectRequest.projectName} on ${new Date(dto.scheduledAt).toUTCString()}.`,
+      link: `/dashboard/meetings/${meetingLink.id}`,
+    });
+
     return {
       success: true,
       message: emailSent
@@ -3,10 +3,12 @@ import { ProjectStageService } from './project-stage.service';
 import { ProjectStageController } from './project-stage.controller';
 import { PrismaModule } from 'src/prisma/prisma.module';
 import { MailerModule } from 'src/utils/email/email.module';
+import { NotificationsModule } from 'src/modules/notifications/notifications.module';
+import { RealtimeModule } from 'src/modules/realtime/realtime.module';
 
 
 @Module({
-  imports: [PrismaModule, MailerModule],
+  imports: [PrismaModule, MailerModule, NotificationsModule, RealtimeModule],
   controllers: [ProjectStageController],
   providers: [ProjectStageService],
   exports: [ProjectStageService],
@@ -1,4 +1,3 @@
-
 import {
   Injectable,
   NotFoundException,
@@ -14,6 +13,10 @@ import { CreateStageDto } from './dto/create-stage.dto';
 import { UpdateStageDto } from './dto/update-stage.dto';
 import { UpdateProgressDto } from './dto/update-progress.dto';
 import { CompleteStageDto } from './dto/complete-stage.dto';
+import { NotificationsService } from 'src/modules/notifications/notifications.service';
+import { NotificationType } from 'src/modules/notifications/notification-type.constant';
+import { RealtimeService } from 'src/modules/realtime/realtime.service';
+import { RealtimeEvent } from 'src/modules/realtime/realtime-event.constant';
 
 @Injectable()
 export class ProjectStageService {
@@ -28,13 +31,14 @@ export class ProjectStageService {
   constructor(
     private prisma: PrismaService,
     private mailer: MailerService,
+    private notifications: NotificationsService,
+    private realtime: RealtimeService,
   ) {}
 
   private canManageStages(user: User): boolean {
     return this.REQUEST_MANAGERS.has(user.role);
   }
 
-
   async create(dto: CreateStageDto, user: User) {
     if (!this.canManageStages(user)) {
       throw new ForbiddenException('Access denied');
@@ -50,7 +54,6 @@ export class ProjectStageService {
       throw new NotFoundException('Proposal not found');
     }
 
-
     if (dto.assignedToId) {
       const assignedUser = await this.prisma.user.findUnique({
         where: { id: dto.assignedToId },
@@ -61,7 +64,6 @@ export class ProjectStageService {
       }
     }
 
-
     let order = dto.order ?? 0;
     if (dto.order === undefined) {
       const maxOrder = await this.prisma.projectStage.aggregate({
@@ -71,7 +73,6 @@ export class ProjectStageService {
       order = (maxOrder._max.order ?? -1) + 1;
     }
 
-   
     const data: Prisma.ProjectStageCreateInput = {
       proposal: { connect: { id: dto.proposalId } },
       name: dto.name,
@@ -80,7 +81,9 @@ export class ProjectStageService {
       totalTasks: dto.totalTasks ?? 0,
       startDate: dto.startDate ? new Date(dto.startDate) : undefined,
       dueDate: dto.dueDate ? new Date(dto.dueDate) : undefined,
-      assignedTo: dto.assignedToId ? { connect: { id: dto.assignedToId } } : undefined,
+      assignedTo: dto.assignedToId
+        ? { connect: { id: dto.assignedToId } }
+        : undefined,
       notes: dto.notes,
       status: StageStatus.NOT_STARTED,
     };
@@ -117,7 +120,6 @@ export class ProjectStageService {
     return stage;
   }
 
-
   async update(id: string, dto: UpdateStageDto, user: User) {
     if (!this.canManageStages(user)) {
       throw new ForbiddenException('Access denied');
@@ -154,7 +156,6 @@ export class ProjectStageService {
       status = StageStatus.IN_PROGRESS;
     }
 
- 
     const updateData: Prisma.ProjectStageUpdateInput = {
       name: dto.name,
       description: dto.description,
@@ -194,7 +195,6 @@ export class ProjectStageService {
     return updated;
   }
 
-  
   async updateProgress(id: string, dto: UpdateProgressDto, user: User) {
     if (!this.canManageStages(user)) {
       throw new ForbiddenException('Access denied');
@@ -240,10 +240,15 @@ export class ProjectStageService {
     });
 
     // If completed, notify client
-    if (status === StageStatus.COMPLETED && stage.status !== StageStatus.COMPLETED) {
+    if (
+      status === StageStatus.COMPLETED &&
+      stage.status !== StageStatus.COMPLETED
+    ) {
       await this.notifyStageCompleted(updated);
     }
 
+    this.publishStageProgress(updated, updated.proposal?.userId ?? null);
+
     return updated;
   }
 
@@ -294,6 +299,7 @@ export class ProjectStageService {
 
     // Notify client
     await this.notifyStageCompleted(updated);
+    this.publishStageProgress(updated, updated.proposal?.userId ?? null);
 
     this.logger.log(
       `Stage "${stage.name}" completed for proposal ${stage.proposalId}`,
@@ -302,12 +308,50 @@ export class ProjectStageService {
     return updated;
   }
 
+  private publishStageProgress(
+    stage: {
+      id: string;
+      proposalId: string | null;
+      name: string;
+      status: StageStatus;
+      progress: number;
+      completedTasks: number;
+      totalTasks: number;
+      completedAt: Date | null;
+    },
+    clientId: string | null,
+  ) {
+    this.realtime.publish(
+      { userIds: [clientId], roles: [...this.REQUEST_MANAGERS] },
+      RealtimeEvent.STAGE_PROGRESS_UPDATED,
+      {
+        stageId: stage.id,
+        proposalId: stage.proposalId,
+        name: stage.name,
+        status: stage.status,
+        progress: stage.progress,
+        completedTasks: stage.completedTasks,
+        totalTasks: stage.totalTasks,
+        completedAt: stage.completedAt,
+      },
+    );
+  }
 
-  private async notifyStageCompleted(stage: any) {
+  private async notifyStageCompleted(stage: {
+    id: string;
+    name: string;
+    proposal: {
+      id: string;
+      userId: string | null;
+      projectName: string;
+      proposalNumber: string;
+      user: { email: string; name: string | null } | null;
+      projectStages?: { status: StageStatus }[];
+    } | null;
+  }) {
     try {
       const { proposal } = stage;
 
- 
       if (!proposal) {
         this.logger.warn(`Stage ${stage.id} has no linked proposal`);
         return;
@@ -316,10 +360,21 @@ export class ProjectStageService {
       // Calculate overall progress
       const stages = proposal.projectStages || [];
       const completedCount = stages.filter(
-        (s: any) => s.status === StageStatus.COMPLETED,
+        (s) => s.status === StageStatus.COMPLETED,
       ).length;
       const totalCount = stages.length;
 
+      await this.notifications.notifyUser(proposal.userId, {
+        type: NotificationType.STAGE_COMPLETED,
+        title: `Stage completed: ${stage.name}`,
+        message: `"${stage.name}" is complete for ${proposal.projectName} (${proposal.proposalNumber}).`,
+        link: `/dashboard/proposals/${proposal.id}`,
+      });
+
+      if (!proposal.user) {
+        return;
+      }
+
       await this.mailer.sendStageCompletionEmail(
         proposal.user.email,
         proposal.user.name || 'Client',
@@ -340,7 +395,6 @@ export class ProjectStageService {
     }
   }
 
-
   async getStagesByProposal(proposalId: string, user: User) {
     const proposal = await this.prisma.proposal.findUnique({
       where: { id: proposalId },
@@ -371,7 +425,6 @@ export class ProjectStageService {
     });
   }
 
-
   async findOne(id: string, user: User) {
     const stage = await this.prisma.projectStage.findUnique({
       where: { id },
@@ -423,7 +476,6 @@ export class ProjectStageService {
     return stage;
   }
 
-
   async deleteStage(id: string, user: User) {
     if (!this.canManageStages(user)) {
       throw new ForbiddenException('Access denied');
@@ -446,7 +498,6 @@ export class ProjectStageService {
     return { message: 'Stage deleted successfully' };
   }
 
- 
   async getMyAssignedStages(user: User) {
     return this.prisma.projectStage.findMany({
       where: {
@@ -471,4 +522,4 @@ export class ProjectStageService {
       },
     });
   }
-}
\ No newline at end of file
+}
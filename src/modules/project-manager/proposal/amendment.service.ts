@@ -12,14 +12,23 @@ import {
   AmendmentStatus,
   ProposalType,
   Prisma,
+  UserRole,
+  ProposalRevisionReason,
+  NumberedDocument,
 } from '@prisma/client';
 import { PrismaService } from 'src/prisma/prisma.service';
+import { NumberingService } from 'src/modules/numbering/numbering.service';
 import { MailerService } from 'src/utils/email/email.service';
 import {
   CreateAmendmentRequestDto,
   ReviewAmendmentDto,
   CreateAmendmentProposalDto,
 } from './dto/amendment.dto';
+import { NotificationsService } from 'src/modules/notifications/notifications.service';
+import { NotificationType } from 'src/modules/notifications/notification-type.constant';
+import { RealtimeService } from 'src/modules/realtime/realtime.service';
+import { RealtimeEvent } from 'src/modules/realtime/realtime-event.constant';
+import { ProposalRevisionService } from './proposal-revision.service';
 
 @Injectable()
 export class AmendmentService {
@@ -34,6 +43,10 @@ export class AmendmentService {
     private prisma: PrismaService,
     private config: ConfigService,
     private mailer: MailerService,
+    private notifications: NotificationsService,
+    private realtime: RealtimeService,
+    private revisions: ProposalRevisionService,
+    private numbering: NumberingService,
   ) {}
 
   private canManage(user: User): boolean {
@@ -43,114 +56,133 @@ export class AmendmentService {
   /**
    * Client creates amendment request
    */
-async createAmendmentRequest(
-  proposalId: string,
-  dto: CreateAmendmentRequestDto,
-  user: User,
-) {
-  // Verify proposal exists
-  const proposal = await this.prisma.proposal.findUnique({
-    where: { id: proposalId },
-    include: {
-      user: {
-        select: {
-          id: true,
-          email: true,
+  async createAmendmentRequest(
+    proposalId: string,
+    dto: CreateAmendmentRequestDto,
+    user: User,
+  ) {
+    // Verify proposal exists
+    const proposal = await this.prisma.proposal.findUnique({
+      where: { id: proposalId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+          },
         },
-      },
-      projectRequest: {
-        select: {
-          email: true,
+        projectRequest: {
+          select: {
+            email: true,
+          },
         },
       },
-    },
-  });
+    });
 
-  if (!proposal) {
-    throw new NotFoundException('Proposal not found');
-  }
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
 
-  
-  const isClient = 
-    proposal.userId === user.id || 
-    proposal.clientEmail === user.email ||
-    proposal.clientEmail.toLowerCase() === user.email.toLowerCase() ||
-    (proposal.user && proposal.user.email.toLowerCase() === user.email.toLowerCase()) ||
-    (proposal.projectRequest && proposal.projectRequest.email.toLowerCase() === user.email.toLowerCase());
-
-  if (!isClient && !this.canManage(user)) {
-    // Add detailed logging for debugging
-    this.logger.warn(
-      `Amendment request denied for user ${user.email}. ` +
-      `Proposal userId: ${proposal.userId}, ` +
-      `clientEmail: ${proposal.clientEmail}, ` +
-      `user.id: ${user.id}`
-    );
-    
-    throw new ForbiddenException(
-      'Only the client can create amendment requests',
-    );
-  }
+    const isClient =
+      proposal.userId === user.id ||
+      proposal.clientEmail === user.email ||
+      proposal.clientEmail.toLowerCase() === user.email.toLowerCase() ||
+      (proposal.user &&
+        proposal.user.email.toLowerCase() === user.email.toLowerCase()) ||
+      (proposal.projectRequest &&
+        proposal.projectRequest.email.toLowerCase() ===
+          user.email.toLowerCase());
+
+    if (!isClient && !this.canManage(user)) {
+      // Add detailed logging for debugging
+      this.logger.warn(
+        `Amendment request denied for user ${user.email}. ` +
+          `Proposal userId: ${proposal.userId}, ` +
+          `clientEmail: ${proposal.clientEmail}, ` +
+          `user.id: ${user.id}`,
+      );
 
-  // Proposal must be accepted to create amendments
-  if (proposal.status !== ProposalStatus.ACCEPTED) {
-    throw new BadRequestException(
-      'Can only create amendment requests for accepted proposals',
-    );
-  }
+      throw new ForbiddenException(
+        'Only the client can create amendment requests',
+      );
+    }
 
+    // Proposal must be accepted to create amendments
+    if (proposal.status !== ProposalStatus.ACCEPTED) {
+      throw new BadRequestException(
+        'Can only create amendment requests for accepted proposals',
+      );
+    }
 
-  const amendment = await this.prisma.amendmentRequest.create({
-    data: {
-      proposalId,
-      projectName: dto.projectName.trim(),
-      description: dto.description.trim(),
-      services: dto.services.trim(),
-      urgency: dto.urgency,
-      requestedById: user.id,
-      status: AmendmentStatus.PENDING,
-    },
-    include: {
-      proposal: {
-        select: {
-          id: true,
-          proposalNumber: true,
-          projectName: true,
-          clientName: true,
-          clientEmail: true,
-        },
+    const amendment = await this.prisma.amendmentRequest.create({
+      data: {
+        proposalId,
+        projectName: dto.projectName.trim(),
+        description: dto.description.trim(),
+        services: dto.services.trim(),
+        urgency: dto.urgency,
+        requestedById: user.id,
+        status: AmendmentStatus.PENDING,
       },
-      requestedBy: {
-        select: {
-          id: true,
-          name: true,
-          email: true,
+      include: {
+        proposal: {
+          select: {
+            id: true,
+            proposalNumber: true,
+            projectName: true,
+            clientName: true,
+            clientEmail: true,
+          },
+        },
+        requestedBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
         },
       },
-    },
-  });
+    });
 
-  this.logger.log(
-    `Amendment request created: ${amendment.id} for proposal ${proposal.proposalNumber} by ${user.email}`,
-  );
+    this.logger.log(
+      `Amendment request created: ${amendment.id} for proposal ${proposal.proposalNumber} by ${user.email}`,
+    );
 
-  await this.notifyManagersNewAmendment(amendment);
+    await this.notifyManagersNewAmendment(amendment);
+    await this.notifications.notifyRoles(
+      this.MANAGER_ROLES_ARRAY as UserRole[],
+      {
+        type: NotificationType.AMENDMENT_REQUESTED,
+        title: 'New amendment request',
+        message: `${amendment.proposal.clientName} requested an amendment on ${amendment.proposal.proposalNumber}: ${amendment.projectName}`,
+        link: this.managerPath(amendment),
+      },
+    );
+    this.realtime.publish(
+      { roles: this.MANAGER_ROLES_ARRAY as UserRole[] },
+      RealtimeEvent.AMENDMENT_REQUESTED,
+      {
+        amendmentId: amendment.id,
+        proposalId: amendment.proposalId,
+        proposalNumber: amendment.proposal.proposalNumber,
+        projectName: amendment.projectName,
+        urgency: amendment.urgency,
+        status: amendment.status,
+        requestedBy: amendment.requestedBy,
+      },
+    );
 
-  return {
-    success: true,
-    message: 'Amendment request submitted successfully',
-    data: amendment,
-  };
-}
+    return {
+      success: true,
+      message: 'Amendment request submitted successfully',
+      data: amendment,
+    };
+  }
 
   /**
    * Get amendment requests for a proposal
    */
-  async getAmendmentRequests(
-    proposalId: string,
-    user: User,
-    status?: string,
-  ) {
+  async getAmendmentRequests(proposalId: string, user: User, status?: string) {
     const proposal = await this.prisma.proposal.findUnique({
       where: { id: proposalId },
     });
@@ -325,6 +357,27 @@ async createAmendmentRequest(
 
     // Send notification to client
     await this.notifyClientReviewDecision(updated, dto.action);
+    await this.notifications.notifyUser(updated.requestedById, {
+      type: NotificationType.AMENDMENT_REVIEWED,
+      title: `Amendment request ${dto.action.toLowerCase()}`,
+      message: `Your amendment request "${updated.projectName}" was ${dto.action.toLowerCase()}.`,
+      link: this.clientPath(updated),
+    });
+    this.realtime.publish(
+      {
+        userIds: [updated.requestedById],
+        roles: this.MANAGER_ROLES_ARRAY as UserRole[],
+      },
+      RealtimeEvent.AMENDMENT_REVIEWED,
+      {
+        amendmentId: updated.id,
+        proposalId: updated.proposalId,
+        status: updated.status,
+        reviewedById: user.id,
+        reviewedAt: updated.reviewedAt,
+        reviewNotes: updated.reviewNotes,
+      },
+    );
 
     return {
       success: true,
@@ -374,12 +427,9 @@ async createAmendmentRequest(
 
     const parentProposal = amendment.proposal;
 
-    // Generate proposal number
-    const year = new Date().getFullYear();
-    const count = await this.prisma.proposal.count({
-      where: { proposalNumber: { startsWith: `PROP-${year}-` } },
-    });
-    const proposalNumber = `PROP-${year}-${String(count + 1).padStart(4, '0')}-AMD`;
+    const proposalNumber = await this.numbering.next(
+      NumberedDocument.AMENDMENT,
+    );
 
     // Create amendment proposal
     const amendmentProposal = await this.prisma.proposal.create({
@@ -403,7 +453,12 @@ async createAmendmentRequest(
         clientEmail: parentProposal.clientEmail,
         clientPhone: parentProposal.clientPhone,
         clientCompany: parentProposal.clientCompany,
-        taxRate: dto.taxRate ? new Prisma.Decimal(dto.taxRate) : parentProposal.taxRate,
+        taxRate: dto.taxRate
+          ? new Prisma.Decimal(dto.taxRate)
+          : parentProposal.taxRate,
+        manualTaxRate: dto.taxRate
+          ? new Prisma.Decimal(dto.taxRate)
+          : parentProposal.manualTaxRate,
         paymentMethod: dto.paymentMethod,
         paymentTerms: dto.paymentTerms,
         notes: dto.notes?.trim(),
@@ -435,6 +490,12 @@ async createAmendmentRequest(
       `Amendment proposal created: ${amendmentProposal.proposalNumber} from amendment ${amendmentId}`,
     );
 
+    await this.revisions.record(
+      amendmentProposal.id,
+      ProposalRevisionReason.CREATED,
+      user.id,
+    );
+
     return {
       success: true,
       message: 'Amendment proposal created successfully',
@@ -463,9 +524,7 @@ async createAmendmentRequest(
     }
 
     if (!amendment.amendmentProposalId) {
-      throw new BadRequestException(
-        'No proposal created for this amendment',
-      );
+      throw new BadRequestException('No proposal created for this amendment');
     }
 
     if (amendment.amendmentProposal?.status !== ProposalStatus.ACCEPTED) {
@@ -576,10 +635,7 @@ async createAmendmentRequest(
     // Get all proposals (root + amendments)
     const allProposals = await this.prisma.proposal.findMany({
       where: {
-        OR: [
-          { id: rootProposalId },
-          { parentProposalId: rootProposalId },
-        ],
+        OR: [{ id: rootProposalId }, { parentProposalId: rootProposalId }],
       },
       include: {
         services: {
@@ -626,10 +682,36 @@ async createAmendmentRequest(
 
   // ============ Email Notifications ============
 
-  private async notifyManagersNewAmendment(amendment: any) {
+  // In-app paths, shared by notifications and the emailed links
+  private managerPath(amendment: { id: string }) {
+    return `/admin/amendments/${amendment.id}`;
+  }
+
+  private clientPath(amendment: { id: string; proposalId: string }) {
+    return `/proposals/${amendment.proposalId}/amendments/${amendment.id}`;
+  }
+
+  private appUrl(path: string) {
+    const frontendUrl = this.config.get<string>(
+      'FRONTEND_URL',
+      'http://localhost:3000',
+    );
+    return `${frontendUrl}${path}`;
+  }
+
+  private async notifyManagersNewAmendment(amendment: {
+    id: string;
+    projectName: string;
+    description: string;
+    services: string;
+    urgency: string;
+    proposal: {
+      clientName: string;
+      proposalNumber: string;
+      projectName: string;
+    };
+  }) {
     try {
-      const frontendUrl = this.config.get('FRONTEND_URL', 'http://localhost:3000');
-      
       const managers = await this.prisma.user.findMany({
         where: {
           role: { in: this.MANAGER_ROLES_ARRAY as any },
@@ -639,7 +721,7 @@ async createAmendmentRequest(
       });
 
       for (const manager of managers) {
-        await this.mailer.sendMail({
+        await this.mailer.queueMail({
           to: manager.email,
           subject: `New Amendment Request: ${amendment.proposal.projectName}`,
           html: `
@@ -664,7 +746,7 @@ async createAmendmentRequest(
               </div>
               
               <div style="text-align: center; margin: 30px 0;">
-                <a href="${frontendUrl}/admin/amendments/${amendment.id}" 
+                <a href="${this.appUrl(this.managerPath(amendment))}" 
                    style="background: #2563eb; color: white; padding: 12px 24px; 
                           text-decoration: none; border-radius: 6px; display: inline-block;">
                   Review Amendment Request
@@ -679,14 +761,22 @@ async createAmendmentRequest(
     }
   }
 
-  private async notifyClientReviewDecision(amendment: any, action: string) {
+  private async notifyClientReviewDecision(
+    amendment: {
+      id: string;
+      proposalId: string;
+      projectName: string;
+      reviewNotes: string | null;
+      proposal: { clientName: string; clientEmail: string };
+    },
+    action: string,
+  ) {
     try {
-      const frontendUrl = this.config.get('FRONTEND_URL', 'http://localhost:3000');
       const isApproved = action === 'APPROVED';
       const statusColor = isApproved ? '#10b981' : '#ef4444';
       const statusText = isApproved ? 'Approved' : 'Rejected';
 
-      await this.mailer.sendMail({
+      await this.mailer.queueMail({
         to: amendment.proposal.clientEmail,
         subject: `Amendment Request ${statusText}: ${amendment.projectName}`,
         html: `
@@ -709,7 +799,7 @@ async createAmendmentRequest(
             }
             
             <div style="text-align: center; margin: 30px 0;">
-              <a href="${frontendUrl}/proposals/${amendment.proposalId}/amendments/${amendment.id}" 
+              <a href="${this.appUrl(this.clientPath(amendment))}" 
                  style="background: #2563eb; color: white; padding: 12px 24px; 
                         text-decoration: none; border-radius: 6px; display: inline-block;">
                 View Amendment
@@ -723,11 +813,14 @@ async createAmendmentRequest(
     }
   }
 
-  private async notifyAmendmentCompleted(amendment: any) {
+  private async notifyAmendmentCompleted(amendment: {
+    proposalId: string;
+    projectName: string;
+    proposal: { clientName: string; clientEmail: string };
+    amendmentProposal: { proposalNumber: string } | null;
+  }) {
     try {
-      const frontendUrl = this.config.get('FRONTEND_URL', 'http://localhost:3000');
-
-      await this.mailer.sendMail({
+      await this.mailer.queueMail({
         to: amendment.proposal.clientEmail,
         subject: `Amendment Completed: ${amendment.projectName}`,
         html: `
@@ -738,12 +831,12 @@ async createAmendmentRequest(
             
             <div style="background: #f0fdf4; padding: 20px; border-left: 4px solid #10b981; margin: 20px 0;">
               <p><strong>Amendment:</strong> ${amendment.projectName}</p>
-              <p><strong>Proposal:</strong> ${amendment.amendmentProposal.proposalNumber}</p>
+              <p><strong>Proposal:</strong> ${amendment.amendmentProposal?.proposalNumber ?? ''}</p>
               <p><strong>Status:</strong> Completed</p>
             </div>
             
             <div style="text-align: center; margin: 30px 0;">
-              <a href="${frontendUrl}/proposals/${amendment.proposalId}" 
+              <a href="${this.appUrl(`/proposals/${amendment.proposalId}`)}" 
                  style="background: #2563eb; color: white; padding: 12px 24px; 
                         text-decoration: none; border-radius: 6px; display: inline-block;">
                 View Proposal
@@ -756,4 +849,4 @@ async createAmendmentRequest(
       this.logger.error(`Failed to send completion email: ${error}`);
     }
   }
-}
\ No newline at end of file
+}
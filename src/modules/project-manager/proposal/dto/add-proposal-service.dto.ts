@@ -1,13 +1,29 @@
-import { IsString, IsNumber, IsInt, IsOptional, Min, IsNotEmpty } from 'class-validator';
+import {
+  IsString,
+  IsNumber,
+  IsInt,
+  IsOptional,
+  Min,
+  IsNotEmpty,
+  IsBoolean,
+  ValidateIf,
+} from 'class-validator';
+import { FeeModel } from '@prisma/client';
+import { ServiceFeeDto } from './service-fee.dto';
 
-export class AddProposalServiceDto {
+export class AddProposalServiceDto extends ServiceFeeDto {
   @IsString()
   @IsNotEmpty()
   name: string;
 
+  // The fee itself; only used by the FIXED model
+  @ValidateIf(
+    (dto: AddProposalServiceDto) =>
+      !dto.feeModel || dto.feeModel === FeeModel.FIXED,
+  )
   @IsNumber({}, { message: 'cost must be a valid number' })
   @Min(0, { message: 'cost cannot be negative' })
-  cost: number;
+  cost?: number;
 
   @IsInt()
   @IsOptional()
@@ -17,4 +33,12 @@ export class AddProposalServiceDto {
   @IsString()
   @IsOptional()
   description?: string;
-}
\ No newline at end of file
+
+  @IsBoolean()
+  @IsOptional()
+  optional?: boolean; // an add-on the client may take or leave
+
+  @IsBoolean()
+  @IsOptional()
+  selected?: boolean; // add-ons start deselected unless set
+}
@@ -5,6 +5,8 @@ import {
   IsDecimal,
   IsDateString,
   IsNumber,
+  IsUUID,
+  Min,
 } from 'class-validator';
 import { ServiceType, ProjectCategory } from '@prisma/client';
 
@@ -57,6 +59,11 @@ export class CreateProposalDto {
   @IsString()
   squareFootage?: string;
 
+  @IsOptional()
+  @IsNumber({}, { message: 'estimatedConstructionCost must be a valid number' })
+  @Min(0)
+  estimatedConstructionCost?: number; // basis for percentage fees
+
   @IsOptional()
   @IsNumber(
     {},
@@ -87,5 +94,10 @@ export class CreateProposalDto {
   @IsOptional()
   @IsDateString()
   expiresAt?: string;
+
+  // Prefills services, payment terms and T&C from a proposal template
+  @IsOptional()
+  @IsUUID()
+  templateId?: string;
   // status?: any;
 }
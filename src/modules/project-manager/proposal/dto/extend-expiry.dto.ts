@@ -0,0 +1,6 @@
+import { IsDateString } from 'class-validator';
+
+export class ExtendExpiryDto {
+  @IsDateString()
+  expiresAt: string;
+}
@@ -0,0 +1,12 @@
+import { IsDateString, IsOptional } from 'class-validator';
+
+// Proposals are counted by the date they were sent
+export class ProposalAnalyticsQueryDto {
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
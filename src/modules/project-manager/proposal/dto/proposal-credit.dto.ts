@@ -0,0 +1,40 @@
+import { PartialType } from '@nestjs/mapped-types';
+import {
+  IsEnum,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export const CREDIT_TYPES = ['DOLLAR_AMOUNT', 'PERCENTAGE'] as const;
+
+export class CreateProposalCreditDto {
+  @IsIn(CREDIT_TYPES)
+  type: (typeof CREDIT_TYPES)[number];
+
+  @IsNumber({}, { message: 'amount must be a valid number' })
+  @Min(0.01, { message: 'amount must be positive' })
+  amount: number; // dollars, or percent of the subtotal
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+}
+
+export class UpdateProposalCreditDto extends PartialType(
+  CreateProposalCreditDto,
+) {}
+
+export class ReviewCreditDto {
+  @IsEnum(['approve', 'reject'])
+  action!: 'approve' | 'reject';
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string; // required when rejecting
+}
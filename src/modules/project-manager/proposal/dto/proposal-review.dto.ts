@@ -0,0 +1,18 @@
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class SubmitReviewDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+}
+
+export class ReviewDecisionDto {
+  @IsEnum(['approve', 'request_changes'])
+  action!: 'approve' | 'request_changes';
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string; // required when requesting changes
+}
@@ -1,6 +1,11 @@
-import { IsString } from 'class-validator';
+import { IsNotEmpty, IsString } from 'class-validator';
 
 export class ProposalSignatureDto {
   @IsString() type: 'owner' | 'architect';
   @IsString() signature: string; // e.g., base64 image or text
-}
\ No newline at end of file
+}
+
+// Signing through a public link is always the owner's signature
+export class LinkSignatureDto {
+  @IsString() @IsNotEmpty() signature: string;
+}
@@ -0,0 +1,8 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class ReviseProposalDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  reason?: string; // shown to the client in the "version void" email
+}
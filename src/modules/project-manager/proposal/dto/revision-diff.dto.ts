@@ -0,0 +1,14 @@
+import { IsInt, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class RevisionDiffQueryDto {
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  from: number;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  to: number;
+}
@@ -0,0 +1,7 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class SendProposalDto {
+  @IsOptional()
+  @IsBoolean()
+  attachPdf?: boolean; // attach the rendered contract to the client email
+}
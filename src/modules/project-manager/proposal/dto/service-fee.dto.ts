@@ -0,0 +1,47 @@
+import {
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { FeeModel } from '@prisma/client';
+
+// Inputs each fee model needs are checked against the proposal in ProposalFeeService
+export class ServiceFeeDto {
+  @IsOptional()
+  @IsEnum(FeeModel)
+  feeModel?: FeeModel; // defaults to FIXED on new services
+
+  @IsOptional()
+  @IsNumber({}, { message: 'rate must be a valid number' })
+  @Min(0)
+  rate?: number; // unit, hourly or per-square-foot rate
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  quantity?: number;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'feePercent must be a valid number' })
+  @Min(0)
+  @Max(100)
+  feePercent?: number;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'estimatedHours must be a valid number' })
+  @Min(0)
+  estimatedHours?: number;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'feeCap must be a valid number' })
+  @Min(0)
+  feeCap?: number; // not-to-exceed for hourly fees
+
+  @IsOptional()
+  @IsString()
+  unit?: string;
+}
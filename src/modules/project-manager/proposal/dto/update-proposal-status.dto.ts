@@ -1,6 +1,14 @@
 
-import { IsEnum, IsNumber, IsOptional, IsString, Min } from 'class-validator';
+import {
+  IsBoolean,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
 import { ProposalStatus } from '@prisma/client';
+import { ServiceFeeDto } from './service-fee.dto';
 
 export class UpdateProposalStatusDto {
   @IsEnum(ProposalStatus)
@@ -11,7 +19,7 @@ export class UpdateProposalStatusDto {
   notes?: string;
 }
 
-export class UpdateProposalServiceDto {
+export class UpdateProposalServiceDto extends ServiceFeeDto {
   @IsOptional()
   @IsString()
   name?: string;
@@ -23,12 +31,15 @@ export class UpdateProposalServiceDto {
   @IsOptional()
   @IsNumber()
   @Min(0)
-  cost?: number;
+  cost?: number; // FIXED fee amount
 
   @IsOptional()
-  @IsNumber()
-  @Min(1)
-  quantity?: number;
+  @IsBoolean()
+  optional?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  selected?: boolean;
 
   @IsOptional()
   @IsNumber()
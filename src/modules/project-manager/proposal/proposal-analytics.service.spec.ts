@@ -0,0 +1,142 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Prisma, ProposalStatus, User, UserRole } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { ProposalAnalyticsService } from './proposal-analytics.service';
+
+describe('ProposalAnalyticsService', () => {
+  let service: ProposalAnalyticsService;
+  let proposals: unknown[];
+
+  const manager = {
+    id: 'pm-1',
+    email: 'pm@example.com',
+    role: UserRole.PROJECT_MANAGER,
+  } as User;
+
+  const prisma = {
+    proposal: {
+      findMany: jest.fn<Promise<unknown[]>, [Prisma.ProposalFindManyArgs]>(() =>
+        Promise.resolve(proposals),
+      ),
+    },
+  };
+
+  const sent = (
+    id: string,
+    status: ProposalStatus,
+    overrides: Record<string, unknown> = {},
+  ) => ({
+    id,
+    status,
+    sentAt: new Date('2026-05-01T00:00:00Z'),
+    viewedAt: null,
+    respondedAt: null,
+    totalAmount: new Prisma.Decimal(1000),
+    serviceType: 'RENOVATION',
+    projectCategory: null,
+    createdById: manager.id,
+    createdBy: { id: manager.id, name: 'Pat', email: manager.email },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    proposals = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProposalAnalyticsService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get(ProposalAnalyticsService);
+  });
+
+  it('is limited to staff', async () => {
+    await expect(
+      service.getAnalytics({ ...manager, role: UserRole.USER }, {}),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('refuses a range that ends before it starts', async () => {
+    await expect(
+      service.getAnalytics(manager, { from: '2026-05-02', to: '2026-05-01' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('includes the whole of a date-only end day', async () => {
+    await service.getAnalytics(manager, {
+      from: '2026-05-01',
+      to: '2026-05-01',
+    });
+
+    const [query] = prisma.proposal.findMany.mock.calls[0];
+    expect(query.where?.sentAt).toEqual({
+      not: null,
+      gte: new Date('2026-05-01T00:00:00Z'),
+      lt: new Date('2026-05-02T00:00:00Z'),
+    });
+  });
+
+  it('keeps an exact end time as given', async () => {
+    await service.getAnalytics(manager, { to: '2026-05-01T12:00:00Z' });
+
+    const [query] = prisma.proposal.findMany.mock.calls[0];
+    expect(query.where?.sentAt).toMatchObject({
+      lte: new Date('2026-05-01T12:00:00Z'),
+    });
+  });
+
+  it('counts a signed or declined proposal as viewed', async () => {
+    proposals = [
+      sent('open', ProposalStatus.SENT),
+      sent('viewed', ProposalStatus.VIEWED, {
+        viewedAt: new Date('2026-05-01T02:00:00Z'),
+      }),
+      sent('won', ProposalStatus.ACCEPTED, {
+        respondedAt: new Date('2026-06-03T00:00:00Z'),
+      }),
+      sent('lost', ProposalStatus.REJECTED),
+    ];
+
+    const { data } = await service.getAnalytics(manager, {});
+
+    expect(data.funnel).toMatchObject({
+      sent: 4,
+      viewed: 3,
+      accepted: 1,
+      rejected: 1,
+      open: 2,
+      rates: { sentToViewed: 75, viewedToAccepted: 33.3 },
+    });
+    expect(data.timing.medianHoursToView).toBe(2);
+  });
+
+  it('counts expired proposals as lost and leaves open ones out', async () => {
+    proposals = [
+      sent('open', ProposalStatus.VIEWED),
+      sent('won', ProposalStatus.ACCEPTED, {
+        respondedAt: new Date('2026-05-20T00:00:00Z'),
+        totalAmount: new Prisma.Decimal(2500),
+      }),
+      sent('expired', ProposalStatus.EXPIRED),
+    ];
+
+    const { data } = await service.getAnalytics(manager, {});
+
+    expect(data.byManager).toEqual([
+      expect.objectContaining({
+        sent: 3,
+        accepted: 1,
+        lost: 1,
+        winRate: 50,
+        acceptedValue: 2500,
+      }),
+    ]);
+    expect(data.acceptedValueByMonth).toEqual([
+      { month: '2026-05', count: 1, value: 2500 },
+    ]);
+  });
+});
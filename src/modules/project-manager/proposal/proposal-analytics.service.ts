@@ -0,0 +1,229 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import {
+  Prisma,
+  ProposalStatus,
+  ProposalType,
+  User,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { ProposalAnalyticsQueryDto } from './dto/proposal-analytics.dto';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const FUNNEL_SELECT = {
+  id: true,
+  status: true,
+  sentAt: true,
+  viewedAt: true,
+  respondedAt: true,
+  totalAmount: true,
+  serviceType: true,
+  projectCategory: true,
+  createdById: true,
+  createdBy: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.ProposalSelect;
+
+type FunnelRow = Prisma.ProposalGetPayload<{ select: typeof FUNNEL_SELECT }>;
+
+/**
+ * Sales funnel over proposals sent in a date range: how many were opened,
+ * signed or lost, how fast, and who and what wins. Only the current version
+ * of each proposal counts, since revising clears its sent/viewed dates.
+ */
+@Injectable()
+export class ProposalAnalyticsService {
+  private readonly ANALYTICS_ROLES = new Set<UserRole>([
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.PROJECT_MANAGER,
+    UserRole.HIGHER_MANAGER,
+  ]);
+
+  constructor(private prisma: PrismaService) {}
+
+  async getAnalytics(user: User, query: ProposalAnalyticsQueryDto) {
+    if (!this.ANALYTICS_ROLES.has(user.role)) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    const from = query.from ? new Date(query.from) : undefined;
+    const to = query.to ? new Date(query.to) : undefined;
+
+    if (from && to && from > to) {
+      throw new BadRequestException('"from" must be before "to"');
+    }
+
+    // A bare date for "to" covers the whole of that day
+    const before =
+      to && query.to && DATE_ONLY.test(query.to)
+        ? new Date(to.getTime() + DAY_MS)
+        : undefined;
+
+    // Amendments are change orders on won work, not new sales
+    const proposals = await this.prisma.proposal.findMany({
+      where: {
+        proposalType: ProposalType.NORMAL,
+        sentAt: {
+          not: null,
+          gte: from,
+          ...(before ? { lt: before } : { lte: to }),
+        },
+      },
+      select: FUNNEL_SELECT,
+    });
+
+    const byManager = new Map<string, FunnelRow[]>();
+    for (const proposal of proposals) {
+      const rows = byManager.get(proposal.createdById) ?? [];
+      rows.push(proposal);
+      byManager.set(proposal.createdById, rows);
+    }
+
+    return {
+      success: true,
+      message: 'Successfully retrieved proposal analytics',
+      data: {
+        range: { from: from ?? null, to: to ?? null },
+        funnel: this.funnel(proposals),
+        timing: {
+          medianHoursToView: this.medianHours(
+            proposals.map((p) => [p.sentAt, p.viewedAt]),
+          ),
+          medianHoursToSign: this.medianHours(
+            proposals
+              .filter((p) => p.status === ProposalStatus.ACCEPTED)
+              .map((p) => [p.sentAt, p.respondedAt]),
+          ),
+        },
+        byManager: [...byManager.values()].map((rows) => ({
+          manager: rows[0].createdBy,
+          ...this.outcomes(rows),
+        })),
+        byServiceType: this.groupOutcomes(proposals, (p) => p.serviceType),
+        byProjectCategory: this.groupOutcomes(
+          proposals,
+          (p) => p.projectCategory,
+        ),
+        acceptedValueByMonth: this.acceptedByMonth(proposals),
+      },
+    };
+  }
+
+  private funnel(rows: FunnelRow[]) {
+    const sent = rows.length;
+    // Signing or declining means the client opened it
+    const viewed = rows.filter(
+      (p) =>
+        p.viewedAt ||
+        p.status === ProposalStatus.ACCEPTED ||
+        p.status === ProposalStatus.REJECTED,
+    ).length;
+    const accepted = this.count(rows, ProposalStatus.ACCEPTED);
+    const rejected = this.count(rows, ProposalStatus.REJECTED);
+
+    return {
+      sent,
+      viewed,
+      accepted,
+      rejected,
+      expired: this.count(rows, ProposalStatus.EXPIRED),
+      open:
+        sent - accepted - rejected - this.count(rows, ProposalStatus.EXPIRED),
+      rates: {
+        sentToViewed: this.rate(viewed, sent),
+        viewedToAccepted: this.rate(accepted, viewed),
+        viewedToRejected: this.rate(rejected, viewed),
+        sentToAccepted: this.rate(accepted, sent),
+      },
+    };
+  }
+
+  /** Win rate counts expired proposals as lost; open ones are left out */
+  private outcomes(rows: FunnelRow[]) {
+    const accepted = rows.filter((p) => p.status === ProposalStatus.ACCEPTED);
+    const lost =
+      this.count(rows, ProposalStatus.REJECTED) +
+      this.count(rows, ProposalStatus.EXPIRED);
+
+    return {
+      sent: rows.length,
+      accepted: accepted.length,
+      lost,
+      winRate: this.rate(accepted.length, accepted.length + lost),
+      acceptedValue: this.total(accepted),
+    };
+  }
+
+  private groupOutcomes(
+    rows: FunnelRow[],
+    key: (row: FunnelRow) => string | null,
+  ) {
+    const groups = new Map<string | null, FunnelRow[]>();
+    for (const row of rows) {
+      const group = groups.get(key(row)) ?? [];
+      group.push(row);
+      groups.set(key(row), group);
+    }
+
+    return [...groups.entries()].map(([value, group]) => ({
+      value,
+      ...this.outcomes(group),
+    }));
+  }
+
+  /** Signed value per calendar month (UTC) of signing */
+  private acceptedByMonth(rows: FunnelRow[]) {
+    const months = new Map<string, FunnelRow[]>();
+    for (const row of rows) {
+      if (row.status !== ProposalStatus.ACCEPTED || !row.respondedAt) continue;
+      const month = row.respondedAt.toISOString().slice(0, 7);
+      months.set(month, [...(months.get(month) ?? []), row]);
+    }
+
+    return [...months.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, accepted]) => ({
+        month,
+        count: accepted.length,
+        value: this.total(accepted),
+      }));
+  }
+
+  private medianHours(pairs: [Date | null, Date | null][]) {
+    const hours = pairs
+      .filter((pair): pair is [Date, Date] => !!pair[0] && !!pair[1])
+      .map(([start, end]) => (end.getTime() - start.getTime()) / HOUR_MS)
+      .sort((a, b) => a - b);
+
+    if (hours.length === 0) return null;
+
+    const middle = Math.floor(hours.length / 2);
+    const median =
+      hours.length % 2
+        ? hours[middle]
+        : (hours[middle - 1] + hours[middle]) / 2;
+    return Math.round(median * 10) / 10;
+  }
+
+  private count(rows: FunnelRow[], status: ProposalStatus) {
+    return rows.filter((p) => p.status === status).length;
+  }
+
+  /** Percentage with one decimal; null when there is nothing to divide by */
+  private rate(part: number, whole: number) {
+    return whole > 0 ? Math.round((part / whole) * 1000) / 10 : null;
+  }
+
+  private total(rows: FunnelRow[]) {
+    return rows
+      .reduce((sum, p) => sum.plus(p.totalAmount), new Prisma.Decimal(0))
+      .toNumber();
+  }
+}
@@ -0,0 +1,235 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CronExpression, SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { Proposal, ProposalStatus } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { MailerService } from 'src/utils/email/email.service';
+import { NotificationsService } from 'src/modules/notifications/notifications.service';
+import { NotificationType } from 'src/modules/notifications/notification-type.constant';
+import { RealtimeService } from 'src/modules/realtime/realtime.service';
+import { RealtimeEvent } from 'src/modules/realtime/realtime-event.constant';
+import { ProposalLinkService } from './proposal-link.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Proposals out with the client that can still run out
+const OPEN_STATUSES: ProposalStatus[] = [
+  ProposalStatus.SENT,
+  ProposalStatus.VIEWED,
+];
+
+/**
+ * Periodically reminds clients of proposals about to expire and expires the
+ * ones past `expiresAt`. Every change is claimed with a conditional update,
+ * so several app instances running the job never double-send.
+ */
+@Injectable()
+export class ProposalExpiryService implements OnModuleInit {
+  private readonly logger = new Logger(ProposalExpiryService.name);
+  private running = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+    private scheduler: SchedulerRegistry,
+    private mailer: MailerService,
+    private notifications: NotificationsService,
+    private realtime: RealtimeService,
+    private links: ProposalLinkService,
+  ) {}
+
+  onModuleInit() {
+    const schedule = this.config.get<string>(
+      'PROPOSAL_EXPIRY_CRON',
+      CronExpression.EVERY_HOUR,
+    );
+    const job = CronJob.from({
+      cronTime: schedule,
+      onTick: () => this.run(),
+    });
+
+    this.scheduler.addCronJob('proposal-expiry', job);
+    job.start();
+    this.logger.log(`Proposal expiry job scheduled (${schedule})`);
+  }
+
+  async run() {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.sendReminders();
+      await this.expireOverdue();
+    } catch (error) {
+      this.logger.error('Proposal expiry run failed', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /** Thresholds from PROPOSAL_EXPIRY_REMINDER_DAYS, largest first */
+  private reminderDays(): number[] {
+    return this.config
+      .get<string>('PROPOSAL_EXPIRY_REMINDER_DAYS', '7,1')
+      .split(',')
+      .map((value) => parseInt(value.trim(), 10))
+      .filter((days) => days > 0)
+      .sort((a, b) => b - a);
+  }
+
+  private async sendReminders() {
+    const thresholds = this.reminderDays();
+    if (thresholds.length === 0) return;
+
+    const now = new Date();
+    const candidates = await this.prisma.proposal.findMany({
+      where: {
+        status: { in: OPEN_STATUSES },
+        expiresAt: {
+          gt: now,
+          lte: new Date(now.getTime() + thresholds[0] * DAY_MS),
+        },
+      },
+    });
+
+    for (const proposal of candidates) {
+      const daysLeft = Math.ceil(
+        (proposal.expiresAt!.getTime() - now.getTime()) / DAY_MS,
+      );
+      // The tightest threshold reached; earlier ones are skipped, not stacked
+      const threshold = thresholds.filter((days) => daysLeft <= days).pop();
+
+      if (
+        threshold === undefined ||
+        (proposal.expiryReminderDays !== null &&
+          proposal.expiryReminderDays <= threshold)
+      ) {
+        continue;
+      }
+
+      const { count } = await this.prisma.proposal.updateMany({
+        where: {
+          id: proposal.id,
+          expiryReminderDays: proposal.expiryReminderDays,
+        },
+        data: { expiryReminderDays: threshold },
+      });
+      if (count === 0) continue;
+
+      await this.remind(proposal, daysLeft);
+    }
+  }
+
+  private async remind(proposal: Proposal, daysLeft: number) {
+    const { url: proposalUrl } = await this.links.reissue(proposal.id);
+    const when = daysLeft === 1 ? 'tomorrow' : `in ${daysLeft} days`;
+    const expiresOn = this.formatDate(proposal.expiresAt!);
+
+    await this.mailer.queueMail({
+      to: proposal.clientEmail,
+      subject: `Reminder: Proposal ${proposal.proposalNumber} expires ${when}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #d97706;">Your Proposal Expires Soon</h2>
+          <p>Dear ${proposal.clientName || 'Client'},</p>
+          <p>Our proposal for "<strong>${proposal.projectName}</strong>" is valid until <strong>${expiresOn}</strong>.</p>
+          <p>Please review and sign it before then, or let us know if you have any questions.</p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${proposalUrl}"
+               style="background: #2563eb; color: white; padding: 12px 24px;
+                      text-decoration: none; border-radius: 6px; display: inline-block;">
+              Review Proposal
+            </a>
+          </div>
+
+          <p>Best regards,<br>Your Architecture Team</p>
+        </div>
+      `,
+      text: `Proposal ${proposal.proposalNumber} for "${proposal.projectName}" expires ${when} (${expiresOn}).\nReview it: ${proposalUrl}`,
+    });
+
+    await this.notifications.notifyUser(proposal.userId, {
+      type: NotificationType.PROPOSAL_EXPIRING,
+      title: 'Proposal expires soon',
+      message: `Proposal ${proposal.proposalNumber} for "${proposal.projectName}" expires ${when}.`,
+      link: `/proposals/${proposal.id}`,
+    });
+
+    this.logger.log(
+      `Expiry reminder sent for ${proposal.proposalNumber} (${daysLeft} day(s) left)`,
+    );
+  }
+
+  private async expireOverdue() {
+    const overdue = await this.prisma.proposal.findMany({
+      where: { status: { in: OPEN_STATUSES }, expiresAt: { lte: new Date() } },
+      include: { createdBy: { select: { email: true, name: true } } },
+    });
+
+    for (const proposal of overdue) {
+      const { count } = await this.prisma.proposal.updateMany({
+        where: { id: proposal.id, status: proposal.status },
+        data: { status: ProposalStatus.EXPIRED },
+      });
+      if (count === 0) continue;
+
+      const frontendUrl = this.config.get<string>(
+        'FRONTEND_URL',
+        'http://localhost:3000',
+      );
+
+      await this.mailer.queueMail({
+        to: proposal.createdBy.email,
+        subject: `Proposal Expired: ${proposal.projectName}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #dc2626;">Proposal Expired</h2>
+            <p>Hello ${proposal.createdBy.name || 'Team Member'},</p>
+            <p>Proposal <strong>${proposal.proposalNumber}</strong> for ${proposal.clientName} (${proposal.projectName}) expired unsigned on ${this.formatDate(proposal.expiresAt!)}.</p>
+            <p>You can extend its expiry date or revise and resend it.</p>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${frontendUrl}/admin/proposals/${proposal.id}"
+                 style="background: #2563eb; color: white; padding: 12px 24px;
+                        text-decoration: none; border-radius: 6px; display: inline-block;">
+                View Proposal
+              </a>
+            </div>
+          </div>
+        `,
+        text: `Proposal ${proposal.proposalNumber} for ${proposal.clientName} expired unsigned.\nView: ${frontendUrl}/admin/proposals/${proposal.id}`,
+      });
+
+      await this.notifications.notifyUser(proposal.createdById, {
+        type: NotificationType.PROPOSAL_EXPIRED,
+        title: 'Proposal expired',
+        message: `Proposal ${proposal.proposalNumber} for ${proposal.clientName} expired unsigned.`,
+        link: `/admin/proposals/${proposal.id}`,
+      });
+
+      this.realtime.publish(
+        { userIds: [proposal.userId, proposal.createdById] },
+        RealtimeEvent.PROPOSAL_STATUS_CHANGED,
+        {
+          proposalId: proposal.id,
+          proposalNumber: proposal.proposalNumber,
+          previousStatus: proposal.status,
+          status: ProposalStatus.EXPIRED,
+          updatedAt: new Date(),
+        },
+      );
+
+      this.logger.log(`Proposal ${proposal.proposalNumber} expired`);
+    }
+  }
+
+  private formatDate(date: Date) {
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  }
+}
@@ -0,0 +1,158 @@
+// src/modules/project-manager/proposal/proposal-fee.service.ts
+import { BadRequestException, Injectable } from '@nestjs/common';
+import {
+  FeeModel,
+  Prisma,
+  Proposal,
+  ProposalService as ProposalServiceRow,
+} from '@prisma/client';
+import { ServiceFeeDto } from './dto/service-fee.dto';
+
+type FeeBasis = Pick<Proposal, 'estimatedConstructionCost' | 'squareFootage'>;
+
+type FeeInputs = Pick<
+  ProposalServiceRow,
+  | 'feeModel'
+  | 'rate'
+  | 'quantity'
+  | 'feePercent'
+  | 'estimatedHours'
+  | 'feeCap'
+  | 'amount'
+>;
+
+// Columns a fee model reads besides `amount`; the rest are cleared
+const MODEL_INPUTS: Record<FeeModel, (keyof FeeInputs)[]> = {
+  [FeeModel.FIXED]: ['rate', 'quantity'],
+  [FeeModel.RATE_QUANTITY]: ['rate', 'quantity'],
+  [FeeModel.PERCENT_OF_CONSTRUCTION]: ['feePercent'],
+  [FeeModel.HOURLY_NOT_TO_EXCEED]: ['rate', 'estimatedHours', 'feeCap'],
+  [FeeModel.PER_SQUARE_FOOT]: ['rate'],
+};
+
+/**
+ * Prices proposal service lines. Fixed fees are taken as entered; every
+ * other model derives the amount from its inputs and, for percentage and
+ * per-square-foot fees, from the proposal's construction cost or size.
+ */
+@Injectable()
+export class ProposalFeeService {
+  /** Parses "2,400 sq ft" style values; null when there is no number */
+  squareFeet(value?: string | null): number | null {
+    const match = value?.replace(/,/g, '').match(/\d+(\.\d+)?/);
+    return match ? parseFloat(match[0]) : null;
+  }
+
+  /** Current amount of a line, given the proposal it belongs to */
+  amountFor(service: FeeInputs, basis: FeeBasis): Prisma.Decimal {
+    const rate = new Prisma.Decimal(service.rate ?? 0);
+
+    switch (service.feeModel) {
+      case FeeModel.RATE_QUANTITY:
+        return rate.mul(service.quantity).toDecimalPlaces(2);
+
+      case FeeModel.PERCENT_OF_CONSTRUCTION:
+        return new Prisma.Decimal(basis.estimatedConstructionCost ?? 0)
+          .mul(service.feePercent ?? 0)
+          .div(100)
+          .toDecimalPlaces(2);
+
+      case FeeModel.HOURLY_NOT_TO_EXCEED: {
+        const estimate = rate.mul(service.estimatedHours ?? 0);
+        const cap = service.feeCap ?? estimate;
+        return Prisma.Decimal.min(estimate, cap).toDecimalPlaces(2);
+      }
+
+      case FeeModel.PER_SQUARE_FOOT:
+        return rate
+          .mul(this.squareFeet(basis.squareFootage) ?? 0)
+          .toDecimalPlaces(2);
+
+      default:
+        return new Prisma.Decimal(service.amount);
+    }
+  }
+
+  /**
+   * Pricing columns for a new or edited line. Inputs missing from the DTO
+   * fall back to the existing line, then each model's required inputs are
+   * checked.
+   */
+  resolve(
+    dto: ServiceFeeDto & { cost?: number },
+    basis: FeeBasis,
+    existing?: FeeInputs,
+  ) {
+    const feeModel = dto.feeModel ?? existing?.feeModel ?? FeeModel.FIXED;
+    const used = MODEL_INPUTS[feeModel];
+    const input = (
+      key: 'rate' | 'feePercent' | 'estimatedHours' | 'feeCap',
+      value: number | undefined,
+    ) => {
+      if (!used.includes(key)) return null;
+      if (value !== undefined) return new Prisma.Decimal(value);
+      return existing?.[key] ?? null;
+    };
+
+    const fixedFee = dto.cost ?? existing?.amount;
+    if (feeModel === FeeModel.FIXED && fixedFee === undefined) {
+      throw new BadRequestException('cost is required for FIXED fees');
+    }
+
+    const inputs: FeeInputs = {
+      feeModel,
+      rate: input('rate', dto.rate),
+      quantity: dto.quantity ?? existing?.quantity ?? 1,
+      feePercent: input('feePercent', dto.feePercent),
+      estimatedHours: input('estimatedHours', dto.estimatedHours),
+      feeCap: input('feeCap', dto.feeCap),
+      amount: new Prisma.Decimal(fixedFee ?? 0),
+    };
+
+    // Fixed fees have always shown the fee as the rate
+    if (feeModel === FeeModel.FIXED && dto.cost !== undefined) {
+      inputs.rate = inputs.amount;
+    }
+
+    this.assertInputs(inputs, basis);
+
+    return { ...inputs, amount: this.amountFor(inputs, basis) };
+  }
+
+  private assertInputs(inputs: FeeInputs, basis: FeeBasis) {
+    const missing = (field: string) =>
+      new BadRequestException(
+        `${field} is required for ${inputs.feeModel} fees`,
+      );
+
+    switch (inputs.feeModel) {
+      case FeeModel.RATE_QUANTITY:
+        if (inputs.rate === null) throw missing('rate');
+        break;
+
+      case FeeModel.PERCENT_OF_CONSTRUCTION:
+        if (inputs.feePercent === null) throw missing('feePercent');
+        if (basis.estimatedConstructionCost === null) {
+          throw new BadRequestException(
+            'Set the estimated construction cost on the proposal before adding percentage fees',
+          );
+        }
+        break;
+
+      case FeeModel.HOURLY_NOT_TO_EXCEED:
+        if (inputs.rate === null) throw missing('rate');
+        if (inputs.estimatedHours === null) throw missing('estimatedHours');
+        if (inputs.feeCap === null) throw missing('feeCap');
+        break;
+
+      case FeeModel.PER_SQUARE_FOOT:
+        if (inputs.rate === null) throw missing('rate');
+        if (this.squareFeet(basis.squareFootage) === null) {
+          throw new BadRequestException(
+            'Set the square footage on the proposal before adding per-square-foot fees',
+          );
+        }
+        break;
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Delete,
+  Param,
+  UseGuards,
+  Ip,
+  Headers,
+  Res,
+  StreamableFile,
+} from '@nestjs/common';
+import express from 'express';
+import { ProposalAccessAction } from '@prisma/client';
+import { ProposalLinkService } from './proposal-link.service';
+import { ProposalService } from './proposal.service';
+import { LinkSignatureDto } from './dto/proposal-signature.dto';
+import { ServiceSelectionDto } from './dto/service-selection.dto';
+import { PaymentService } from 'src/modules/finance/payment.service';
+import { CreateCheckoutDto } from 'src/modules/finance/dto/payment.dto';
+import { JwtAuthGuard } from 'src/common/guards/auth.guard';
+import { RolesGuard } from 'src/common/guards/roles.guard';
+import { Roles } from 'src/common/decorators/roles.decorator';
+import { Public } from 'src/common/decorators/public.decorator';
+import { CurrentUser } from 'src/common/decorators/current-user.decorator';
+import * as client from '@prisma/client';
+
+@Controller('proposals')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ProposalLinkController {
+  constructor(
+    private readonly linkService: ProposalLinkService,
+    private readonly proposalService: ProposalService,
+    private readonly paymentService: PaymentService,
+  ) {}
+
+  // ============ Public (token) Endpoints ============
+
+  @Public()
+  @Get('shared/:token')
+  view(
+    @Param('token') token: string,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.linkService.view(token, { ipAddress, userAgent });
+  }
+
+  @Public()
+  @Get('shared/:token/pdf')
+  async downloadPdf(
+    @Param('token') token: string,
+    @Ip() ipAddress: string,
+    @Res({ passthrough: true }) res: express.Response,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    const { fileName, buffer } = await this.linkService.generatePdf(token, {
+      ipAddress,
+      userAgent,
+    });
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+    });
+
+    return new StreamableFile(buffer);
+  }
+
+  @Public()
+  @Post('shared/:token/sign')
+  async sign(
+    @Param('token') token: string,
+    @Body() dto: LinkSignatureDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    const context = { ipAddress, userAgent };
+    const link = await this.linkService.authorize(token);
+    const signed = await this.proposalService.signAsOwnerViaLink(
+      link.proposalId,
+      dto.signature,
+      context,
+    );
+    await this.linkService.recordAccess(
+      link,
+      ProposalAccessAction.SIGN,
+      context,
+    );
+    return signed;
+  }
+
+  @Public()
+  @Patch('shared/:token/services/:serviceId/selection')
+  async selectService(
+    @Param('token') token: string,
+    @Param('serviceId') serviceId: string,
+    @Body() dto: ServiceSelectionDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    const link = await this.linkService.authorize(token);
+    const result = await this.proposalService.selectServiceViaLink(
+      link.proposalId,
+      serviceId,
+      dto.selected,
+    );
+    await this.linkService.recordAccess(
+      link,
+      ProposalAccessAction.SELECT_SERVICE,
+      { ipAddress, userAgent },
+    );
+    return result;
+  }
+
+  @Public()
+  @Post('shared/:token/checkout')
+  async checkout(
+    @Param('token') token: string,
+    @Body() dto: CreateCheckoutDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    const link = await this.linkService.authorize(token);
+    const checkout = await this.paymentService.createLinkCheckout(
+      link.proposalId,
+      dto,
+      token,
+    );
+    await this.linkService.recordAccess(link, ProposalAccessAction.CHECKOUT, {
+      ipAddress,
+      userAgent,
+    });
+    return checkout;
+  }
+
+  // ============ Staff Endpoints ============
+
+  @Get(':id/links')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+  )
+  findLinks(@Param('id') id: string, @CurrentUser() user: client.User) {
+    return this.linkService.findAll(id, user);
+  }
+
+  @Post(':id/links')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+  )
+  createLink(@Param('id') id: string, @CurrentUser() user: client.User) {
+    return this.linkService.create(id, user);
+  }
+
+  @Delete(':id/links/:linkId')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+  )
+  revokeLink(
+    @Param('id') id: string,
+    @Param('linkId') linkId: string,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.linkService.revoke(id, linkId, user);
+  }
+
+  @Get(':id/access-log')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+  )
+  findAccessLog(@Param('id') id: string, @CurrentUser() user: client.User) {
+    return this.linkService.findAccessLog(id, user);
+  }
+}
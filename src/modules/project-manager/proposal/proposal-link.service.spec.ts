@@ -0,0 +1,124 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, ProposalAccessAction, ProposalStatus } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { ProposalLinkService } from './proposal-link.service';
+import { ProposalPdfService } from './proposal-pdf.service';
+
+describe('ProposalLinkService', () => {
+  let service: ProposalLinkService;
+  let link: Record<string, unknown> | null;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const prisma = {
+    $transaction: jest.fn((operations: unknown[]) => Promise.all(operations)),
+    proposal: {
+      updateMany: jest.fn(() => Promise.resolve({ count: 1 })),
+      findUniqueOrThrow: jest.fn<
+        Promise<unknown>,
+        [Prisma.ProposalFindUniqueOrThrowArgs]
+      >(() => Promise.resolve({ id: 'proposal-1' })),
+    },
+    proposalAccessToken: {
+      create: jest.fn(({ data }: { data: Record<string, unknown> }) => {
+        link = {
+          ...data,
+          id: 'link-1',
+          revokedAt: null,
+          proposal: { status: ProposalStatus.SENT },
+        };
+        return Promise.resolve(link);
+      }),
+      findUnique: jest.fn(({ where }: { where: { tokenHash: string } }) =>
+        Promise.resolve(link?.tokenHash === where.tokenHash ? link : null),
+      ),
+      update: jest.fn(() => Promise.resolve({})),
+      updateMany: jest.fn<
+        Promise<{ count: number }>,
+        [Prisma.ProposalAccessTokenUpdateManyArgs]
+      >(() => Promise.resolve({ count: 1 })),
+    },
+    proposalAccessLog: { create: jest.fn(() => Promise.resolve({})) },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    link = null;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProposalLinkService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ProposalPdfService, useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback?: string) => fallback },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ProposalLinkService);
+  });
+
+  it('stores only a hash of the emailed token', async () => {
+    const { token, url } = await service.issue('proposal-1');
+
+    expect(url).toContain(token);
+    expect(link?.tokenHash).not.toBe(token);
+    await expect(service.authorize(token)).resolves.toBe(link);
+  });
+
+  it('revokes the last reminder link, not shared ones, on reissue', async () => {
+    await service.reissue('proposal-1');
+
+    const [{ where }] = prisma.proposalAccessToken.updateMany.mock.calls[0];
+    expect(where).toEqual({
+      proposalId: 'proposal-1',
+      createdById: null,
+      revokedAt: null,
+    });
+    expect(prisma.proposalAccessToken.create).toHaveBeenCalledTimes(1);
+    expect(link?.createdById).toBeUndefined();
+  });
+
+  it.each([
+    ['an unknown', () => 'not-a-token'],
+    ['a revoked', () => Object.assign(link!, { revokedAt: new Date() })],
+    [
+      'an expired',
+      () => Object.assign(link!, { expiresAt: new Date(Date.now() - DAY_MS) }),
+    ],
+    [
+      'a draft proposal',
+      () =>
+        Object.assign(link!, { proposal: { status: ProposalStatus.DRAFT } }),
+    ],
+  ])('refuses %s link', async (_case, tamper) => {
+    const { token } = await service.issue('proposal-1');
+    const result = tamper();
+
+    await expect(
+      service.authorize(typeof result === 'string' ? result : token),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('shows link holders the offer without internal fields', async () => {
+    const { token } = await service.issue('proposal-1');
+
+    await service.view(token, { ipAddress: '203.0.113.7' });
+
+    const [query] = prisma.proposal.findUniqueOrThrow.mock.calls[0];
+    expect(query.select).toBeDefined();
+    expect(query.select).not.toHaveProperty('notes');
+    expect(query.select).not.toHaveProperty('createdById');
+    expect(query.select).not.toHaveProperty('ownerSignature');
+    expect(prisma.proposalAccessLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: ProposalAccessAction.VIEW,
+        ipAddress: '203.0.113.7',
+      }) as unknown,
+    });
+  });
+});
@@ -0,0 +1,368 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Prisma,
+  ProposalAccessAction,
+  ProposalAccessToken,
+  ProposalStatus,
+  User,
+  UserRole,
+} from '@prisma/client';
+import * as crypto from 'crypto';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { ProposalPdfService } from './proposal-pdf.service';
+import { APPLIED_CREDIT } from 'src/modules/finance/finance.constants';
+
+export interface AccessContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Token columns safe to show staff; the hash never leaves the service
+const TOKEN_SELECT = {
+  id: true,
+  expiresAt: true,
+  revokedAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+  createdBy: { select: { id: true, name: true, email: true } },
+  _count: { select: { accessLogs: true } },
+} as const;
+
+// What a link holder may see: the offer itself, not internal notes, owners
+// or bookkeeping fields
+const CLIENT_PROPOSAL_SELECT = {
+  id: true,
+  proposalNumber: true,
+  version: true,
+  title: true,
+  subject: true,
+  clientName: true,
+  clientEmail: true,
+  clientPhone: true,
+  clientCompany: true,
+  projectName: true,
+  projectLocation: true,
+  projectDescription: true,
+  serviceType: true,
+  projectCategory: true,
+  squareFootage: true,
+  estimatedConstructionCost: true,
+  expectedTimeline: true,
+  status: true,
+  sentAt: true,
+  expiresAt: true,
+  subtotal: true,
+  taxRate: true,
+  taxAmount: true,
+  taxBreakdown: true,
+  totalAmount: true,
+  paymentMethod: true,
+  paymentTerms: true,
+  estimatedDuration: true,
+  contactInfo: true,
+  termsAndConditions: true,
+  ownerSignedAt: true,
+  ownerSignedBy: true,
+  architectSignedAt: true,
+  architectSignedBy: true,
+  services: {
+    orderBy: { order: 'asc' },
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      order: true,
+      timelineWeeks: true,
+      feeModel: true,
+      rate: true,
+      quantity: true,
+      unit: true,
+      feePercent: true,
+      estimatedHours: true,
+      feeCap: true,
+      amount: true,
+      optional: true,
+      selected: true,
+      active: true,
+      approvalStatus: true,
+    },
+  },
+  credits: {
+    where: APPLIED_CREDIT,
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, type: true, amount: true, description: true },
+  },
+} satisfies Prisma.ProposalSelect;
+
+/**
+ * Expiring, revocable links that let a client open and sign a proposal
+ * without an account. Only the sha256 of each emailed token is stored, and
+ * every use is logged with the caller's IP and user agent.
+ */
+@Injectable()
+export class ProposalLinkService {
+  private readonly logger = new Logger(ProposalLinkService.name);
+
+  private readonly MANAGER_ROLES = new Set<UserRole>([
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.PROJECT_MANAGER,
+  ]);
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+    private pdf: ProposalPdfService,
+  ) {}
+
+  private hashToken(token: string) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private assertManager(user: User) {
+    if (!this.MANAGER_ROLES.has(user.role)) {
+      throw new ForbiddenException('Access denied');
+    }
+  }
+
+  /** Creates a link; the raw token is only available in the return value */
+  async issue(proposalId: string, createdById?: string) {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const days = parseInt(
+      this.config.get<string>('PROPOSAL_LINK_EXPIRY_DAYS', '30'),
+      10,
+    );
+
+    const link = await this.prisma.proposalAccessToken.create({
+      data: {
+        proposalId,
+        tokenHash: this.hashToken(token),
+        expiresAt: new Date(Date.now() + days * DAY_MS),
+        createdById,
+      },
+    });
+
+    const frontendUrl = this.config.get<string>(
+      'FRONTEND_URL',
+      'http://localhost:3000',
+    );
+
+    return {
+      id: link.id,
+      token,
+      url: `${frontendUrl}/proposals/shared/${token}`,
+      expiresAt: link.expiresAt,
+    };
+  }
+
+  /**
+   * Link for an automated email. Only these are issued without a creator, so
+   * revoking those leaves the previous reminder's link dead while links a
+   * manager shared by hand keep working.
+   */
+  async reissue(proposalId: string) {
+    await this.prisma.proposalAccessToken.updateMany({
+      where: { proposalId, createdById: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return this.issue(proposalId);
+  }
+
+  /** Resolves a token to its link, rejecting unknown, revoked or expired ones */
+  async authorize(token: string) {
+    const link = await this.prisma.proposalAccessToken.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+      include: { proposal: { select: { status: true } } },
+    });
+
+    if (!link || link.revokedAt || link.expiresAt <= new Date()) {
+      throw new ForbiddenException(
+        'This proposal link is invalid, expired or has been revoked',
+      );
+    }
+
+    if (link.proposal.status === ProposalStatus.DRAFT) {
+      throw new ForbiddenException('This proposal is not available');
+    }
+
+    return link;
+  }
+
+  async recordAccess(
+    link: ProposalAccessToken,
+    action: ProposalAccessAction,
+    context: AccessContext,
+  ) {
+    const now = new Date();
+
+    await this.prisma.$transaction([
+      this.prisma.proposalAccessToken.update({
+        where: { id: link.id },
+        data: { lastUsedAt: now },
+      }),
+      this.prisma.proposalAccessLog.create({
+        data: {
+          proposalId: link.proposalId,
+          tokenId: link.id,
+          action,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          createdAt: now,
+        },
+      }),
+    ]);
+  }
+
+  async view(token: string, context: AccessContext) {
+    const link = await this.authorize(token);
+
+    // First open by the client; conditional so concurrent opens agree
+    await this.prisma.proposal.updateMany({
+      where: {
+        id: link.proposalId,
+        status: ProposalStatus.SENT,
+        viewedAt: null,
+      },
+      data: { status: ProposalStatus.VIEWED, viewedAt: new Date() },
+    });
+
+    const proposal = await this.prisma.proposal.findUniqueOrThrow({
+      where: { id: link.proposalId },
+      select: CLIENT_PROPOSAL_SELECT,
+    });
+
+    await this.recordAccess(link, ProposalAccessAction.VIEW, context);
+
+    return {
+      success: true,
+      message: 'Successfully retrieved proposal',
+      data: proposal,
+    };
+  }
+
+  async generatePdf(token: string, context: AccessContext) {
+    const link = await this.authorize(token);
+
+    const proposal = await this.prisma.proposal.findUniqueOrThrow({
+      where: { id: link.proposalId },
+      include: {
+        services: { orderBy: { order: 'asc' } },
+        credits: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    await this.recordAccess(link, ProposalAccessAction.DOWNLOAD_PDF, context);
+
+    return {
+      fileName: this.pdf.fileName(proposal),
+      buffer: await this.pdf.render(proposal),
+    };
+  }
+
+  async findAll(proposalId: string, user: User) {
+    this.assertManager(user);
+    await this.assertProposal(proposalId);
+
+    const links = await this.prisma.proposalAccessToken.findMany({
+      where: { proposalId },
+      select: TOKEN_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return {
+      success: true,
+      message: 'Successfully retrieved proposal links',
+      data: links,
+    };
+  }
+
+  async create(proposalId: string, user: User) {
+    this.assertManager(user);
+    const proposal = await this.assertProposal(proposalId);
+
+    if (proposal.status === ProposalStatus.DRAFT) {
+      throw new ForbiddenException('Send the proposal before sharing a link');
+    }
+
+    const link = await this.issue(proposalId, user.id);
+    this.logger.log(
+      `Proposal link ${link.id} issued for ${proposal.proposalNumber} by ${user.email}`,
+    );
+
+    return {
+      success: true,
+      message: 'Proposal link created',
+      data: link,
+    };
+  }
+
+  async revoke(proposalId: string, linkId: string, user: User) {
+    this.assertManager(user);
+
+    const link = await this.prisma.proposalAccessToken.findFirst({
+      where: { id: linkId, proposalId },
+    });
+
+    if (!link) {
+      throw new NotFoundException('Proposal link not found');
+    }
+
+    const revoked = await this.prisma.proposalAccessToken.update({
+      where: { id: linkId },
+      data: { revokedAt: link.revokedAt ?? new Date() },
+      select: TOKEN_SELECT,
+    });
+
+    return {
+      success: true,
+      message: 'Proposal link revoked',
+      data: revoked,
+    };
+  }
+
+  /** Invalidates every open link, e.g. when the sent version is voided */
+  async revokeAll(proposalId: string) {
+    const { count } = await this.prisma.proposalAccessToken.updateMany({
+      where: { proposalId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count;
+  }
+
+  async findAccessLog(proposalId: string, user: User) {
+    this.assertManager(user);
+    await this.assertProposal(proposalId);
+
+    const entries = await this.prisma.proposalAccessLog.findMany({
+      where: { proposalId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return {
+      success: true,
+      message: 'Successfully retrieved proposal access log',
+      data: entries,
+    };
+  }
+
+  private async assertProposal(id: string) {
+    const proposal = await this.prisma.proposal.findUnique({
+      where: { id },
+      select: { id: true, status: true, proposalNumber: true },
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    return proposal;
+  }
+}
@@ -0,0 +1,153 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  FeeModel,
+  Prisma,
+  ProposalStatus,
+  ServiceApprovalStatus,
+} from '@prisma/client';
+import PDFDocument from 'pdfkit';
+import { ProposalPdfData, ProposalPdfService } from './proposal-pdf.service';
+
+describe('ProposalPdfService', () => {
+  let pdf: ProposalPdfService;
+  let drawText: jest.SpyInstance;
+
+  // Left margin plus the Rate (labels) and Amount columns
+  const LABEL_X = 50 + 262;
+  const AMOUNT_X = 50 + 402;
+
+  const service = (
+    name: string,
+    amount: number,
+    overrides: Record<string, unknown> = {},
+  ) => ({
+    id: name,
+    name,
+    description: null,
+    rate: null,
+    quantity: 1,
+    unit: null,
+    amount: new Prisma.Decimal(amount),
+    feeModel: FeeModel.FIXED,
+    active: true,
+    optional: false,
+    selected: true,
+    approvalStatus: ServiceApprovalStatus.APPROVED,
+    ...overrides,
+  });
+
+  const credit = (
+    type: string,
+    amount: number,
+    approvalStatus: ServiceApprovalStatus | null = null,
+  ) => ({
+    type,
+    amount: new Prisma.Decimal(amount),
+    description: null,
+    approvalStatus,
+  });
+
+  const proposal = (credits: unknown[], taxAmount: number, total: number) =>
+    ({
+      proposalNumber: 'PROP-2026-0001',
+      version: 1,
+      status: ProposalStatus.SENT,
+      title: 'Lake House',
+      projectName: 'Lake House',
+      clientName: 'Dana Client',
+      clientEmail: 'dana@example.com',
+      createdAt: new Date('2026-10-01T00:00:00Z'),
+      sentAt: null,
+      expiresAt: null,
+      services: [
+        service('Design', 600),
+        service('Permits', 400),
+        service('Landscape plan', 200, { optional: true, selected: false }),
+        service('Site survey', 300, {
+          active: false,
+          approvalStatus: ServiceApprovalStatus.PENDING_APPROVAL,
+        }),
+        service('Interiors', 150, {
+          active: false,
+          approvalStatus: ServiceApprovalStatus.REJECTED,
+        }),
+      ],
+      credits,
+      subtotal: new Prisma.Decimal(1000),
+      taxRate: new Prisma.Decimal(10),
+      taxAmount: new Prisma.Decimal(taxAmount),
+      taxBreakdown: null,
+      totalAmount: new Prisma.Decimal(total),
+    }) as unknown as ProposalPdfData;
+
+  const money = (text: string) =>
+    /^-?\$[\d,]+\.\d{2}$/.test(text) ? Number(text.replace(/[$,]/g, '')) : null;
+
+  beforeEach(() => {
+    drawText = jest.spyOn(PDFDocument.prototype as PDFKit.PDFDocument, 'text');
+
+    pdf = new ProposalPdfService({
+      get: (_key: string, fallback?: string) => fallback,
+    } as unknown as ConfigService);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it.each([
+    [
+      'approved and unconditional credits only',
+      [
+        credit('DOLLAR_AMOUNT', 100),
+        credit('PERCENTAGE', 10, ServiceApprovalStatus.APPROVED),
+        credit('DOLLAR_AMOUNT', 250, ServiceApprovalStatus.PENDING_APPROVAL),
+        credit('PERCENTAGE', 50, ServiceApprovalStatus.REJECTED),
+      ],
+      80,
+      880,
+    ],
+    [
+      'credits capped at the subtotal',
+      [credit('DOLLAR_AMOUNT', 700), credit('PERCENTAGE', 50)],
+      0,
+      0,
+    ],
+  ])(
+    'prints lines that add up to the total with %s',
+    async (_case, credits, taxAmount, total) => {
+      await pdf.render(proposal(credits, taxAmount, total));
+
+      const printed = drawText.mock.calls
+        .map((call) => call as unknown[])
+        // text(value, x, y) calls, i.e. everything placed at a position
+        .filter(
+          (call): call is [string, number, number] =>
+            typeof call[0] === 'string' &&
+            typeof call[1] === 'number' &&
+            typeof call[2] === 'number',
+        )
+        .map(([value, x, y]) => ({ text: value, x, y }));
+
+      const labelAt = (y: number) =>
+        printed.find((entry) => entry.x === LABEL_X && entry.y === y)?.text;
+      const amounts = printed
+        .filter((entry) => entry.x === AMOUNT_X && money(entry.text) !== null)
+        .map((entry) => ({
+          label: labelAt(entry.y),
+          amount: money(entry.text)!,
+        }));
+
+      const lines = amounts.filter(
+        ({ label }) => label !== 'Subtotal' && label !== 'Total',
+      );
+      const sum = lines.reduce((acc, { amount }) => acc + amount, 0);
+
+      expect(amounts.find(({ label }) => label === 'Total')?.amount).toBe(
+        total,
+      );
+      expect(Math.round(sum * 100) / 100).toBe(total);
+      expect(
+        printed.filter((entry) => entry.text === 'Not included'),
+      ).toHaveLength(3);
+    },
+  );
+});
@@ -0,0 +1,736 @@
+// src/modules/project-manager/proposal/proposal-pdf.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  FeeModel,
+  Prisma,
+  Proposal,
+  ProposalSignatureEvent,
+  ServiceApprovalStatus,
+} from '@prisma/client';
+import PDFDocument from 'pdfkit';
+import type { TaxComponent } from 'src/modules/tax/tax.service';
+import { isApplied, isBillable } from 'src/modules/finance/finance.constants';
+
+export type ProposalPdfData = Prisma.ProposalGetPayload<{
+  include: { services: true; credits: true };
+}>;
+
+export interface SigningCertificateData {
+  proposal: Pick<
+    Proposal,
+    'proposalNumber' | 'title' | 'projectName' | 'clientName' | 'version'
+  >;
+  documentHash: string;
+  intact: boolean;
+  events: ProposalSignatureEvent[];
+}
+
+const COLORS = {
+  brand: '#1a365d',
+  text: '#1f2937',
+  muted: '#6b7280',
+  rule: '#e5e7eb',
+  band: '#f3f4f6',
+};
+
+// x offsets and widths of the services table, relative to the left margin
+const SERVICE_COLUMNS = [
+  { label: '#', x: 0, width: 24, align: 'left' },
+  { label: 'Service', x: 24, width: 238, align: 'left' },
+  { label: 'Rate', x: 262, width: 80, align: 'right' },
+  { label: 'Qty', x: 342, width: 60, align: 'right' },
+  { label: 'Amount', x: 402, width: 110, align: 'right' },
+] as const;
+
+/**
+ * Renders a proposal into a printable contract with pdfkit. Everything is
+ * drawn in-process with the built-in fonts, so no browser or network access
+ * is needed.
+ */
+@Injectable()
+export class ProposalPdfService {
+  private readonly logger = new Logger(ProposalPdfService.name);
+
+  constructor(private config: ConfigService) {}
+
+  async render(proposal: ProposalPdfData): Promise<Buffer> {
+    const { doc, done } = this.createDocument({
+      Title: `${proposal.proposalNumber} – ${proposal.title}`,
+      Author: this.getAppName(),
+      Subject: proposal.projectName,
+    });
+
+    this.drawHeader(doc, proposal);
+    this.drawParties(doc, proposal);
+    this.drawServices(doc, proposal);
+    this.drawTotals(doc, proposal);
+    this.drawPaymentTerms(doc, proposal);
+    this.drawTermsAndConditions(doc, proposal);
+    this.drawSignatures(doc, proposal);
+    this.drawFooters(doc, proposal);
+
+    doc.end();
+    const buffer = await done;
+
+    this.logger.log(
+      `Rendered PDF for proposal ${proposal.proposalNumber} (${buffer.length} bytes)`,
+    );
+
+    return buffer;
+  }
+
+  fileName(proposal: Pick<ProposalPdfData, 'proposalNumber'>) {
+    return `proposal-${proposal.proposalNumber}.pdf`;
+  }
+
+  /** One-page record of who signed what, when, from where */
+  async renderCertificate(data: SigningCertificateData): Promise<Buffer> {
+    const { proposal } = data;
+    const { doc, done } = this.createDocument({
+      Title: `Signing certificate – ${proposal.proposalNumber}`,
+      Author: this.getAppName(),
+      Subject: proposal.projectName,
+    });
+    const left = doc.page.margins.left;
+    const width = this.contentWidth(doc);
+
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(20)
+      .fillColor(COLORS.brand)
+      .text('Certificate of Completion', left, doc.y, { width });
+    doc
+      .font('Helvetica')
+      .fontSize(10)
+      .fillColor(COLORS.muted)
+      .text(
+        `${this.getAppName()} · Generated ${this.formatDateTime(new Date())}`,
+        { width },
+      );
+    this.drawRule(doc);
+
+    this.drawLabel(doc, 'DOCUMENT');
+    this.drawParagraph(
+      doc,
+      [
+        `${proposal.title} (${proposal.projectName})`,
+        `Proposal ${proposal.proposalNumber}, version ${proposal.version}`,
+        `Client: ${proposal.clientName}`,
+        `Content SHA-256: ${data.documentHash}`,
+        data.intact
+          ? 'Verification: content and signing log are unchanged since signing.'
+          : 'Verification: FAILED — the proposal or its signing log changed after signing.',
+      ].join('\n'),
+    );
+    this.drawRule(doc);
+
+    this.drawLabel(doc, 'SIGNING EVENTS');
+    for (const event of data.events) {
+      if (this.needsPageBreak(doc, 110)) doc.addPage();
+
+      doc
+        .font('Helvetica-Bold')
+        .fontSize(10)
+        .fillColor(COLORS.text)
+        .text(
+          `${event.signedAs === 'owner' ? 'Owner' : 'Architect'}: ${event.signerName} <${event.signerEmail}>`,
+          left,
+          doc.y,
+          { width },
+        );
+      doc
+        .font('Helvetica')
+        .fontSize(9)
+        .fillColor(COLORS.muted)
+        .text(
+          [
+            `Signed: ${this.formatDateTime(event.signedAt)} (version ${event.version})`,
+            `Authentication: ${event.authMethod === 'PUBLIC_LINK' ? 'Emailed proposal link' : 'Account login'}`,
+            `IP address: ${event.ipAddress ?? 'unknown'}`,
+            `User agent: ${event.userAgent ?? 'unknown'}`,
+            `Content SHA-256: ${event.documentHash}`,
+            `Event hash: ${event.eventHash}`,
+          ].join('\n'),
+          { width },
+        );
+      doc.moveDown();
+    }
+
+    doc.end();
+    const buffer = await done;
+
+    this.logger.log(
+      `Rendered signing certificate for proposal ${proposal.proposalNumber} (${buffer.length} bytes)`,
+    );
+
+    return buffer;
+  }
+
+  certificateFileName(proposal: Pick<Proposal, 'proposalNumber'>) {
+    return `signing-certificate-${proposal.proposalNumber}.pdf`;
+  }
+
+  // ============================================
+  // SECTIONS
+  // ============================================
+
+  private drawHeader(doc: PDFKit.PDFDocument, proposal: ProposalPdfData) {
+    const left = doc.page.margins.left;
+    const width = this.contentWidth(doc);
+    const top = doc.y;
+
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(20)
+      .fillColor(COLORS.brand)
+      .text(this.getAppName(), left, top, { width: width / 2 });
+
+    doc
+      .font('Helvetica')
+      .fontSize(9)
+      .fillColor(COLORS.muted)
+      .text(
+        [
+          `Proposal ${proposal.proposalNumber}`,
+          proposal.version > 1 ? `Version ${proposal.version}` : null,
+          `Date: ${this.formatDate(proposal.sentAt ?? proposal.createdAt)}`,
+          proposal.expiresAt
+            ? `Valid until: ${this.formatDate(proposal.expiresAt)}`
+            : null,
+          `Status: ${proposal.status}`,
+        ]
+          .filter(Boolean)
+          .join('\n'),
+        left + width / 2,
+        top,
+        { width: width / 2, align: 'right' },
+      );
+
+    doc.moveDown(2);
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(16)
+      .fillColor(COLORS.text)
+      .text(proposal.title, left, doc.y, { width });
+
+    if (proposal.subject) {
+      doc
+        .font('Helvetica')
+        .fontSize(11)
+        .fillColor(COLORS.muted)
+        .text(proposal.subject, { width });
+    }
+
+    this.drawRule(doc);
+  }
+
+  private drawParties(doc: PDFKit.PDFDocument, proposal: ProposalPdfData) {
+    const left = doc.page.margins.left;
+    const half = this.contentWidth(doc) / 2;
+    const top = doc.y;
+
+    this.drawLabel(doc, 'PREPARED FOR', left, top, half);
+    doc
+      .font('Helvetica')
+      .fontSize(10)
+      .fillColor(COLORS.text)
+      .text(
+        [
+          proposal.clientName,
+          proposal.clientCompany,
+          proposal.clientEmail,
+          proposal.clientPhone,
+        ]
+          .filter(Boolean)
+          .join('\n'),
+        { width: half - 10 },
+      );
+    const leftBottom = doc.y;
+
+    this.drawLabel(doc, 'PROJECT', left + half, top, half);
+    doc
+      .font('Helvetica')
+      .fontSize(10)
+      .fillColor(COLORS.text)
+      .text(
+        [
+          proposal.projectName,
+          proposal.projectLocation,
+          proposal.squareFootage ? `${proposal.squareFootage} sq ft` : null,
+          proposal.expectedTimeline
+            ? `Timeline: ${proposal.expectedTimeline}`
+            : null,
+        ]
+          .filter(Boolean)
+          .join('\n'),
+        { width: half },
+      );
+
+    doc.y = Math.max(leftBottom, doc.y);
+    doc.x = left;
+
+    if (proposal.projectDescription) {
+      doc.moveDown();
+      this.drawLabel(doc, 'SCOPE');
+      this.drawParagraph(doc, proposal.projectDescription);
+    }
+
+    this.drawRule(doc);
+  }
+
+  private drawServices(doc: PDFKit.PDFDocument, proposal: ProposalPdfData) {
+    this.drawLabel(doc, 'SERVICES');
+    this.drawServicesHeader(doc);
+
+    proposal.services.forEach((service, index) => {
+      const included = isBillable(service);
+      const details = [
+        service.description,
+        this.feeBasis(service, proposal),
+        included
+          ? service.optional && 'Optional add-on: selected'
+          : this.exclusionReason(service),
+      ]
+        .filter(Boolean)
+        .join('\n');
+      const nameHeight = doc
+        .font('Helvetica-Bold')
+        .fontSize(10)
+        .heightOfString(service.name, { width: SERVICE_COLUMNS[1].width });
+      const descriptionHeight = details
+        ? doc.font('Helvetica').fontSize(8).heightOfString(details, {
+            width: SERVICE_COLUMNS[1].width,
+          })
+        : 0;
+      const rowHeight = nameHeight + descriptionHeight + 8;
+
+      if (this.needsPageBreak(doc, rowHeight)) {
+        doc.addPage();
+        this.drawServicesHeader(doc);
+      }
+
+      const top = doc.y;
+      const rate = service.rate !== null ? this.formatMoney(service.rate) : '—';
+      const quantity = service.unit
+        ? `${service.quantity} ${service.unit}`
+        : String(service.quantity);
+
+      const cells = [
+        String(index + 1),
+        null, // name + description are drawn separately below
+        rate,
+        quantity,
+        included ? this.formatMoney(service.amount) : 'Not included',
+      ];
+
+      doc.font('Helvetica').fontSize(10).fillColor(COLORS.text);
+      SERVICE_COLUMNS.forEach((column, i) => {
+        const value = cells[i];
+        if (value === null) return;
+        doc.text(value, this.columnX(doc, column.x), top, {
+          width: column.width,
+          align: column.align,
+        });
+      });
+
+      doc
+        .font('Helvetica-Bold')
+        .fontSize(10)
+        .text(service.name, this.columnX(doc, SERVICE_COLUMNS[1].x), top, {
+          width: SERVICE_COLUMNS[1].width,
+        });
+      if (details) {
+        doc
+          .font('Helvetica')
+          .fontSize(8)
+          .fillColor(COLORS.muted)
+          .text(details, { width: SERVICE_COLUMNS[1].width });
+      }
+
+      doc.y = top + rowHeight;
+      doc
+        .moveTo(doc.page.margins.left, doc.y - 4)
+        .lineTo(doc.page.width - doc.page.margins.right, doc.y - 4)
+        .strokeColor(COLORS.rule)
+        .lineWidth(0.5)
+        .stroke();
+    });
+
+    doc.x = doc.page.margins.left;
+    doc.moveDown();
+  }
+
+  private drawTotals(doc: PDFKit.PDFDocument, proposal: ProposalPdfData) {
+    const subtotal = Number(proposal.subtotal);
+    const rows: [string, string][] = [['Subtotal', this.formatMoney(subtotal)]];
+
+    // Mirrors recalculateTotals: only applied credits count, percentages
+    // apply to the subtotal, and together they never exceed it
+    let remaining = subtotal;
+    for (const credit of proposal.credits.filter(isApplied)) {
+      const value =
+        credit.type === 'PERCENTAGE'
+          ? (subtotal * Number(credit.amount)) / 100
+          : Number(credit.amount);
+      const applied = Math.min(value, remaining);
+      remaining -= applied;
+      const label =
+        credit.type === 'PERCENTAGE'
+          ? `${credit.description || 'Credit'} (${Number(credit.amount)}%)`
+          : credit.description || 'Credit';
+      rows.push([label, `-${this.formatMoney(applied)}`]);
+    }
+
+    const taxComponents = proposal.taxBreakdown as TaxComponent[] | null;
+    if (taxComponents) {
+      for (const component of taxComponents) {
+        rows.push([
+          component.taxable
+            ? `${component.name} (${component.rate}%)`
+            : `${component.name} (exempt)`,
+          this.formatMoney(component.amount),
+        ]);
+      }
+    } else if (proposal.taxRate !== null) {
+      rows.push([
+        `Tax (${Number(proposal.taxRate)}%)`,
+        this.formatMoney(proposal.taxAmount ?? 0),
+      ]);
+    }
+
+    const rowHeight = 16;
+    if (this.needsPageBreak(doc, rowHeight * (rows.length + 2))) {
+      doc.addPage();
+    }
+
+    const labelX = this.columnX(doc, SERVICE_COLUMNS[2].x);
+    const labelWidth = SERVICE_COLUMNS[2].width + SERVICE_COLUMNS[3].width;
+    const amountColumn = SERVICE_COLUMNS[4];
+
+    doc.font('Helvetica').fontSize(10).fillColor(COLORS.text);
+    for (const [label, value] of rows) {
+      const top = doc.y;
+      doc.text(label, labelX, top, { width: labelWidth, align: 'right' });
+      doc.text(value, this.columnX(doc, amountColumn.x), top, {
+        width: amountColumn.width,
+        align: 'right',
+      });
+      doc.y = top + rowHeight;
+    }
+
+    const top = doc.y + 4;
+    doc
+      .rect(labelX, top - 4, labelWidth + amountColumn.width, rowHeight + 8)
+      .fill(COLORS.band);
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(12)
+      .fillColor(COLORS.brand)
+      .text('Total', labelX, top, { width: labelWidth, align: 'right' })
+      .text(
+        this.formatMoney(proposal.totalAmount),
+        this.columnX(doc, amountColumn.x),
+        top,
+        { width: amountColumn.width, align: 'right' },
+      );
+
+    doc.x = doc.page.margins.left;
+    doc.y = top + rowHeight + 8;
+    this.drawRule(doc);
+  }
+
+  private drawPaymentTerms(doc: PDFKit.PDFDocument, proposal: ProposalPdfData) {
+    if (!proposal.paymentMethod && !proposal.paymentTerms) return;
+
+    this.drawLabel(doc, 'PAYMENT TERMS');
+    if (proposal.paymentMethod) {
+      this.drawParagraph(
+        doc,
+        `Payment method: ${proposal.paymentMethod.replace(/_/g, ' ').toLowerCase()}`,
+      );
+    }
+    if (proposal.paymentTerms) {
+      this.drawParagraph(doc, proposal.paymentTerms);
+    }
+    doc.moveDown();
+  }
+
+  private drawTermsAndConditions(
+    doc: PDFKit.PDFDocument,
+    proposal: ProposalPdfData,
+  ) {
+    if (!proposal.termsAndConditions) return;
+
+    this.drawLabel(doc, 'TERMS AND CONDITIONS');
+    doc
+      .font('Helvetica')
+      .fontSize(8)
+      .fillColor(COLORS.text)
+      .text(proposal.termsAndConditions, {
+        width: this.contentWidth(doc),
+        align: 'justify',
+      });
+    doc.moveDown();
+  }
+
+  private drawSignatures(doc: PDFKit.PDFDocument, proposal: ProposalPdfData) {
+    const blockHeight = 130;
+    if (this.needsPageBreak(doc, blockHeight)) {
+      doc.addPage();
+    }
+
+    this.drawLabel(doc, 'SIGNATURES');
+
+    const left = doc.page.margins.left;
+    const half = this.contentWidth(doc) / 2;
+    const top = doc.y;
+
+    this.drawSignatureBlock(doc, left, top, half - 20, {
+      role: 'Owner',
+      signature: proposal.ownerSignature,
+      signedBy: proposal.ownerSignedBy ?? proposal.clientName,
+      signedAt: proposal.ownerSignedAt,
+    });
+    this.drawSignatureBlock(doc, left + half + 20, top, half - 20, {
+      role: 'Architect',
+      signature: proposal.architectSignature,
+      signedBy: proposal.architectSignedBy,
+      signedAt: proposal.architectSignedAt,
+    });
+
+    doc.x = left;
+    doc.y = top + blockHeight - 20;
+  }
+
+  private drawSignatureBlock(
+    doc: PDFKit.PDFDocument,
+    x: number,
+    y: number,
+    width: number,
+    block: {
+      role: string;
+      signature: string | null;
+      signedBy: string | null;
+      signedAt: Date | null;
+    },
+  ) {
+    const lineY = y + 50;
+
+    if (block.signature) {
+      const image = this.decodeImageSignature(block.signature);
+      if (image) {
+        try {
+          doc.image(image, x, y, { fit: [width, 45] });
+        } catch (error) {
+          this.logger.warn(
+            `Could not embed ${block.role.toLowerCase()} signature image: ${String(error)}`,
+          );
+        }
+      } else {
+        doc
+          .font('Helvetica-Oblique')
+          .fontSize(18)
+          .fillColor(COLORS.text)
+          .text(block.signature, x, y + 20, { width, lineBreak: false });
+      }
+    }
+
+    doc
+      .moveTo(x, lineY)
+      .lineTo(x + width, lineY)
+      .strokeColor(COLORS.text)
+      .lineWidth(0.75)
+      .stroke();
+
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(9)
+      .fillColor(COLORS.text)
+      .text(block.role, x, lineY + 6, { width });
+    doc
+      .font('Helvetica')
+      .fontSize(9)
+      .fillColor(COLORS.muted)
+      .text(
+        [
+          block.signedBy ? `Name: ${block.signedBy}` : 'Name:',
+          block.signedAt
+            ? `Signed: ${this.formatDateTime(block.signedAt)}`
+            : 'Not yet signed',
+        ].join('\n'),
+        { width },
+      );
+  }
+
+  private drawFooters(doc: PDFKit.PDFDocument, proposal: ProposalPdfData) {
+    const range = doc.bufferedPageRange();
+
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      const bottom = doc.page.height - doc.page.margins.bottom;
+      // Writing inside the bottom margin would otherwise trigger a new page
+      doc.page.margins.bottom = 0;
+      doc
+        .font('Helvetica')
+        .fontSize(8)
+        .fillColor(COLORS.muted)
+        .text(
+          `${proposal.proposalNumber} · Page ${i + 1} of ${range.count}`,
+          doc.page.margins.left,
+          bottom + 20,
+          { width: this.contentWidth(doc), align: 'center' },
+        );
+    }
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private createDocument(info: PDFKit.DocumentInfo) {
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      margin: 50,
+      bufferPages: true,
+      info,
+    });
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    return { doc, done };
+  }
+
+  private drawServicesHeader(doc: PDFKit.PDFDocument) {
+    const top = doc.y;
+
+    doc
+      .rect(doc.page.margins.left, top - 4, this.contentWidth(doc), 18)
+      .fill(COLORS.band);
+    doc.font('Helvetica-Bold').fontSize(9).fillColor(COLORS.muted);
+    for (const column of SERVICE_COLUMNS) {
+      doc.text(column.label, this.columnX(doc, column.x), top, {
+        width: column.width,
+        align: column.align,
+      });
+    }
+
+    doc.y = top + 20;
+  }
+
+  private drawLabel(
+    doc: PDFKit.PDFDocument,
+    label: string,
+    x = doc.page.margins.left,
+    y = doc.y,
+    width = this.contentWidth(doc),
+  ) {
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(9)
+      .fillColor(COLORS.brand)
+      .text(label, x, y, { width, characterSpacing: 1 });
+    doc.moveDown(0.3);
+  }
+
+  private drawParagraph(doc: PDFKit.PDFDocument, text: string) {
+    doc
+      .font('Helvetica')
+      .fontSize(10)
+      .fillColor(COLORS.text)
+      .text(text, doc.page.margins.left, doc.y, {
+        width: this.contentWidth(doc),
+      });
+  }
+
+  private drawRule(doc: PDFKit.PDFDocument) {
+    doc.moveDown();
+    doc
+      .moveTo(doc.page.margins.left, doc.y)
+      .lineTo(doc.page.width - doc.page.margins.right, doc.y)
+      .strokeColor(COLORS.rule)
+      .lineWidth(1)
+      .stroke();
+    doc.moveDown();
+  }
+
+  private decodeImageSignature(signature: string): Buffer | null {
+    const match = /^data:image\/(png|jpe?g);base64,(.+)$/i.exec(signature);
+    return match ? Buffer.from(match[2], 'base64') : null;
+  }
+
+  private needsPageBreak(doc: PDFKit.PDFDocument, height: number) {
+    return doc.y + height > doc.page.height - doc.page.margins.bottom;
+  }
+
+  private contentWidth(doc: PDFKit.PDFDocument) {
+    return doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  }
+
+  private columnX(doc: PDFKit.PDFDocument, offset: number) {
+    return doc.page.margins.left + offset;
+  }
+
+  /** Why a listed service is left out of the price */
+  private exclusionReason(service: ProposalPdfData['services'][number]) {
+    if (service.approvalStatus === ServiceApprovalStatus.REJECTED) {
+      return 'Declined, not included in the total';
+    }
+    if (!service.active) {
+      return 'Awaiting approval, not included in the total';
+    }
+    return 'Optional add-on: not selected, not included in the total';
+  }
+
+  /** How a derived fee was priced, shown under the service name */
+  private feeBasis(
+    service: ProposalPdfData['services'][number],
+    proposal: ProposalPdfData,
+  ) {
+    switch (service.feeModel) {
+      case FeeModel.PERCENT_OF_CONSTRUCTION:
+        return `${Number(service.feePercent)}% of estimated construction cost (${this.formatMoney(proposal.estimatedConstructionCost ?? 0)})`;
+      case FeeModel.HOURLY_NOT_TO_EXCEED:
+        return `${Number(service.estimatedHours)} hours at ${this.formatMoney(service.rate ?? 0)}/hour, not to exceed ${this.formatMoney(service.feeCap ?? 0)}`;
+      case FeeModel.PER_SQUARE_FOOT:
+        return `${this.formatMoney(service.rate ?? 0)} per sq ft × ${proposal.squareFootage}`;
+      default:
+        return null;
+    }
+  }
+
+  private formatMoney(value: Prisma.Decimal | number) {
+    return Number(value).toLocaleString('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    });
+  }
+
+  private formatDate(date: Date) {
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  }
+
+  private formatDateTime(date: Date) {
+    return date.toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZoneName: 'short',
+    });
+  }
+
+  private getAppName(): string {
+    return this.config.get('APP_NAME', 'Architecture Simple');
+  }
+}
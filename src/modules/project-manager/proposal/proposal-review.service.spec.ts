@@ -0,0 +1,189 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Prisma,
+  ProposalReviewStatus,
+  ProposalStatus,
+  User,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { NotificationsService } from 'src/modules/notifications/notifications.service';
+import { ProposalReviewService } from './proposal-review.service';
+import { ProposalSignatureService } from './proposal-signature.service';
+
+describe('ProposalReviewService', () => {
+  let service: ProposalReviewService;
+  let settings: Record<string, unknown>;
+  let proposal: Record<string, unknown>;
+  let review: Record<string, unknown> | null;
+  let contentHash: string;
+
+  const reviewer = {
+    id: 'hm-1',
+    email: 'hm@example.com',
+    role: UserRole.HIGHER_MANAGER,
+  } as User;
+
+  const prisma = {
+    proposal: {
+      findUnique: jest.fn(() => Promise.resolve(proposal)),
+      findUniqueOrThrow: jest.fn(() => Promise.resolve(proposal)),
+    },
+    proposalReview: {
+      findFirst: jest.fn(() => Promise.resolve(review)),
+      findUniqueOrThrow: jest.fn(() => Promise.resolve(review)),
+      updateMany: jest.fn(() => Promise.resolve({ count: 1 })),
+    },
+  };
+
+  const signatures = { documentHash: jest.fn(() => contentHash) };
+
+  const draft = (total: number, credits: unknown[] = []) => ({
+    totalAmount: new Prisma.Decimal(total),
+    credits,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    settings = {};
+    contentHash = 'hash-1';
+    review = null;
+    proposal = {
+      id: 'proposal-1',
+      proposalNumber: 'PROP-2026-0001',
+      version: 1,
+      status: ProposalStatus.DRAFT,
+      ...draft(5000),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProposalReviewService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, fallback?: unknown) =>
+              key in settings ? settings[key] : fallback,
+          },
+        },
+        { provide: ProposalSignatureService, useValue: signatures },
+        {
+          provide: NotificationsService,
+          useValue: { notifyRoles: jest.fn(), notifyUser: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ProposalReviewService);
+  });
+
+  describe('reviewReasons', () => {
+    it('does not review on total when no threshold is set', () => {
+      expect(service.reviewReasons(draft(1_000_000))).toEqual([]);
+    });
+
+    it('reviews drafts above the configured total', () => {
+      settings['proposalReview.totalThreshold'] = 10000;
+
+      expect(service.reviewReasons(draft(10000))).toEqual([]);
+      expect(service.reviewReasons(draft(10000.01))).toEqual([
+        'total above $10000.00',
+      ]);
+    });
+
+    it('reviews discounts unless turned off', () => {
+      const discounted = draft(500, [{ id: 'credit-1' }]);
+
+      expect(service.reviewReasons(discounted)).toEqual([
+        'includes a discount',
+      ]);
+
+      settings['proposalReview.onDiscount'] = false;
+      expect(service.reviewReasons(discounted)).toEqual([]);
+    });
+  });
+
+  describe('assertCleared', () => {
+    beforeEach(() => {
+      settings['proposalReview.totalThreshold'] = 1000;
+    });
+
+    it('blocks sending a draft that needs review without an approval', async () => {
+      await expect(service.assertCleared('proposal-1')).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    });
+
+    it('lets an approved draft through only with the approved content', async () => {
+      review = { id: 'review-1' };
+
+      await expect(
+        service.assertCleared('proposal-1'),
+      ).resolves.toBeUndefined();
+      expect(prisma.proposalReview.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            status: ProposalReviewStatus.APPROVED,
+            documentHash: 'hash-1',
+          }) as unknown,
+        }),
+      );
+    });
+  });
+
+  describe('decide', () => {
+    beforeEach(() => {
+      review = {
+        id: 'review-1',
+        status: ProposalReviewStatus.PENDING,
+        submittedById: 'pm-1',
+        documentHash: 'hash-1',
+      };
+    });
+
+    it('leaves approval to reviewers', async () => {
+      await expect(
+        service.decide(
+          'proposal-1',
+          { ...reviewer, role: UserRole.PROJECT_MANAGER },
+          { action: 'approve' },
+        ),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('refuses to approve your own submission', async () => {
+      await expect(
+        service.decide(
+          'proposal-1',
+          { ...reviewer, id: 'pm-1' },
+          { action: 'approve' },
+        ),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('refuses to approve content changed since submission', async () => {
+      contentHash = 'hash-2';
+
+      await expect(
+        service.decide('proposal-1', reviewer, { action: 'approve' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.proposalReview.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('records the approval', async () => {
+      await service.decide('proposal-1', reviewer, { action: 'approve' });
+
+      expect(prisma.proposalReview.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: ProposalReviewStatus.APPROVED,
+            decidedById: reviewer.id,
+          }) as unknown,
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,307 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Prisma,
+  ProposalReviewStatus,
+  ProposalStatus,
+  User,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { NotificationsService } from 'src/modules/notifications/notifications.service';
+import { NotificationType } from 'src/modules/notifications/notification-type.constant';
+import { ProposalSignatureService } from './proposal-signature.service';
+import { ReviewDecisionDto, SubmitReviewDto } from './dto/proposal-review.dto';
+
+const CONTENT_INCLUDE = {
+  services: { orderBy: { order: 'asc' } },
+  credits: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.ProposalInclude;
+
+const REVIEW_INCLUDE = {
+  submittedBy: { select: { id: true, name: true, email: true } },
+  decidedBy: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.ProposalReviewInclude;
+
+/**
+ * Internal sign-off on drafts before they reach the client. A PM submits,
+ * a higher manager approves or asks for changes, and send() checks that the
+ * approved content is still what would go out.
+ */
+@Injectable()
+export class ProposalReviewService {
+  private readonly logger = new Logger(ProposalReviewService.name);
+
+  private readonly MANAGER_ROLES = new Set<UserRole>([
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.PROJECT_MANAGER,
+  ]);
+
+  readonly REVIEWER_ROLES: UserRole[] = [
+    UserRole.SUPER_ADMIN,
+    UserRole.HIGHER_MANAGER,
+  ];
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+    private signatures: ProposalSignatureService,
+    private notifications: NotificationsService,
+  ) {}
+
+  isReviewer(user: User) {
+    return this.REVIEWER_ROLES.includes(user.role);
+  }
+
+  /**
+   * Why a draft needs sign-off; empty when it may be sent directly. Totals
+   * are only reviewed when PROPOSAL_REVIEW_TOTAL_THRESHOLD is set.
+   */
+  reviewReasons(proposal: {
+    totalAmount: Prisma.Decimal;
+    credits: unknown[];
+  }): string[] {
+    const reasons: string[] = [];
+
+    const threshold = this.config.get<number>('proposalReview.totalThreshold');
+    if (
+      threshold !== undefined &&
+      !isNaN(threshold) &&
+      Number(proposal.totalAmount) > threshold
+    ) {
+      reasons.push(`total above $${threshold.toFixed(2)}`);
+    }
+
+    const onDiscount = this.config.get<boolean>(
+      'proposalReview.onDiscount',
+      true,
+    );
+    if (onDiscount && proposal.credits.length > 0) {
+      reasons.push('includes a discount');
+    }
+
+    return reasons;
+  }
+
+  async submit(proposalId: string, user: User, dto: SubmitReviewDto) {
+    if (!this.MANAGER_ROLES.has(user.role)) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    const proposal = await this.loadDraft(proposalId);
+    const documentHash = this.signatures.documentHash(proposal);
+    const data = {
+      documentHash,
+      totalAmount: proposal.totalAmount,
+      submittedById: user.id,
+      submitComment: dto.comment?.trim() || null,
+      submittedAt: new Date(),
+    };
+
+    // Resubmitting while pending refreshes the request instead of stacking
+    const pending = await this.prisma.proposalReview.findFirst({
+      where: {
+        proposalId,
+        version: proposal.version,
+        status: ProposalReviewStatus.PENDING,
+      },
+    });
+
+    const review = pending
+      ? await this.prisma.proposalReview.update({
+          where: { id: pending.id },
+          data,
+          include: REVIEW_INCLUDE,
+        })
+      : await this.prisma.proposalReview.create({
+          data: { ...data, proposalId, version: proposal.version },
+          include: REVIEW_INCLUDE,
+        });
+
+    await this.notifications.notifyRoles(
+      this.REVIEWER_ROLES,
+      {
+        type: NotificationType.PROPOSAL_REVIEW_REQUESTED,
+        title: 'Proposal awaiting approval',
+        message: `${user.name || user.email} submitted proposal ${proposal.proposalNumber} for ${proposal.clientName} ($${Number(proposal.totalAmount).toFixed(2)}) for approval.`,
+        link: `/admin/proposals/${proposalId}`,
+      },
+      user.id,
+    );
+
+    this.logger.log(
+      `Proposal ${proposal.proposalNumber} v${proposal.version} submitted for review by ${user.email}`,
+    );
+
+    return {
+      success: true,
+      message: 'Proposal submitted for approval',
+      data: review,
+    };
+  }
+
+  async decide(proposalId: string, user: User, dto: ReviewDecisionDto) {
+    if (!this.isReviewer(user)) {
+      throw new ForbiddenException(
+        'Only a higher manager or super admin can approve proposals',
+      );
+    }
+
+    const proposal = await this.loadDraft(proposalId);
+
+    const pending = await this.prisma.proposalReview.findFirst({
+      where: {
+        proposalId,
+        version: proposal.version,
+        status: ProposalReviewStatus.PENDING,
+      },
+    });
+
+    if (!pending) {
+      throw new BadRequestException('No review is pending for this proposal');
+    }
+
+    if (pending.submittedById === user.id) {
+      throw new ForbiddenException('You cannot review your own submission');
+    }
+
+    const comment = dto.comment?.trim();
+    if (dto.action === 'request_changes' && !comment) {
+      throw new BadRequestException(
+        'A comment is required when requesting changes',
+      );
+    }
+
+    if (
+      dto.action === 'approve' &&
+      this.signatures.documentHash(proposal) !== pending.documentHash
+    ) {
+      throw new BadRequestException(
+        'The proposal changed after it was submitted; it must be resubmitted',
+      );
+    }
+
+    const status =
+      dto.action === 'approve'
+        ? ProposalReviewStatus.APPROVED
+        : ProposalReviewStatus.CHANGES_REQUESTED;
+
+    const { count } = await this.prisma.proposalReview.updateMany({
+      where: { id: pending.id, status: ProposalReviewStatus.PENDING },
+      data: {
+        status,
+        decidedById: user.id,
+        decisionComment: comment || null,
+        decidedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('This review has already been decided');
+    }
+
+    const verb = dto.action === 'approve' ? 'approved' : 'returned for changes';
+
+    if (pending.submittedById) {
+      await this.notifications.notifyUser(pending.submittedById, {
+        type: NotificationType.PROPOSAL_REVIEW_DECIDED,
+        title: `Proposal ${verb}`,
+        message: `Proposal ${proposal.proposalNumber} was ${verb} by ${user.name || user.email}.${comment ? ` Comment: ${comment}` : ''}`,
+        link: `/admin/proposals/${proposalId}`,
+      });
+    }
+
+    this.logger.log(
+      `Proposal ${proposal.proposalNumber} v${proposal.version} ${verb} by ${user.email}`,
+    );
+
+    return {
+      success: true,
+      message: `Proposal ${verb}`,
+      data: await this.prisma.proposalReview.findUniqueOrThrow({
+        where: { id: pending.id },
+        include: REVIEW_INCLUDE,
+      }),
+    };
+  }
+
+  async findAll(proposalId: string, user: User) {
+    if (!this.MANAGER_ROLES.has(user.role) && !this.isReviewer(user)) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    const proposal = await this.prisma.proposal.findUnique({
+      where: { id: proposalId },
+      select: { id: true },
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    return {
+      success: true,
+      message: 'Successfully retrieved proposal reviews',
+      data: await this.findForProposal(proposalId),
+    };
+  }
+
+  findForProposal(proposalId: string) {
+    return this.prisma.proposalReview.findMany({
+      where: { proposalId },
+      include: REVIEW_INCLUDE,
+      orderBy: { submittedAt: 'desc' },
+    });
+  }
+
+  /** Throws unless the draft needs no review or its current content was approved */
+  async assertCleared(proposalId: string) {
+    const proposal = await this.prisma.proposal.findUniqueOrThrow({
+      where: { id: proposalId },
+      include: CONTENT_INCLUDE,
+    });
+
+    const reasons = this.reviewReasons(proposal);
+    if (reasons.length === 0) return;
+
+    const approved = await this.prisma.proposalReview.findFirst({
+      where: {
+        proposalId,
+        version: proposal.version,
+        status: ProposalReviewStatus.APPROVED,
+        documentHash: this.signatures.documentHash(proposal),
+      },
+      select: { id: true },
+    });
+
+    if (!approved) {
+      throw new BadRequestException(
+        `Proposal needs internal approval before it can be sent (${reasons.join(', ')})`,
+      );
+    }
+  }
+
+  private async loadDraft(proposalId: string) {
+    const proposal = await this.prisma.proposal.findUnique({
+      where: { id: proposalId },
+      include: CONTENT_INCLUDE,
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    if (proposal.status !== ProposalStatus.DRAFT) {
+      throw new BadRequestException('Only DRAFT proposals are reviewed');
+    }
+
+    return proposal;
+  }
+}
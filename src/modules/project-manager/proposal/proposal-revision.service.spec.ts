@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ProposalRevisionReason,
+  ProposalStatus,
+  User,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { ProposalRevisionService } from './proposal-revision.service';
+
+describe('ProposalRevisionService', () => {
+  let service: ProposalRevisionService;
+
+  const client = {
+    id: 'client-1',
+    email: 'dana@example.com',
+    role: UserRole.USER,
+  } as User;
+  const manager = {
+    id: 'pm-1',
+    email: 'pm@example.com',
+    role: UserRole.PROJECT_MANAGER,
+  } as User;
+
+  const revision = (
+    revisionNumber: number,
+    header: Record<string, unknown>,
+  ) => ({
+    id: `revision-${revisionNumber}`,
+    proposalId: 'proposal-1',
+    revisionNumber,
+    reason: ProposalRevisionReason.SENT,
+    status: ProposalStatus.SENT,
+    version: 1,
+    createdAt: new Date('2026-05-01T00:00:00Z'),
+    snapshot: {
+      header: {
+        title: 'Lake House',
+        notes: 'Client is price sensitive',
+        additionalContext: 'Referred by the contractor',
+        budgetRange: '100k-250k',
+        ...header,
+      },
+      services: [],
+      credits: [],
+      totals: {
+        subtotal: 1000,
+        taxRate: null,
+        taxAmount: null,
+        totalAmount: 1000,
+      },
+    },
+  });
+
+  const revisions = [
+    revision(1, {}),
+    revision(2, {
+      title: 'Lake House Renovation',
+      notes: 'Agreed to hold the price',
+      budgetRange: '250k-500k',
+    }),
+  ];
+
+  const prisma = {
+    proposal: {
+      findUnique: jest.fn(() =>
+        Promise.resolve({
+          userId: client.id,
+          clientEmail: client.email,
+          version: 1,
+        }),
+      ),
+    },
+    proposalRevision: {
+      findFirst: jest.fn(({ where }: { where: { revisionNumber: number } }) =>
+        Promise.resolve(
+          revisions.find((r) => r.revisionNumber === where.revisionNumber),
+        ),
+      ),
+    },
+  };
+
+  const INTERNAL = ['notes', 'additionalContext', 'budgetRange'];
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProposalRevisionService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get(ProposalRevisionService);
+  });
+
+  it('hides internal fields from a client viewing a revision', async () => {
+    const { data } = await service.findOne('proposal-1', 1, client);
+
+    expect(Object.keys(data.snapshot.header)).toEqual(['title']);
+  });
+
+  it('leaves internal changes out of a client diff', async () => {
+    const { data } = await service.diff('proposal-1', 1, 2, client);
+
+    expect(data.changes.header.map(({ field }) => field)).toEqual(['title']);
+  });
+
+  it('shows staff the whole revision', async () => {
+    const { data } = await service.diff('proposal-1', 1, 2, manager);
+
+    expect(data.changes.header.map(({ field }) => field)).toEqual([
+      'title',
+      'notes',
+      'budgetRange',
+    ]);
+    const { data: stored } = await service.findOne('proposal-1', 1, manager);
+    expect(Object.keys(stored.snapshot.header)).toEqual(
+      expect.arrayContaining(INTERNAL),
+    );
+  });
+});
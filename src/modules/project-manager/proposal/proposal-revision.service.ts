@@ -0,0 +1,438 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import {
+  FeeModel,
+  Prisma,
+  Proposal,
+  ProposalCredit,
+  ProposalRevisionReason,
+  ProposalService as ProposalServiceRow,
+  ProposalStatus,
+  User,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+type SnapshotValue = Prisma.JsonValue;
+
+// Proposal columns a client could have read on the document
+const HEADER_FIELDS = [
+  'title',
+  'subject',
+  'clientName',
+  'clientEmail',
+  'clientPhone',
+  'clientCompany',
+  'projectName',
+  'projectLocation',
+  'projectDescription',
+  'additionalContext',
+  'serviceType',
+  'projectCategory',
+  'squareFootage',
+  'budgetRange',
+  'expectedTimeline',
+  'expiresAt',
+  'paymentMethod',
+  'paymentTerms',
+  'estimatedDuration',
+  'contactInfo',
+  'notes',
+  'termsAndConditions',
+] as const satisfies readonly (keyof Proposal)[];
+
+// Snapshotted, and so covered by signature hashes, but only shown to staff;
+// the proposal link leaves them out too
+const INTERNAL_HEADER_FIELDS = new Set<string>([
+  'notes',
+  'additionalContext',
+  'budgetRange',
+]);
+
+export interface ProposalSnapshot {
+  header: Record<(typeof HEADER_FIELDS)[number], SnapshotValue> & {
+    estimatedConstructionCost?: number;
+  };
+  services: {
+    id: string;
+    name: string;
+    description: string | null;
+    order: number;
+    rate: number | null;
+    quantity: number;
+    unit: string | null;
+    amount: number;
+    active: boolean;
+    approvalStatus: string;
+    optional?: boolean;
+    selected?: boolean;
+    feeModel?: FeeModel;
+    feePercent?: number | null;
+    estimatedHours?: number | null;
+    feeCap?: number | null;
+  }[];
+  credits: {
+    id: string;
+    type: string;
+    amount: number;
+    description: string | null;
+  }[];
+  totals: {
+    subtotal: number;
+    taxRate: number | null;
+    taxAmount: number | null;
+    totalAmount: number;
+    taxBreakdown?: SnapshotValue;
+  };
+  signatures: {
+    ownerSignedAt: string | null;
+    ownerSignedBy: string | null;
+    architectSignedAt: string | null;
+    architectSignedBy: string | null;
+  };
+}
+
+export interface FieldChange {
+  field: string;
+  from: SnapshotValue;
+  to: SnapshotValue;
+}
+
+/**
+ * Immutable proposal history. A snapshot of header fields, services, credits
+ * and totals is stored on every send and significant edit, so what a client
+ * was shown at any point can be reproduced and compared.
+ */
+@Injectable()
+export class ProposalRevisionService {
+  private readonly logger = new Logger(ProposalRevisionService.name);
+
+  private readonly MANAGER_ROLES = new Set<UserRole>([
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.PROJECT_MANAGER,
+  ]);
+
+  constructor(private prisma: PrismaService) {}
+
+  /** Snapshots the proposal as currently stored */
+  async record(
+    proposalId: string,
+    reason: ProposalRevisionReason,
+    userId?: string,
+  ) {
+    const proposal = await this.prisma.proposal.findUnique({
+      where: { id: proposalId },
+      include: {
+        services: { orderBy: { order: 'asc' } },
+        credits: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    const snapshot = this.buildSnapshot(proposal);
+
+    // Two edits landing together can race for the same number; retry those
+    for (let attempt = 1; ; attempt++) {
+      const latest = await this.prisma.proposalRevision.findFirst({
+        where: { proposalId },
+        orderBy: { revisionNumber: 'desc' },
+        select: { revisionNumber: true },
+      });
+
+      try {
+        const revision = await this.prisma.proposalRevision.create({
+          data: {
+            proposalId,
+            revisionNumber: (latest?.revisionNumber ?? 0) + 1,
+            reason,
+            status: proposal.status,
+            version: proposal.version,
+            snapshot: snapshot as unknown as Prisma.InputJsonValue,
+            totalAmount: proposal.totalAmount,
+            createdById: userId,
+          },
+        });
+
+        this.logger.log(
+          `Proposal ${proposal.proposalNumber} revision ${revision.revisionNumber} (${reason})`,
+        );
+        return revision;
+      } catch (error) {
+        const isConflict =
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002';
+        if (!isConflict || attempt >= 3) throw error;
+      }
+    }
+  }
+
+  async findAll(proposalId: string, user: User) {
+    const { isManager, version } = await this.assertAccess(proposalId, user);
+
+    const revisions = await this.prisma.proposalRevision.findMany({
+      where: { proposalId, ...this.visibleTo(isManager) },
+      orderBy: { revisionNumber: 'desc' },
+      select: {
+        id: true,
+        revisionNumber: true,
+        reason: true,
+        status: true,
+        version: true,
+        totalAmount: true,
+        createdAt: true,
+        createdBy: { select: { id: true, name: true, email: true } },
+      },
+    });
+
+    return {
+      success: true,
+      message: 'Proposal revisions retrieved successfully',
+      data: revisions.map((revision) => ({
+        ...revision,
+        isVoid: revision.version < version,
+      })),
+    };
+  }
+
+  async findOne(proposalId: string, revisionNumber: number, user: User) {
+    const { isManager, version } = await this.assertAccess(proposalId, user);
+    const revision = await this.getRevision(
+      proposalId,
+      revisionNumber,
+      isManager,
+    );
+
+    return {
+      success: true,
+      message: 'Proposal revision retrieved successfully',
+      data: {
+        ...revision,
+        snapshot: this.visibleSnapshot(revision.snapshot, isManager),
+        isVoid: revision.version < version,
+      },
+    };
+  }
+
+  async diff(proposalId: string, from: number, to: number, user: User) {
+    const { isManager } = await this.assertAccess(proposalId, user);
+
+    const [older, newer] = await Promise.all([
+      this.getRevision(proposalId, from, isManager),
+      this.getRevision(proposalId, to, isManager),
+    ]);
+    const before = this.visibleSnapshot(older.snapshot, isManager);
+    const after = this.visibleSnapshot(newer.snapshot, isManager);
+
+    return {
+      success: true,
+      message: 'Proposal revisions compared successfully',
+      data: {
+        from: this.summary(older),
+        to: this.summary(newer),
+        changes: {
+          header: this.diffFields(before.header, after.header),
+          totals: this.diffFields(before.totals, after.totals),
+          services: this.diffRows(before.services, after.services),
+          credits: this.diffRows(before.credits, after.credits),
+          signatures: this.diffFields(
+            before.signatures ?? {},
+            after.signatures ?? {},
+          ),
+        },
+      },
+    };
+  }
+
+  buildSnapshot(
+    proposal: Proposal & {
+      services: ProposalServiceRow[];
+      credits: ProposalCredit[];
+    },
+  ): ProposalSnapshot {
+    const header = Object.fromEntries(
+      HEADER_FIELDS.map((field) => {
+        const value = proposal[field];
+        return [field, value instanceof Date ? value.toISOString() : value];
+      }),
+    ) as Record<(typeof HEADER_FIELDS)[number], SnapshotValue>;
+
+    // Fee-basis fields and the tax breakdown are only written when they are
+    // set, like add-ons below, so hashes of older signed proposals still match
+    return {
+      header: {
+        ...header,
+        ...(proposal.estimatedConstructionCost !== null && {
+          estimatedConstructionCost: Number(proposal.estimatedConstructionCost),
+        }),
+      },
+      services: proposal.services.map((service) => ({
+        id: service.id,
+        name: service.name,
+        description: service.description,
+        order: service.order,
+        rate: service.rate === null ? null : Number(service.rate),
+        quantity: service.quantity,
+        unit: service.unit,
+        amount: Number(service.amount),
+        active: service.active,
+        approvalStatus: service.approvalStatus,
+        // Only on add-ons, so snapshots (and signature hashes) taken before
+        // add-ons existed still match
+        ...(service.optional && {
+          optional: true,
+          selected: service.selected,
+        }),
+        ...(service.feeModel !== FeeModel.FIXED && {
+          feeModel: service.feeModel,
+          feePercent: this.toNumber(service.feePercent),
+          estimatedHours: this.toNumber(service.estimatedHours),
+          feeCap: this.toNumber(service.feeCap),
+        }),
+      })),
+      credits: proposal.credits.map((credit) => ({
+        id: credit.id,
+        type: credit.type,
+        amount: Number(credit.amount),
+        description: credit.description,
+      })),
+      totals: {
+        subtotal: Number(proposal.subtotal),
+        taxRate: proposal.taxRate === null ? null : Number(proposal.taxRate),
+        taxAmount:
+          proposal.taxAmount === null ? null : Number(proposal.taxAmount),
+        totalAmount: Number(proposal.totalAmount),
+        ...(proposal.taxBreakdown !== null && {
+          taxBreakdown: proposal.taxBreakdown,
+        }),
+      },
+      signatures: {
+        ownerSignedAt: proposal.ownerSignedAt?.toISOString() ?? null,
+        ownerSignedBy: proposal.ownerSignedBy,
+        architectSignedAt: proposal.architectSignedAt?.toISOString() ?? null,
+        architectSignedBy: proposal.architectSignedBy,
+      },
+    };
+  }
+
+  private toNumber(value: Prisma.Decimal | null) {
+    return value === null ? null : Number(value);
+  }
+
+  private diffFields(
+    before: Record<string, SnapshotValue | undefined>,
+    after: Record<string, SnapshotValue | undefined>,
+  ): FieldChange[] {
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    // JSON comparison so structured values such as the tax breakdown diff too
+    return [...fields]
+      .filter(
+        (field) =>
+          JSON.stringify(before[field] ?? null) !==
+          JSON.stringify(after[field] ?? null),
+      )
+      .map((field) => ({
+        field,
+        from: before[field] ?? null,
+        to: after[field] ?? null,
+      }));
+  }
+
+  /** Services and credits are matched by id across the two revisions */
+  private diffRows<
+    T extends { id: string } & Record<string, SnapshotValue | undefined>,
+  >(before: T[], after: T[]) {
+    const previous = new Map(before.map((row) => [row.id, row]));
+    const current = new Map(after.map((row) => [row.id, row]));
+
+    return {
+      added: after.filter((row) => !previous.has(row.id)),
+      removed: before.filter((row) => !current.has(row.id)),
+      changed: after
+        .filter((row) => previous.has(row.id))
+        .map((row) => ({
+          id: row.id,
+          changes: this.diffFields(previous.get(row.id)!, row),
+        }))
+        .filter((row) => row.changes.length > 0),
+    };
+  }
+
+  private summary(revision: {
+    revisionNumber: number;
+    reason: ProposalRevisionReason;
+    status: ProposalStatus;
+    version: number;
+    createdAt: Date;
+  }) {
+    const { revisionNumber, reason, status, version, createdAt } = revision;
+    return { revisionNumber, reason, status, version, createdAt };
+  }
+
+  private async getRevision(
+    proposalId: string,
+    revisionNumber: number,
+    isManager: boolean,
+  ) {
+    const revision = await this.prisma.proposalRevision.findFirst({
+      where: { proposalId, revisionNumber, ...this.visibleTo(isManager) },
+      include: {
+        createdBy: { select: { id: true, name: true, email: true } },
+      },
+    });
+
+    if (!revision) {
+      throw new NotFoundException(`Revision ${revisionNumber} not found`);
+    }
+
+    return revision;
+  }
+
+  private visibleSnapshot(
+    stored: Prisma.JsonValue,
+    isManager: boolean,
+  ): ProposalSnapshot {
+    const snapshot = stored as unknown as ProposalSnapshot;
+    if (isManager) return snapshot;
+
+    const header = Object.fromEntries(
+      Object.entries(snapshot.header).filter(
+        ([field]) => !INTERNAL_HEADER_FIELDS.has(field),
+      ),
+    ) as ProposalSnapshot['header'];
+    return { ...snapshot, header };
+  }
+
+  // Clients only see versions that left the office, not internal drafts
+  private visibleTo(isManager: boolean): Prisma.ProposalRevisionWhereInput {
+    return isManager ? {} : { status: { not: ProposalStatus.DRAFT } };
+  }
+
+  private async assertAccess(proposalId: string, user: User) {
+    const proposal = await this.prisma.proposal.findUnique({
+      where: { id: proposalId },
+      select: { userId: true, clientEmail: true, version: true },
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    const isManager = this.MANAGER_ROLES.has(user.role);
+    const isOwner =
+      proposal.userId === user.id || proposal.clientEmail === user.email;
+
+    if (!isManager && !isOwner) {
+      throw new ForbiddenException('Not authorized to view this proposal');
+    }
+
+    return { isManager, version: proposal.version };
+  }
+}
@@ -0,0 +1,168 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  FeeModel,
+  Prisma,
+  ProposalSignatureEvent,
+  ProposalStatus,
+  SignatureAuthMethod,
+  User,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { ProposalSignatureService } from './proposal-signature.service';
+import { ProposalRevisionService } from './proposal-revision.service';
+import { ProposalPdfService } from './proposal-pdf.service';
+
+describe('ProposalSignatureService', () => {
+  let service: ProposalSignatureService;
+  let proposal: Record<string, unknown>;
+  let events: ProposalSignatureEvent[];
+
+  const manager = {
+    id: 'pm-1',
+    email: 'pm@example.com',
+    role: UserRole.PROJECT_MANAGER,
+  } as User;
+
+  const prisma = {
+    proposal: {
+      findUnique: jest.fn(() => Promise.resolve(proposal)),
+      findUniqueOrThrow: jest.fn(() => Promise.resolve(proposal)),
+    },
+    proposalRevision: { findFirst: jest.fn(() => Promise.resolve(null)) },
+    proposalSignatureEvent: {
+      findFirst: jest.fn(() => Promise.resolve(events.at(-1) ?? null)),
+      findMany: jest.fn(() => Promise.resolve(events)),
+      create: jest.fn(({ data }: { data: ProposalSignatureEvent }) => {
+        const event = { ...data, id: `event-${events.length + 1}` };
+        events.push(event);
+        return Promise.resolve(event);
+      }),
+    },
+  };
+
+  const sign = () =>
+    service.record(
+      prisma as unknown as Prisma.TransactionClient,
+      'proposal-1',
+      {
+        signedAs: 'owner',
+        name: 'Dana Client',
+        email: 'dana@example.com',
+        authMethod: SignatureAuthMethod.SESSION,
+        ipAddress: '203.0.113.7',
+      },
+    );
+
+  const verify = async () => (await service.verify('proposal-1', manager)).data;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    events = [];
+    proposal = {
+      id: 'proposal-1',
+      proposalNumber: 'PROP-2026-0001',
+      version: 1,
+      status: ProposalStatus.VIEWED,
+      userId: 'client-1',
+      clientEmail: 'dana@example.com',
+      title: 'Lake House',
+      projectName: 'Lake House',
+      notes: null,
+      expiresAt: new Date('2026-11-01T00:00:00Z'),
+      termsAndConditions: 'Net 30',
+      estimatedConstructionCost: null,
+      services: [
+        {
+          id: 'design',
+          name: 'Design',
+          description: null,
+          order: 0,
+          rate: null,
+          quantity: 1,
+          unit: null,
+          amount: new Prisma.Decimal(1000),
+          feeModel: FeeModel.FIXED,
+          active: true,
+          approvalStatus: 'APPROVED',
+          optional: false,
+          selected: true,
+        },
+      ],
+      credits: [],
+      subtotal: new Prisma.Decimal(1000),
+      taxRate: null,
+      taxAmount: null,
+      taxBreakdown: null,
+      totalAmount: new Prisma.Decimal(1000),
+      ownerSignature: 'data:image/png;base64,c2lnbmF0dXJl',
+      ownerSignedAt: new Date('2026-10-19T10:00:00Z'),
+      architectSignature: null,
+      architectSignedAt: null,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProposalSignatureService,
+        ProposalRevisionService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ProposalPdfService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(ProposalSignatureService);
+  });
+
+  it('stays intact when notes are added or the expiry is extended', async () => {
+    await sign();
+    proposal.notes = 'Status changed to VIEWED: client called';
+    proposal.expiresAt = new Date('2026-12-01T00:00:00Z');
+
+    const report = await verify();
+
+    expect(report.intact).toBe(true);
+    expect(report.events[0]).toMatchObject({
+      chainValid: true,
+      documentMatches: true,
+      signatureMatches: true,
+    });
+  });
+
+  it('flags a price change after signing', async () => {
+    await sign();
+    proposal.totalAmount = new Prisma.Decimal(900);
+
+    const report = await verify();
+
+    expect(report.intact).toBe(false);
+    expect(report.events[0].documentMatches).toBe(false);
+  });
+
+  it('flags a change to the fee basis after signing', async () => {
+    const [design] = proposal.services as Record<string, unknown>[];
+    Object.assign(design, {
+      feeModel: FeeModel.PERCENT_OF_CONSTRUCTION,
+      feePercent: new Prisma.Decimal(8),
+      estimatedHours: null,
+      feeCap: null,
+    });
+    proposal.estimatedConstructionCost = new Prisma.Decimal(12500);
+    await sign();
+
+    proposal.estimatedConstructionCost = new Prisma.Decimal(15000);
+    const report = await verify();
+
+    expect(report.intact).toBe(false);
+    expect(report.events[0].documentMatches).toBe(false);
+  });
+
+  it('flags an edited signing log', async () => {
+    await sign();
+    events[0] = { ...events[0], ipAddress: '198.51.100.1' };
+
+    const report = await verify();
+
+    expect(report.intact).toBe(false);
+    expect(report.events[0].chainValid).toBe(false);
+  });
+});
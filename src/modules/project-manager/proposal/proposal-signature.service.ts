@@ -0,0 +1,290 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import {
+  Prisma,
+  Proposal,
+  ProposalCredit,
+  ProposalService as ProposalServiceRow,
+  ProposalSignatureEvent,
+  ProposalStatus,
+  SignatureAuthMethod,
+  User,
+  UserRole,
+} from '@prisma/client';
+import * as crypto from 'crypto';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { ProposalRevisionService } from './proposal-revision.service';
+import { ProposalPdfService } from './proposal-pdf.service';
+import type { AccessContext } from './proposal-link.service';
+
+export interface SignerContext extends AccessContext {
+  signedAs: 'owner' | 'architect';
+  name: string;
+  email: string;
+  userId?: string;
+  authMethod: SignatureAuthMethod;
+}
+
+type SignableProposal = Proposal & {
+  services: ProposalServiceRow[];
+  credits: ProposalCredit[];
+};
+
+// Header fields that may change after signing without changing the deal:
+// internal notes and how long the offer stays open (extendExpiry)
+const UNSIGNED_FIELDS = new Set<string>(['notes', 'expiresAt']);
+
+const CONTENT_INCLUDE = {
+  services: { orderBy: { order: 'asc' } },
+  credits: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.ProposalInclude;
+
+/**
+ * Append-only e-signature log. Every signature records who signed, how they
+ * were authenticated and from where, together with a sha256 of the proposal
+ * content they signed. Events are hash-chained per proposal so edits to the
+ * proposal, its stored signatures or the log itself show up on verification.
+ */
+@Injectable()
+export class ProposalSignatureService {
+  private readonly logger = new Logger(ProposalSignatureService.name);
+
+  private readonly MANAGER_ROLES = new Set<UserRole>([
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.PROJECT_MANAGER,
+  ]);
+
+  constructor(
+    private prisma: PrismaService,
+    private revisions: ProposalRevisionService,
+    private pdf: ProposalPdfService,
+  ) {}
+
+  private sha256(value: string) {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  /** Hash of what the parties agree to; signature fields are left out */
+  documentHash(proposal: SignableProposal) {
+    const { header, services, credits, totals } =
+      this.revisions.buildSnapshot(proposal);
+    const terms = Object.fromEntries(
+      Object.entries(header).filter(([field]) => !UNSIGNED_FIELDS.has(field)),
+    );
+    return this.sha256(
+      JSON.stringify({ header: terms, services, credits, totals }),
+    );
+  }
+
+  private eventHash(
+    event: Omit<ProposalSignatureEvent, 'id' | 'revisionId' | 'eventHash'>,
+  ) {
+    return this.sha256(
+      JSON.stringify([
+        event.proposalId,
+        event.version,
+        event.signedAs,
+        event.signerName,
+        event.signerEmail,
+        event.userId,
+        event.authMethod,
+        event.ipAddress,
+        event.userAgent,
+        event.documentHash,
+        event.signatureHash,
+        event.previousHash,
+        event.signedAt.toISOString(),
+      ]),
+    );
+  }
+
+  /** Appends the event for a signature just stored by the same transaction */
+  async record(
+    tx: Prisma.TransactionClient,
+    proposalId: string,
+    signer: SignerContext,
+  ) {
+    const proposal = await tx.proposal.findUniqueOrThrow({
+      where: { id: proposalId },
+      include: CONTENT_INCLUDE,
+    });
+
+    const isOwner = signer.signedAs === 'owner';
+    const signature = isOwner
+      ? proposal.ownerSignature
+      : proposal.architectSignature;
+    const signedAt = isOwner
+      ? proposal.ownerSignedAt
+      : proposal.architectSignedAt;
+
+    if (!signature || !signedAt) {
+      throw new BadRequestException('Signature was not stored');
+    }
+
+    const [revision, previous] = await Promise.all([
+      tx.proposalRevision.findFirst({
+        where: { proposalId, version: proposal.version },
+        orderBy: { revisionNumber: 'desc' },
+        select: { id: true },
+      }),
+      tx.proposalSignatureEvent.findFirst({
+        where: { proposalId },
+        orderBy: { signedAt: 'desc' },
+        select: { eventHash: true },
+      }),
+    ]);
+
+    const event = {
+      proposalId,
+      version: proposal.version,
+      signedAs: signer.signedAs,
+      signerName: signer.name,
+      signerEmail: signer.email,
+      userId: signer.userId ?? null,
+      authMethod: signer.authMethod,
+      ipAddress: signer.ipAddress ?? null,
+      userAgent: signer.userAgent ?? null,
+      documentHash: this.documentHash(proposal),
+      signatureHash: this.sha256(signature),
+      previousHash: previous?.eventHash ?? null,
+      signedAt,
+    };
+
+    const created = await tx.proposalSignatureEvent.create({
+      data: {
+        ...event,
+        revisionId: revision?.id,
+        eventHash: this.eventHash(event),
+      },
+    });
+
+    this.logger.log(
+      `Signature event ${created.id} (${signer.signedAs}, ${signer.authMethod}) on proposal ${proposal.proposalNumber}`,
+    );
+
+    return created;
+  }
+
+  /** Signing log with each event checked against the current proposal */
+  async verify(proposalId: string, user: User) {
+    const proposal = await this.loadForUser(proposalId, user);
+    const report = await this.check(proposal);
+
+    return {
+      success: true,
+      message: report.intact
+        ? 'Proposal is unchanged since signing'
+        : 'Proposal or its signing log changed after signing',
+      data: report,
+    };
+  }
+
+  async generateCertificate(proposalId: string, user: User) {
+    const proposal = await this.loadForUser(proposalId, user);
+
+    if (proposal.status !== ProposalStatus.ACCEPTED) {
+      throw new BadRequestException(
+        'The certificate is available once the proposal is fully signed',
+      );
+    }
+
+    const report = await this.check(proposal);
+
+    return {
+      fileName: this.pdf.certificateFileName(proposal),
+      buffer: await this.pdf.renderCertificate({
+        proposal,
+        documentHash: report.documentHash,
+        intact: report.intact,
+        events: report.events.filter(
+          (event) => event.version === proposal.version,
+        ),
+      }),
+    };
+  }
+
+  private async check(proposal: SignableProposal) {
+    const events = await this.prisma.proposalSignatureEvent.findMany({
+      where: { proposalId: proposal.id },
+      orderBy: { signedAt: 'asc' },
+    });
+    const documentHash = this.documentHash(proposal);
+
+    // Latest event per party on the current version vouches for the
+    // signature stored on the proposal
+    const latest = new Map<string, string>();
+    for (const event of events) {
+      if (event.version === proposal.version) {
+        latest.set(event.signedAs, event.id);
+      }
+    }
+
+    let previousHash: string | null = null;
+    const checked = events.map((event) => {
+      const chainValid =
+        event.previousHash === previousHash &&
+        this.eventHash(event) === event.eventHash;
+      previousHash = event.eventHash;
+
+      // Events on voided versions signed a different document
+      const current = event.version === proposal.version;
+      const stored =
+        event.signedAs === 'owner'
+          ? proposal.ownerSignature
+          : proposal.architectSignature;
+
+      return {
+        ...event,
+        chainValid,
+        documentMatches: current ? event.documentHash === documentHash : null,
+        signatureMatches:
+          latest.get(event.signedAs) === event.id
+            ? !!stored && this.sha256(stored) === event.signatureHash
+            : null,
+      };
+    });
+
+    const intact = checked.every(
+      (event) =>
+        event.chainValid &&
+        event.documentMatches !== false &&
+        event.signatureMatches !== false,
+    );
+
+    return {
+      proposalId: proposal.id,
+      proposalNumber: proposal.proposalNumber,
+      version: proposal.version,
+      documentHash,
+      intact,
+      events: checked,
+    };
+  }
+
+  private async loadForUser(proposalId: string, user: User) {
+    const proposal = await this.prisma.proposal.findUnique({
+      where: { id: proposalId },
+      include: CONTENT_INCLUDE,
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    const isManager = this.MANAGER_ROLES.has(user.role);
+    const isOwner =
+      proposal.userId === user.id || proposal.clientEmail === user.email;
+
+    if (!isManager && !isOwner) {
+      throw new ForbiddenException('Not authorized to view this proposal');
+    }
+
+    return proposal;
+  }
+}
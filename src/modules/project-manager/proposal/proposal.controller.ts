@@ -9,12 +9,32 @@ import {
   UseGuards,
   Delete,
   Query,
+  Res,
+  StreamableFile,
+  ParseIntPipe,
+  Ip,
+  Headers,
 } from '@nestjs/common';
+import express from 'express';
 import { ProposalService } from './proposal.service';
+import { ProposalRevisionService } from './proposal-revision.service';
+import { ProposalSignatureService } from './proposal-signature.service';
+import { ProposalReviewService } from './proposal-review.service';
+import { ProposalAnalyticsService } from './proposal-analytics.service';
 import { CreateProposalDto } from './dto/create-proposal.dto';
 import { UpdateProposalDto } from './dto/update-proposal.dto';
 import { AddProposalServiceDto } from './dto/add-proposal-service.dto';
 import { ProposalSignatureDto } from './dto/proposal-signature.dto';
+import { SendProposalDto } from './dto/send-proposal.dto';
+import { ReviseProposalDto } from './dto/revise-proposal.dto';
+import { ExtendExpiryDto } from './dto/extend-expiry.dto';
+import { ReviewDecisionDto, SubmitReviewDto } from './dto/proposal-review.dto';
+import { ServiceSelectionDto } from './dto/service-selection.dto';
+import {
+  CreateProposalCreditDto,
+  UpdateProposalCreditDto,
+  ReviewCreditDto,
+} from './dto/proposal-credit.dto';
 import { JwtAuthGuard } from 'src/common/guards/auth.guard';
 import { RolesGuard } from 'src/common/guards/roles.guard';
 import { Roles } from 'src/common/decorators/roles.decorator';
@@ -28,11 +48,19 @@ import {
   AddServiceWithApprovalDto,
   ApproveServiceDto,
 } from './dto/service-approval.dto';
+import { RevisionDiffQueryDto } from './dto/revision-diff.dto';
+import { ProposalAnalyticsQueryDto } from './dto/proposal-analytics.dto';
 
 @Controller('proposals')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class ProposalController {
-  constructor(private readonly proposalService: ProposalService) {}
+  constructor(
+    private readonly proposalService: ProposalService,
+    private readonly revisionService: ProposalRevisionService,
+    private readonly signatureService: ProposalSignatureService,
+    private readonly reviewService: ProposalReviewService,
+    private readonly analyticsService: ProposalAnalyticsService,
+  ) {}
 
   @Post()
   @Roles(
@@ -65,6 +93,20 @@ export class ProposalController {
     return this.proposalService.getMyProposals(user);
   }
 
+  @Get('analytics')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+    client.UserRole.HIGHER_MANAGER,
+  )
+  getAnalytics(
+    @Query() query: ProposalAnalyticsQueryDto,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.analyticsService.getAnalytics(user, query);
+  }
+
   @Get(':id/full')
   findOneWithFullData(
     @Param('id') id: string,
@@ -73,6 +115,70 @@ export class ProposalController {
     return this.proposalService.findOneWithFullData(id, user);
   }
 
+  @Get(':id/pdf')
+  async downloadPdf(
+    @Param('id') id: string,
+    @CurrentUser() user: client.User,
+    @Res({ passthrough: true }) res: express.Response,
+  ) {
+    const { fileName, buffer } = await this.proposalService.generatePdf(
+      id,
+      user,
+    );
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+    });
+
+    return new StreamableFile(buffer);
+  }
+
+  @Get(':id/signatures')
+  verifySignatures(@Param('id') id: string, @CurrentUser() user: client.User) {
+    return this.signatureService.verify(id, user);
+  }
+
+  @Get(':id/signatures/certificate')
+  async downloadCertificate(
+    @Param('id') id: string,
+    @CurrentUser() user: client.User,
+    @Res({ passthrough: true }) res: express.Response,
+  ) {
+    const { fileName, buffer } =
+      await this.signatureService.generateCertificate(id, user);
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+    });
+
+    return new StreamableFile(buffer);
+  }
+
+  @Get(':id/revisions')
+  findRevisions(@Param('id') id: string, @CurrentUser() user: client.User) {
+    return this.revisionService.findAll(id, user);
+  }
+
+  @Get(':id/revisions/diff')
+  diffRevisions(
+    @Param('id') id: string,
+    @Query() query: RevisionDiffQueryDto,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.revisionService.diff(id, query.from, query.to, user);
+  }
+
+  @Get(':id/revisions/:revisionNumber')
+  findRevision(
+    @Param('id') id: string,
+    @Param('revisionNumber', ParseIntPipe) revisionNumber: number,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.revisionService.findOne(id, revisionNumber, user);
+  }
+
   @Get(':id')
   findOne(@Param('id') id: string, @CurrentUser() user: client.User) {
     return this.proposalService.findOne(id, user);
@@ -112,8 +218,76 @@ export class ProposalController {
     client.UserRole.ADMIN,
     client.UserRole.PROJECT_MANAGER,
   )
-  send(@Param('id') id: string, @CurrentUser() user: client.User) {
-    return this.proposalService.send(id, user);
+  send(
+    @Param('id') id: string,
+    @Body() sendProposalDto: SendProposalDto,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.proposalService.send(id, user, sendProposalDto);
+  }
+
+  // Internal approval before the client sees it
+  @Post(':id/review')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+  )
+  submitForReview(
+    @Param('id') id: string,
+    @Body() dto: SubmitReviewDto,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.reviewService.submit(id, user, dto);
+  }
+
+  @Post(':id/review/decision')
+  @Roles(client.UserRole.SUPER_ADMIN, client.UserRole.HIGHER_MANAGER)
+  decideReview(
+    @Param('id') id: string,
+    @Body() dto: ReviewDecisionDto,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.reviewService.decide(id, user, dto);
+  }
+
+  @Get(':id/reviews')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+    client.UserRole.HIGHER_MANAGER,
+  )
+  findReviews(@Param('id') id: string, @CurrentUser() user: client.User) {
+    return this.reviewService.findAll(id, user);
+  }
+
+  @Post(':id/revise')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+  )
+  revise(
+    @Param('id') id: string,
+    @Body() reviseProposalDto: ReviseProposalDto,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.proposalService.revise(id, user, reviseProposalDto);
+  }
+
+  @Patch(':id/expiry')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+  )
+  extendExpiry(
+    @Param('id') id: string,
+    @Body() extendExpiryDto: ExtendExpiryDto,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.proposalService.extendExpiry(id, user, extendExpiryDto);
   }
 
   @Patch(':id/sign')
@@ -121,8 +295,13 @@ export class ProposalController {
     @Param('id') id: string,
     @Body() proposalSignatureDto: ProposalSignatureDto,
     @CurrentUser() user: client.User,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
   ) {
-    return this.proposalService.sign(id, proposalSignatureDto, user);
+    return this.proposalService.sign(id, proposalSignatureDto, user, {
+      ipAddress,
+      userAgent,
+    });
   }
 
   @Patch(':id/status')
@@ -162,6 +341,17 @@ export class ProposalController {
     );
   }
 
+  // Client opts in or out of an optional add-on before signing
+  @Patch(':id/services/:serviceId/selection')
+  selectService(
+    @Param('id') id: string,
+    @Param('serviceId') serviceId: string,
+    @Body() dto: ServiceSelectionDto,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.proposalService.selectService(id, serviceId, dto, user);
+  }
+
   // Delete service
   @Delete(':id/services/:serviceId')
   @Roles(
@@ -214,4 +404,87 @@ export class ProposalController {
   ) {
     return this.proposalService.getPendingApprovals(id, user);
   }
+
+  //===========credits ========
+
+  @Get(':id/credits')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+    client.UserRole.FINANCE,
+    client.UserRole.HIGHER_MANAGER,
+  )
+  findCredits(@Param('id') id: string, @CurrentUser() user: client.User) {
+    return this.proposalService.findCredits(id, user);
+  }
+
+  @Get(':id/credits/approvals')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+    client.UserRole.FINANCE,
+    client.UserRole.HIGHER_MANAGER,
+  )
+  findCreditApprovals(
+    @Param('id') id: string,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.proposalService.findCreditApprovals(id, user);
+  }
+
+  @Post(':id/credits')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+  )
+  addCredit(
+    @Param('id') id: string,
+    @Body() dto: CreateProposalCreditDto,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.proposalService.addCredit(id, dto, user);
+  }
+
+  @Patch(':id/credits/:creditId')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+  )
+  updateCredit(
+    @Param('id') id: string,
+    @Param('creditId') creditId: string,
+    @Body() dto: UpdateProposalCreditDto,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.proposalService.updateCredit(id, creditId, dto, user);
+  }
+
+  @Delete(':id/credits/:creditId')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+  )
+  deleteCredit(
+    @Param('id') id: string,
+    @Param('creditId') creditId: string,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.proposalService.deleteCredit(id, creditId, user);
+  }
+
+  @Post(':id/credits/:creditId/approval')
+  @Roles(client.UserRole.FINANCE, client.UserRole.HIGHER_MANAGER)
+  reviewCredit(
+    @Param('id') id: string,
+    @Param('creditId') creditId: string,
+    @Body() dto: ReviewCreditDto,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.proposalService.reviewCredit(id, creditId, dto, user);
+  }
 }
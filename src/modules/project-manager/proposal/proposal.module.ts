@@ -5,12 +5,52 @@ import { PrismaModule } from 'src/prisma/prisma.module';
 import { MailerModule } from 'src/utils/email/email.module';
 import { AmendmentController } from './amendment.controller';
 import { AmendmentService } from './amendment.service';
+import { ProposalPdfService } from './proposal-pdf.service';
+import { ProposalRevisionService } from './proposal-revision.service';
+import { ProposalExpiryService } from './proposal-expiry.service';
+import { ProposalLinkService } from './proposal-link.service';
+import { ProposalSignatureService } from './proposal-signature.service';
+import { ProposalFeeService } from './proposal-fee.service';
+import { ProposalReviewService } from './proposal-review.service';
+import { ProposalAnalyticsService } from './proposal-analytics.service';
+import { ProposalLinkController } from './proposal-link.controller';
+import { NotificationsModule } from 'src/modules/notifications/notifications.module';
+import { RealtimeModule } from 'src/modules/realtime/realtime.module';
+import { ServiceCatalogModule } from 'src/modules/project-manager/service-catalog/service-catalog.module';
+import { FinanceModule } from 'src/modules/finance/finance.module';
+import { NumberingModule } from 'src/modules/numbering/numbering.module';
+import { TaxModule } from 'src/modules/tax/tax.module';
 
 
 @Module({
-  imports: [PrismaModule, MailerModule],
-  controllers: [ProposalController, AmendmentController],
-  providers: [ProposalService, AmendmentService],
+  imports: [
+    PrismaModule,
+    MailerModule,
+    NotificationsModule,
+    RealtimeModule,
+    ServiceCatalogModule,
+    FinanceModule,
+    NumberingModule,
+    TaxModule,
+  ],
+  // Link routes first so `shared/:token` is not captured by `:id/...`
+  controllers: [
+    ProposalLinkController,
+    ProposalController,
+    AmendmentController,
+  ],
+  providers: [
+    ProposalService,
+    AmendmentService,
+    ProposalPdfService,
+    ProposalRevisionService,
+    ProposalExpiryService,
+    ProposalLinkService,
+    ProposalSignatureService,
+    ProposalFeeService,
+    ProposalReviewService,
+    ProposalAnalyticsService,
+  ],
   exports: [ProposalService, AmendmentService],
 })
 export class ProposalModule {}
\ No newline at end of file
@@ -0,0 +1,354 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Prisma,
+  ProposalRevisionReason,
+  ProposalStatus,
+  ServiceApprovalStatus,
+  User,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { MailerService } from 'src/utils/email/email.service';
+import { NotificationsService } from 'src/modules/notifications/notifications.service';
+import { RealtimeService } from 'src/modules/realtime/realtime.service';
+import { ProposalTemplateService } from 'src/modules/project-manager/service-catalog/proposal-template.service';
+import { InvoiceService } from 'src/modules/finance/invoice.service';
+import { NumberingService } from 'src/modules/numbering/numbering.service';
+import { TaxService } from 'src/modules/tax/tax.service';
+import { ProposalService } from './proposal.service';
+import { ProposalPdfService } from './proposal-pdf.service';
+import { ProposalRevisionService } from './proposal-revision.service';
+import { ProposalLinkService } from './proposal-link.service';
+import { ProposalSignatureService } from './proposal-signature.service';
+import { ProposalFeeService } from './proposal-fee.service';
+import { ProposalReviewService } from './proposal-review.service';
+
+describe('ProposalService', () => {
+  let service: ProposalService;
+  let proposal: Record<string, unknown>;
+  let serviceRow: Record<string, unknown>;
+
+  const client = {
+    id: 'client-1',
+    email: 'dana@example.com',
+    role: UserRole.USER,
+  } as User;
+
+  const manager = {
+    id: 'pm-1',
+    email: 'pm@example.com',
+    role: UserRole.PROJECT_MANAGER,
+  } as User;
+
+  const pendingService = {
+    id: 'service-1',
+    proposalId: 'proposal-1',
+    name: 'Site survey',
+    approvalStatus: ServiceApprovalStatus.PENDING_APPROVAL,
+  };
+
+  const addOn = {
+    ...pendingService,
+    id: 'service-2',
+    name: 'Landscape plan',
+    optional: true,
+    selected: false,
+  };
+
+  const prisma = {
+    proposal: {
+      findUnique: jest.fn(() => Promise.resolve(proposal)),
+      update: jest.fn(({ data }: { data: Record<string, unknown> }) =>
+        Promise.resolve(data),
+      ),
+    },
+    proposalService: {
+      findFirst: jest.fn(() => Promise.resolve(serviceRow)),
+      update: jest.fn(({ data }: { data: Record<string, unknown> }) =>
+        Promise.resolve({ ...pendingService, ...data }),
+      ),
+      updateMany: jest.fn(() => Promise.resolve({ count: 1 })),
+    },
+    proposalCredit: {
+      findMany: jest.fn(() => Promise.resolve([] as unknown[])),
+      create: jest.fn(),
+    },
+    user: { findMany: jest.fn(() => Promise.resolve([])) },
+  };
+
+  const revisions = { record: jest.fn() };
+  const taxes = {
+    locationOf: jest.fn(() => ({})),
+    calculate: jest.fn(() => Promise.resolve(null)),
+  };
+  const fees = {
+    amountFor: (line: { amount: Prisma.Decimal }) => line.amount,
+  };
+
+  const credit = (
+    type: string,
+    amount: number,
+    approvalStatus: ServiceApprovalStatus | null = null,
+  ) => ({ type, amount: new Prisma.Decimal(amount), approvalStatus });
+
+  const line = (name: string, amount: number, overrides = {}) => ({
+    id: name,
+    name,
+    amount: new Prisma.Decimal(amount),
+    active: true,
+    selected: true,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    serviceRow = pendingService;
+    proposal = {
+      id: 'proposal-1',
+      proposalNumber: 'PROP-2026-0001',
+      status: ProposalStatus.DRAFT,
+      userId: client.id,
+      clientEmail: client.email,
+      services: [pendingService],
+      user: { id: client.id, name: 'Dana', email: client.email },
+      projectRequest: null,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProposalService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback?: string) => fallback },
+        },
+        { provide: MailerService, useValue: { queueMail: jest.fn() } },
+        {
+          provide: NotificationsService,
+          useValue: { notifyRoles: jest.fn(), notifyUser: jest.fn() },
+        },
+        { provide: RealtimeService, useValue: { publish: jest.fn() } },
+        { provide: ProposalPdfService, useValue: {} },
+        { provide: ProposalRevisionService, useValue: revisions },
+        { provide: ProposalTemplateService, useValue: {} },
+        { provide: InvoiceService, useValue: {} },
+        { provide: ProposalLinkService, useValue: {} },
+        { provide: ProposalSignatureService, useValue: {} },
+        { provide: NumberingService, useValue: {} },
+        { provide: TaxService, useValue: taxes },
+        { provide: ProposalFeeService, useValue: fees },
+        { provide: ProposalReviewService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(ProposalService);
+  });
+
+  describe('handleServiceApproval', () => {
+    it.each([
+      ProposalStatus.SENT,
+      ProposalStatus.VIEWED,
+      ProposalStatus.ACCEPTED,
+    ])('leaves services alone once the proposal is %s', async (status) => {
+      proposal.status = status;
+
+      await expect(
+        service.handleServiceApproval(
+          'proposal-1',
+          'service-1',
+          { action: 'approve' },
+          client,
+        ),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.proposalService.update).not.toHaveBeenCalled();
+    });
+
+    it('records the decision on a draft', async () => {
+      await service.handleServiceApproval(
+        'proposal-1',
+        'service-1',
+        { action: 'reject', rejectionReason: 'Not needed' },
+        client,
+      );
+
+      const [{ data }] = prisma.proposalService.update.mock.calls[0];
+      expect(data).toMatchObject({
+        approvalStatus: ServiceApprovalStatus.REJECTED,
+        active: false,
+      });
+    });
+  });
+
+  describe('recalculateTotals', () => {
+    it('prices only the services that will be billed', async () => {
+      proposal.manualTaxRate = new Prisma.Decimal(10);
+      proposal.credits = [];
+      proposal.services = [
+        line('design', 1000),
+        line('pending', 500, { active: false }),
+        line('rejected', 300, { active: false }),
+        line('add-on', 200, { optional: true, selected: false }),
+      ];
+
+      await service['recalculateTotals']('proposal-1');
+
+      const [{ data }] = prisma.proposal.update.mock.calls[0];
+      expect(data).toMatchObject({
+        subtotal: 1000,
+        taxAmount: 100,
+        totalAmount: 1100,
+      });
+    });
+
+    it('goes back to the manual rate once no tax rule applies', async () => {
+      proposal.manualTaxRate = new Prisma.Decimal(5);
+      proposal.taxRate = new Prisma.Decimal(8.25);
+      proposal.credits = [];
+      proposal.services = [line('design', 1000)];
+
+      await service['recalculateTotals']('proposal-1');
+
+      const [{ data }] = prisma.proposal.update.mock.calls[0];
+      expect(data).toMatchObject({
+        taxRate: proposal.manualTaxRate,
+        taxAmount: 50,
+        totalAmount: 1050,
+        taxBreakdown: Prisma.DbNull,
+      });
+    });
+  });
+
+  describe('credits', () => {
+    beforeEach(() => {
+      proposal.manualTaxRate = new Prisma.Decimal(10);
+      proposal.subtotal = new Prisma.Decimal(1000);
+      proposal.services = [line('design', 1000)];
+    });
+
+    it('applies only credits that need no approval or were approved', async () => {
+      proposal.credits = [
+        credit('DOLLAR_AMOUNT', 100, ServiceApprovalStatus.APPROVED),
+        credit('DOLLAR_AMOUNT', 200, ServiceApprovalStatus.PENDING_APPROVAL),
+        credit('PERCENTAGE', 50, ServiceApprovalStatus.REJECTED),
+        credit('PERCENTAGE', 10),
+      ];
+
+      await service['recalculateTotals']('proposal-1');
+
+      const [{ data }] = prisma.proposal.update.mock.calls[0];
+      expect(data).toMatchObject({ taxAmount: 80, totalAmount: 880 });
+    });
+
+    it('never takes the total below zero', async () => {
+      proposal.credits = [credit('DOLLAR_AMOUNT', 600)];
+      proposal.services = [line('design', 500)];
+
+      await service['recalculateTotals']('proposal-1');
+
+      const [{ data }] = prisma.proposal.update.mock.calls[0];
+      expect(data).toMatchObject({ taxAmount: 0, totalAmount: 0 });
+    });
+
+    it('refuses credits that add up to more than the subtotal', async () => {
+      prisma.proposalCredit.findMany.mockResolvedValueOnce([
+        credit('PERCENTAGE', 80),
+      ]);
+
+      await expect(
+        service.addCredit(
+          'proposal-1',
+          { type: 'DOLLAR_AMOUNT', amount: 300 },
+          manager,
+        ),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.proposalCredit.create).not.toHaveBeenCalled();
+    });
+
+    it.each([UserRole.ADMIN, UserRole.SUPER_ADMIN])(
+      'leaves discount sign-off to finance, not %s',
+      async (role) => {
+        await expect(
+          service.reviewCredit(
+            'proposal-1',
+            'credit-1',
+            { action: 'approve' },
+            { ...manager, role },
+          ),
+        ).rejects.toBeInstanceOf(ForbiddenException);
+      },
+    );
+  });
+
+  describe('selectService', () => {
+    beforeEach(() => {
+      proposal.status = ProposalStatus.SENT;
+      proposal.credits = [];
+      proposal.services = [line('design', 1000)];
+      serviceRow = addOn;
+    });
+
+    it('lets the client take an add-on until the proposal is signed', async () => {
+      await service.selectService(
+        'proposal-1',
+        addOn.id,
+        { selected: true },
+        client,
+      );
+
+      expect(prisma.proposalService.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: addOn.id,
+          proposal: { ownerSignature: null, architectSignature: null },
+        },
+        data: { selected: true },
+      });
+      expect(prisma.proposal.update).toHaveBeenCalled();
+      expect(revisions.record).toHaveBeenCalledWith(
+        'proposal-1',
+        ProposalRevisionReason.SELECTION_CHANGED,
+        client.id,
+      );
+    });
+
+    it('leaves the choice to the client', async () => {
+      await expect(
+        service.selectService(
+          'proposal-1',
+          addOn.id,
+          { selected: true },
+          manager,
+        ),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(prisma.proposalService.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('keeps required services in the deal', async () => {
+      serviceRow = { ...addOn, optional: false };
+
+      await expect(
+        service.selectServiceViaLink('proposal-1', addOn.id, false),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.proposalService.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('refuses changes once the proposal has been signed', async () => {
+      prisma.proposalService.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(
+        service.selectServiceViaLink('proposal-1', addOn.id, true),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(revisions.record).not.toHaveBeenCalled();
+    });
+
+    it('refuses changes to a draft', async () => {
+      proposal.status = ProposalStatus.DRAFT;
+
+      await expect(
+        service.selectServiceViaLink('proposal-1', addOn.id, true),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.proposalService.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
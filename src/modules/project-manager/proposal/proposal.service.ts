@@ -8,6 +8,8 @@ import {
 import { ConfigService } from '@nestjs/config';
 import {
   User,
+  Proposal,
+  ProposalCredit,
   ProposalStatus,
   ProjectStatus,
   StageStatus,
@@ -16,6 +18,10 @@ import {
   Prisma,
   ProjectCategory,
   ServiceApprovalStatus,
+  ProposalRevisionReason,
+  SignatureAuthMethod,
+  NumberedDocument,
+  FeeModel,
 } from '@prisma/client';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { MailerService } from 'src/utils/email/email.service';
@@ -23,12 +29,38 @@ import { CreateProposalDto } from './dto/create-proposal.dto';
 import { UpdateProposalDto } from './dto/update-proposal.dto';
 import { AddProposalServiceDto } from './dto/add-proposal-service.dto';
 import { ProposalSignatureDto } from './dto/proposal-signature.dto';
+import { SendProposalDto } from './dto/send-proposal.dto';
+import { ReviseProposalDto } from './dto/revise-proposal.dto';
+import { ExtendExpiryDto } from './dto/extend-expiry.dto';
+import { ServiceSelectionDto } from './dto/service-selection.dto';
+import {
+  CreateProposalCreditDto,
+  UpdateProposalCreditDto,
+  ReviewCreditDto,
+} from './dto/proposal-credit.dto';
 import { success } from 'zod';
 import { UpdateProposalServiceDto } from './dto/update-proposal-status.dto';
 import {
   AddServiceWithApprovalDto,
   ApproveServiceDto,
 } from './dto/service-approval.dto';
+import { NotificationsService } from 'src/modules/notifications/notifications.service';
+import { NotificationType } from 'src/modules/notifications/notification-type.constant';
+import { RealtimeService } from 'src/modules/realtime/realtime.service';
+import { RealtimeEvent } from 'src/modules/realtime/realtime-event.constant';
+import { ProposalPdfService } from './proposal-pdf.service';
+import { ProposalRevisionService } from './proposal-revision.service';
+import { ProposalLinkService } from './proposal-link.service';
+import type { AccessContext } from './proposal-link.service';
+import { ProposalSignatureService } from './proposal-signature.service';
+import { ProposalFeeService } from './proposal-fee.service';
+import { ProposalReviewService } from './proposal-review.service';
+import type { SignerContext } from './proposal-signature.service';
+import { ProposalTemplateService } from 'src/modules/project-manager/service-catalog/proposal-template.service';
+import { InvoiceService } from 'src/modules/finance/invoice.service';
+import { NumberingService } from 'src/modules/numbering/numbering.service';
+import { TaxService } from 'src/modules/tax/tax.service';
+import { isApplied, isBillable } from 'src/modules/finance/finance.constants';
 
 @Injectable()
 export class ProposalService {
@@ -52,16 +84,64 @@ export class ProposalService {
     ProposalStatus.VIEWED,
   ]);
 
+  // Sent versions that can be replaced by a new draft version
+  private readonly REVISABLE_STATUSES = new Set<ProposalStatus>([
+    ProposalStatus.SENT,
+    ProposalStatus.VIEWED,
+    ProposalStatus.REJECTED,
+    ProposalStatus.EXPIRED,
+  ]);
+
+  // Expired proposals can be reopened by moving the date
+  private readonly EXTENDABLE_STATUSES = new Set<ProposalStatus>([
+    ProposalStatus.DRAFT,
+    ProposalStatus.SENT,
+    ProposalStatus.VIEWED,
+    ProposalStatus.EXPIRED,
+  ]);
+
+  // May sign off discounts above DISCOUNT_APPROVAL_THRESHOLD_PERCENT
+  private readonly CREDIT_APPROVER_ROLES: UserRole[] = [
+    UserRole.FINANCE,
+    UserRole.HIGHER_MANAGER,
+  ];
+
   constructor(
     private prisma: PrismaService,
     private config: ConfigService,
     private mailer: MailerService,
+    private notifications: NotificationsService,
+    private realtime: RealtimeService,
+    private pdf: ProposalPdfService,
+    private revisions: ProposalRevisionService,
+    private templates: ProposalTemplateService,
+    private invoices: InvoiceService,
+    private links: ProposalLinkService,
+    private signatures: ProposalSignatureService,
+    private numbering: NumberingService,
+    private taxes: TaxService,
+    private fees: ProposalFeeService,
+    private reviews: ProposalReviewService,
   ) {}
 
   private canManage(user: User): boolean {
     return this.MANAGER_ROLES.has(user.role);
   }
 
+  /** Only drafts change; once sent, a client may be reading or signing it */
+  private assertEditable(status: ProposalStatus) {
+    if (status === ProposalStatus.DRAFT) return;
+
+    if (status === ProposalStatus.ACCEPTED) {
+      throw new BadRequestException(
+        'Accepted proposals can only be changed through an amendment',
+      );
+    }
+    throw new BadRequestException(
+      `Proposal is ${status} and read-only; revise it to make changes`,
+    );
+  }
+
   async create(dto: CreateProposalDto, user: User) {
     if (!this.canManage(user)) {
       throw new ForbiddenException('Only managers can create proposals');
@@ -87,11 +167,7 @@ export class ProposalService {
       // throw new BadRequestException('Cannot create proposal: no registered client user linked to this request');
     }
 
-    const year = new Date().getFullYear();
-    const count = await this.prisma.proposal.count({
-      where: { proposalNumber: { startsWith: `PROP-${year}-` } },
-    });
-    const proposalNumber = `PROP-${year}-${String(count + 1).padStart(4, '0')}`;
+    const proposalNumber = await this.numbering.next(NumberedDocument.PROPOSAL);
 
     const locationParts = [
       dto.streetAddress,
@@ -101,6 +177,17 @@ export class ProposalService {
     ].filter(Boolean);
     const projectLocation = locationParts.join(', ') || '';
 
+    const fromTemplate = dto.templateId
+      ? await this.templates.resolve(dto.templateId)
+      : null;
+    const template = fromTemplate?.template;
+
+    if (template?.serviceType && template.serviceType !== dto.serviceType) {
+      throw new BadRequestException(
+        `Template "${template.name}" is for ${template.serviceType} projects`,
+      );
+    }
+
     const data: Prisma.ProposalCreateInput = {
       projectRequest: { connect: { id: dto.projectRequestId } },
 
@@ -116,6 +203,7 @@ export class ProposalService {
       serviceType: dto.serviceType,
       projectCategory: dto.projectCategory,
       squareFootage: dto.squareFootage?.trim(),
+      estimatedConstructionCost: dto.estimatedConstructionCost,
       budgetRange: dto.budgetRange?.trim(),
       expectedTimeline: dto.expectedTimeline?.trim(),
       clientName:
@@ -123,14 +211,18 @@ export class ProposalService {
       clientEmail: projectRequest.email,
       clientPhone: projectRequest.phone ?? undefined,
       clientCompany: projectRequest.companyName ?? undefined,
-      taxRate: dto.taxRate ?? undefined,
-      paymentMethod: dto.paymentMethod,
-      paymentTerms: dto.paymentTerms,
+      // Explicit values win over the template's defaults
+      taxRate: dto.taxRate ?? template?.taxRate ?? undefined,
+      manualTaxRate: dto.taxRate ?? template?.taxRate ?? undefined,
+      paymentMethod: dto.paymentMethod ?? template?.paymentMethod,
+      paymentTerms: dto.paymentTerms ?? template?.paymentTerms,
       notes: dto.notes?.trim(),
-      termsAndConditions: dto.termsAndConditions?.trim(),
+      termsAndConditions:
+        dto.termsAndConditions?.trim() ?? template?.termsAndConditions,
       expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : undefined,
       createdBy: { connect: { id: user.id } },
       status: ProposalStatus.DRAFT,
+      services: fromTemplate ? { create: fromTemplate.services } : undefined,
     };
 
     const proposal = await this.prisma.proposal.create({
@@ -176,6 +268,20 @@ export class ProposalService {
         `(for request ${dto.projectRequestId}, client: ${proposal.clientName}, userId: ${proposal.userId || 'none'})`,
     );
 
+    if (template) {
+      const totals = await this.recalculateTotals(proposal.id);
+      Object.assign(proposal, totals);
+      this.logger.log(
+        `Proposal ${proposal.proposalNumber} created from template "${template.name}"`,
+      );
+    }
+
+    await this.revisions.record(
+      proposal.id,
+      ProposalRevisionReason.CREATED,
+      user.id,
+    );
+
     return {
       success: true,
       message: 'Proposal created successfully',
@@ -431,15 +537,8 @@ export class ProposalService {
   //   };
   // }
 
-  async sign(id: string, dto: ProposalSignatureDto, user: User) {
-    const proposal = await this.prisma.proposal.findUnique({
-      where: { id },
-      include: {
-        projectRequest: true,
-        services: { orderBy: { order: 'asc' } },
-        user: true,
-      },
-    });
+  private async findSignable(id: string) {
+    const proposal = await this.prisma.proposal.findUnique({ where: { id } });
 
     if (!proposal) {
       throw new NotFoundException('Proposal not found');
@@ -449,6 +548,24 @@ export class ProposalService {
       throw new BadRequestException('Proposal must be SENT or VIEWED to sign');
     }
 
+    // The expiry job may not have run yet
+    if (proposal.expiresAt && proposal.expiresAt <= new Date()) {
+      throw new BadRequestException(
+        'Proposal has expired and can no longer be signed',
+      );
+    }
+
+    return proposal;
+  }
+
+  async sign(
+    id: string,
+    dto: ProposalSignatureDto,
+    user: User,
+    context: AccessContext = {},
+  ) {
+    const proposal = await this.findSignable(id);
+
     let updateData: Prisma.ProposalUpdateInput = {};
 
     if (dto.type === 'owner') {
@@ -473,7 +590,145 @@ export class ProposalService {
       throw new BadRequestException('Invalid signature type');
     }
 
-    return this.prisma.$transaction(async (tx) => {
+    return this.applySignature(id, updateData, {
+      ...context,
+      signedAs: dto.type,
+      name:
+        dto.type === 'owner' ? proposal.clientName : user.name || user.email,
+      email: user.email,
+      userId: user.id,
+      authMethod: SignatureAuthMethod.SESSION,
+    });
+  }
+
+  /**
+   * Owner signature from a public proposal link. Holding the link stands in
+   * for being logged in as the client.
+   */
+  async signAsOwnerViaLink(
+    id: string,
+    signature: string,
+    context: AccessContext = {},
+  ) {
+    const proposal = await this.findSignable(id);
+
+    return this.applySignature(
+      id,
+      {
+        ownerSignature: signature,
+        ownerSignedAt: new Date(),
+        ownerSignedBy: proposal.clientName,
+      },
+      {
+        ...context,
+        signedAs: 'owner',
+        name: proposal.clientName,
+        email: proposal.clientEmail,
+        userId: proposal.userId ?? undefined,
+        authMethod: SignatureAuthMethod.PUBLIC_LINK,
+      },
+    );
+  }
+
+  /** Client takes or leaves an optional add-on while reviewing */
+  async selectService(
+    id: string,
+    serviceId: string,
+    dto: ServiceSelectionDto,
+    user: User,
+  ) {
+    const proposal = await this.findSignable(id);
+
+    if (proposal.userId !== user.id && proposal.clientEmail !== user.email) {
+      throw new ForbiddenException('Only the client can choose add-ons');
+    }
+
+    return this.applySelection(proposal, serviceId, dto.selected, user.id);
+  }
+
+  /** Add-on choice from a public proposal link */
+  async selectServiceViaLink(id: string, serviceId: string, selected: boolean) {
+    const proposal = await this.findSignable(id);
+    return this.applySelection(proposal, serviceId, selected);
+  }
+
+  private async applySelection(
+    proposal: Proposal,
+    serviceId: string,
+    selected: boolean,
+    userId?: string,
+  ) {
+    const service = await this.prisma.proposalService.findFirst({
+      where: { id: serviceId, proposalId: proposal.id },
+    });
+
+    if (!service) {
+      throw new NotFoundException('Service not found in this proposal');
+    }
+
+    if (!service.optional) {
+      throw new BadRequestException(
+        'Only optional add-ons can be selected or deselected',
+      );
+    }
+
+    // What gets signed is frozen from the first signature on
+    const { count } = await this.prisma.proposalService.updateMany({
+      where: {
+        id: serviceId,
+        proposal: { ownerSignature: null, architectSignature: null },
+      },
+      data: { selected },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException(
+        'Add-ons cannot be changed once the proposal has been signed',
+      );
+    }
+
+    const totals = await this.recalculateTotals(proposal.id);
+
+    if (service.selected !== selected) {
+      await this.revisions.record(
+        proposal.id,
+        ProposalRevisionReason.SELECTION_CHANGED,
+        userId,
+      );
+
+      this.realtime.publish(
+        { userIds: [proposal.userId], roles: this.MANAGER_ROLES_ARRAY },
+        RealtimeEvent.PROPOSAL_TOTALS_UPDATED,
+        {
+          proposalId: proposal.id,
+          proposalNumber: proposal.proposalNumber,
+          serviceId,
+          selected,
+          ...totals,
+        },
+      );
+
+      this.logger.log(
+        `Add-on "${service.name}" ${selected ? 'selected' : 'deselected'} on proposal ${proposal.proposalNumber}`,
+      );
+    }
+
+    return {
+      success: true,
+      message: `"${service.name}" ${selected ? 'added to' : 'removed from'} the proposal`,
+      data: {
+        service: { ...service, selected },
+        proposal: totals,
+      },
+    };
+  }
+
+  private async applySignature(
+    id: string,
+    updateData: Prisma.ProposalUpdateInput,
+    signer: SignerContext,
+  ) {
+    const signed = await this.prisma.$transaction(async (tx) => {
       // Update proposal with signature
       const updatedProposal = await tx.proposal.update({
         where: { id },
@@ -498,6 +753,7 @@ export class ProposalService {
           },
         },
       });
+      await this.signatures.record(tx, id, signer);
 
       // Check if both signatures are present
       if (
@@ -513,8 +769,11 @@ export class ProposalService {
           },
         });
 
+        // Only the services the client ended up with become stages
+        const stagedServices = updatedProposal.services.filter(isBillable);
+
         let order = 0;
-        for (const service of updatedProposal.services) {
+        for (const service of stagedServices) {
           await tx.projectStage.create({
             data: {
               proposalId: updatedProposal.id,
@@ -544,7 +803,7 @@ export class ProposalService {
         );
 
         // Notify client
-        await this.mailer.sendMail({
+        await this.mailer.queueMail({
           to: updatedProposal.clientEmail,
           subject: `Proposal Accepted: ${updatedProposal.projectName}`,
           html: `
@@ -557,7 +816,7 @@ export class ProposalService {
               <h3 style="margin: 0 0 10px 0;">Project Details</h3>
               <p style="margin: 5px 0;"><strong>Project:</strong> ${updatedProposal.projectName}</p>
               <p style="margin: 5px 0;"><strong>Proposal:</strong> ${updatedProposal.proposalNumber}</p>
-              <p style="margin: 5px 0;"><strong>Stages:</strong> ${updatedProposal.services.length}</p>
+              <p style="margin: 5px 0;"><strong>Stages:</strong> ${stagedServices.length}</p>
               <p style="margin: 5px 0;"><strong>Total Amount:</strong> $${Number(updatedProposal.totalAmount).toFixed(2)}</p>
             </div>
             
@@ -588,7 +847,7 @@ export class ProposalService {
         });
 
         for (const member of team) {
-          await this.mailer.sendMail({
+          await this.mailer.queueMail({
             to: member.email,
             subject: `Proposal Accepted: ${updatedProposal.projectName}`,
             html: `
@@ -601,7 +860,7 @@ export class ProposalService {
                 <p><strong>Project:</strong> ${updatedProposal.projectName}</p>
                 <p><strong>Client:</strong> ${updatedProposal.clientName}</p>
                 <p><strong>Proposal:</strong> ${updatedProposal.proposalNumber}</p>
-                <p><strong>Stages:</strong> ${updatedProposal.services.length}</p>
+                <p><strong>Stages:</strong> ${stagedServices.length}</p>
                 <p><strong>Total:</strong> $${Number(updatedProposal.totalAmount).toFixed(2)}</p>
               </div>
               
@@ -625,6 +884,54 @@ export class ProposalService {
 
       return updatedProposal;
     });
+
+    if (signed.ownerSignature && signed.architectSignature) {
+      await this.revisions.record(
+        signed.id,
+        ProposalRevisionReason.ACCEPTED,
+        signer.userId,
+      );
+
+      // Finance reviews and issues the drafts; signing must not fail on them
+      try {
+        await this.invoices.generateForProposal(signed.id);
+      } catch (error) {
+        this.logger.error(
+          `Could not draft invoices for proposal ${signed.proposalNumber}`,
+          error,
+        );
+      }
+
+      await this.notifications.notifyUser(signed.userId, {
+        type: NotificationType.PROPOSAL_ACCEPTED,
+        title: 'Proposal accepted',
+        message: `Proposal ${signed.proposalNumber} for "${signed.projectName}" is fully signed. Your project stages are now available.`,
+        link: `/dashboard/proposals/${signed.id}`,
+      });
+      await this.notifications.notifyRoles(this.MANAGER_ROLES_ARRAY, {
+        type: NotificationType.PROPOSAL_ACCEPTED,
+        title: 'Proposal accepted',
+        message: `${signed.clientName} signed proposal ${signed.proposalNumber} (${signed.projectName}).`,
+        link: `/admin/proposals/${signed.id}`,
+      });
+    }
+
+    const fullySigned = !!(signed.ownerSignature && signed.architectSignature);
+    this.realtime.publish(
+      { userIds: [signed.userId], roles: this.MANAGER_ROLES_ARRAY },
+      RealtimeEvent.PROPOSAL_SIGNED,
+      {
+        proposalId: signed.id,
+        proposalNumber: signed.proposalNumber,
+        signedAs: signer.signedAs,
+        status: fullySigned ? ProposalStatus.ACCEPTED : signed.status,
+        ownerSignedAt: signed.ownerSignedAt,
+        architectSignedAt: signed.architectSignedAt,
+        fullySigned,
+      },
+    );
+
+    return signed;
   }
 
   async findOneWithFullData(id: string, user: User) {
@@ -693,10 +1000,11 @@ export class ProposalService {
 
     // Check permissions - FIXED
     const isManager = this.canManage(user);
+    const isReviewer = this.reviews.isReviewer(user);
     const isOwner =
       proposal.userId === user.id || proposal.clientEmail === user.email;
 
-    if (!isManager && !isOwner) {
+    if (!isManager && !isReviewer && !isOwner) {
       throw new ForbiddenException('Not authorized to view this proposal');
     }
 
@@ -717,10 +1025,19 @@ export class ProposalService {
       proposal.viewedAt = new Date();
     }
 
+    // Internal sign-off is staff-only
+    const internal =
+      isManager || isReviewer
+        ? {
+            reviews: await this.reviews.findForProposal(id),
+            reviewReasons: this.reviews.reviewReasons(proposal),
+          }
+        : {};
+
     return {
       success: true,
       message: 'Successfully retrieved proposal details',
-      data: proposal,
+      data: { ...proposal, ...internal },
     };
   }
 
@@ -1214,25 +1531,43 @@ async findOne(id: string, user: User) {
       throw new ForbiddenException('Access denied');
     }
 
-    const proposal = await this.prisma.proposal.findUnique({ where: { id } });
+    const proposal = await this.prisma.proposal.findUnique({
+      where: { id },
+      include: { services: { select: { feeModel: true } } },
+    });
     if (!proposal) {
       throw new NotFoundException('Proposal not found');
     }
 
-    if (proposal.status !== ProposalStatus.DRAFT) {
-      throw new BadRequestException('Only DRAFT proposals can be updated');
-    }
+    this.assertEditable(proposal.status);
+    this.assertFeeBasis(proposal.services, dto);
 
-    return this.prisma.proposal.update({
+    await this.prisma.proposal.update({
       where: { id },
       data: {
         title: dto.name?.trim(),
         projectName: dto.name?.trim(),
         projectDescription: dto.description?.trim(),
         additionalContext: dto.additionalContext?.trim(),
+        squareFootage: dto.squareFootage?.trim(),
+        estimatedConstructionCost: dto.estimatedConstructionCost,
         budgetRange: dto.budgetRange?.trim(),
         expectedTimeline: dto.expectedTimeline?.trim(),
       },
+    });
+
+    // Derived fees are priced on these, so reprice the lines
+    if (
+      dto.squareFootage !== undefined ||
+      dto.estimatedConstructionCost !== undefined
+    ) {
+      await this.recalculateTotals(id);
+    }
+
+    await this.revisions.record(id, ProposalRevisionReason.UPDATED, user.id);
+
+    return this.prisma.proposal.findUniqueOrThrow({
+      where: { id },
       include: {
         services: true,
         projectRequest: true,
@@ -1297,11 +1632,7 @@ async findOne(id: string, user: User) {
       throw new NotFoundException('Proposal not found');
     }
 
-    if (proposal.status !== ProposalStatus.DRAFT) {
-      throw new BadRequestException(
-        'Cannot add services to non-DRAFT proposal',
-      );
-    }
+    this.assertEditable(proposal.status);
 
     const maxOrder = proposal.services.reduce(
       (max, s) => Math.max(max, s.order ?? 0),
@@ -1313,14 +1644,21 @@ async findOne(id: string, user: User) {
         proposalId: id,
         name: dto.name.trim(),
         description: dto.description?.trim() ?? null,
-        amount: dto.cost,
-        rate: dto.cost,
-        quantity: 1,
+        ...this.fees.resolve(dto, proposal),
+        unit: dto.unit?.trim(),
+        timelineWeeks: dto.timelineWeeks,
+        optional: dto.optional ?? false,
+        selected: dto.optional ? (dto.selected ?? false) : true,
         order: maxOrder + 1,
       },
     });
 
     await this.recalculateTotals(id);
+    await this.revisions.record(
+      id,
+      ProposalRevisionReason.SERVICE_ADDED,
+      user.id,
+    );
 
     return {
       success: true,
@@ -1347,11 +1685,7 @@ async findOne(id: string, user: User) {
       throw new NotFoundException('Proposal not found');
     }
 
-    if (proposal.status !== ProposalStatus.DRAFT) {
-      throw new BadRequestException(
-        'Cannot update services in non-DRAFT proposal',
-      );
-    }
+    this.assertEditable(proposal.status);
 
     const service = await this.prisma.proposalService.findFirst({
       where: {
@@ -1364,21 +1698,30 @@ async findOne(id: string, user: User) {
       throw new NotFoundException('Service not found in this proposal');
     }
 
+    const optional = dto.optional ?? service.optional;
+
     // Update the service
     const updated = await this.prisma.proposalService.update({
       where: { id: serviceId },
       data: {
         name: dto.name?.trim() || service.name,
         description: dto.description?.trim() ?? service.description,
-        amount: dto.cost ?? service.amount,
-        rate: dto.cost ?? service.rate,
-        quantity: dto.quantity ?? service.quantity,
+        ...this.fees.resolve(dto, proposal, service),
+        unit: dto.unit?.trim() ?? service.unit,
+        optional,
+        // Required services are always part of the deal
+        selected: optional ? (dto.selected ?? service.selected) : true,
         order: dto.order ?? service.order,
       },
     });
 
     // Recalculate totals
     await this.recalculateTotals(proposalId);
+    await this.revisions.record(
+      proposalId,
+      ProposalRevisionReason.SERVICE_UPDATED,
+      user.id,
+    );
 
     // Get updated proposal
     const updatedProposal = await this.prisma.proposal.findUnique({
@@ -1419,11 +1762,7 @@ async findOne(id: string, user: User) {
       throw new NotFoundException('Proposal not found');
     }
 
-    if (proposal.status !== ProposalStatus.DRAFT) {
-      throw new BadRequestException(
-        'Cannot delete services from non-DRAFT proposal',
-      );
-    }
+    this.assertEditable(proposal.status);
 
     const service = await this.prisma.proposalService.findFirst({
       where: {
@@ -1455,6 +1794,11 @@ async findOne(id: string, user: User) {
 
     // Recalculate totals
     await this.recalculateTotals(proposalId);
+    await this.revisions.record(
+      proposalId,
+      ProposalRevisionReason.SERVICE_DELETED,
+      user.id,
+    );
 
     // Fetch updated proposal
     const updatedProposal = await this.prisma.proposal.findUnique({
@@ -1495,63 +1839,101 @@ async findOne(id: string, user: User) {
     };
   }
 
-  //=====================for the service ==============
+  //=====================for the credits ==============
 
-  private async recalculateTotals(proposalId: string) {
-    const proposal = await this.prisma.proposal.findUnique({
-      where: { id: proposalId },
-      include: {
-        services: true,
-        credits: true,
-      },
-    });
+  private canApproveCredits(user: User): boolean {
+    return this.CREDIT_APPROVER_ROLES.includes(user.role);
+  }
 
-    if (!proposal) return;
+  /** Dollar value of a credit against the proposal subtotal */
+  private creditDiscount(
+    credit: { type: string; amount: Prisma.Decimal | number },
+    subtotal: number,
+  ) {
+    return credit.type === 'PERCENTAGE'
+      ? (subtotal * Number(credit.amount)) / 100
+      : Number(credit.amount);
+  }
+
+  /** Whether a credit is large enough to need finance sign-off */
+  private creditNeedsApproval(
+    credit: { type: string; amount: Prisma.Decimal | number },
+    subtotal: number,
+  ) {
+    const discount = this.creditDiscount(credit, subtotal);
+    if (discount <= 0) return false;
+    if (subtotal <= 0) return true;
+
+    const threshold = this.config.get<number>(
+      'discountApproval.thresholdPercent',
+      10,
+    );
+    return (discount / subtotal) * 100 > threshold;
+  }
+
+  private assertCreditTerms(type: string, amount: number) {
+    if (type === 'PERCENTAGE' && amount > 100) {
+      throw new BadRequestException('A percentage credit cannot exceed 100');
+    }
+  }
 
-    // Calculate subtotal
-    const subtotal = proposal.services.reduce(
-      (sum, s) => sum + Number(s.amount || 0),
+  /** Credits that are not rejected may not add up to more than the subtotal */
+  private async assertCreditsWithinSubtotal(
+    proposal: Proposal,
+    credit: { type: string; amount: number },
+    replacingId?: string,
+  ) {
+    const others = await this.prisma.proposalCredit.findMany({
+      where: {
+        proposalId: proposal.id,
+        id: replacingId ? { not: replacingId } : undefined,
+        approvalStatus: { not: ServiceApprovalStatus.REJECTED },
+      },
+    });
+    const subtotal = Number(proposal.subtotal);
+    const discount = [...others, credit].reduce(
+      (sum, item) => sum + this.creditDiscount(item, subtotal),
       0,
     );
 
-    // Calculate credits
-    let creditsTotal = 0;
-    if (proposal.credits) {
-      creditsTotal = proposal.credits.reduce((sum, credit) => {
-        if (credit.type === 'DOLLAR_AMOUNT') {
-          return sum + Number(credit.amount);
-        } else {
-          return sum + (subtotal * Number(credit.amount)) / 100;
-        }
-      }, 0);
+    if (discount > subtotal) {
+      throw new BadRequestException(
+        `Credits would total $${discount.toFixed(2)}, more than the $${subtotal.toFixed(2)} subtotal`,
+      );
     }
+  }
 
-    const afterCredits = subtotal - creditsTotal;
-    const taxRate = Number(proposal.taxRate || 0);
-    const taxAmount = (afterCredits * taxRate) / 100;
-    const totalAmount = afterCredits + taxAmount;
+  private async findEditableForCredits(proposalId: string, user: User) {
+    if (!this.canManage(user)) {
+      throw new ForbiddenException('Access denied');
+    }
 
-    await this.prisma.proposal.update({
+    const proposal = await this.prisma.proposal.findUnique({
       where: { id: proposalId },
-      data: {
-        subtotal,
-        taxAmount,
-        totalAmount,
-      },
     });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    this.assertEditable(proposal.status);
+    return proposal;
   }
 
-  async send(id: string, user: User) {
-    if (!this.canManage(user)) {
+  async findCredits(proposalId: string, user: User) {
+    if (!this.canManage(user) && !this.canApproveCredits(user)) {
       throw new ForbiddenException('Access denied');
     }
 
     const proposal = await this.prisma.proposal.findUnique({
-      where: { id },
+      where: { id: proposalId },
       include: {
-        services: true,
-        projectRequest: true,
-        user: true,
+        credits: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            createdBy: { select: { id: true, name: true, email: true } },
+          },
+        },
       },
     });
 
@@ -1559,36 +1941,579 @@ async findOne(id: string, user: User) {
       throw new NotFoundException('Proposal not found');
     }
 
-    if (proposal.status !== ProposalStatus.DRAFT) {
-      throw new BadRequestException('Only DRAFT proposals can be sent');
-    }
+    const subtotal = Number(proposal.subtotal);
 
-    if (proposal.services.length === 0) {
-      throw new BadRequestException('Proposal must have at least one service');
-    }
+    return {
+      success: true,
+      message: 'Successfully retrieved proposal credits',
+      data: {
+        proposalId: proposal.id,
+        proposalNumber: proposal.proposalNumber,
+        subtotal: proposal.subtotal,
+        totalAmount: proposal.totalAmount,
+        credits: proposal.credits.map((credit) => ({
+          ...credit,
+          discountAmount: this.creditDiscount(credit, subtotal),
+        })),
+      },
+    };
+  }
 
-    // Update status and sent date
-    await this.prisma.proposal.update({
-      where: { id },
+  async addCredit(
+    proposalId: string,
+    dto: CreateProposalCreditDto,
+    user: User,
+  ) {
+    const proposal = await this.findEditableForCredits(proposalId, user);
+    this.assertCreditTerms(dto.type, dto.amount);
+    await this.assertCreditsWithinSubtotal(proposal, dto);
+
+    const needsApproval = this.creditNeedsApproval(
+      dto,
+      Number(proposal.subtotal),
+    );
+
+    const credit = await this.prisma.proposalCredit.create({
       data: {
-        status: ProposalStatus.SENT,
-        sentAt: new Date(),
+        proposalId,
+        type: dto.type,
+        amount: new Prisma.Decimal(dto.amount),
+        description: dto.description?.trim() || null,
+        approvalStatus: needsApproval
+          ? ServiceApprovalStatus.PENDING_APPROVAL
+          : null,
+        createdById: user.id,
       },
     });
 
-    // Send email to client
-    const frontendUrl = this.config.get(
-      'FRONTEND_URL',
-      'http://localhost:3000',
+    const totals = await this.recalculateTotals(proposalId);
+    await this.revisions.record(
+      proposalId,
+      ProposalRevisionReason.CREDIT_ADDED,
+      user.id,
     );
-    const proposalUrl = `${frontendUrl}/proposals/${id}`;
 
-    await this.mailer.sendMail({
-      to: proposal.clientEmail,
-      subject: `Proposal Ready: ${proposal.projectName}`,
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2 style="color: #2563eb;">New Proposal Available</h2>
+    if (needsApproval) {
+      await this.requestCreditApproval(proposal, credit, user);
+    }
+
+    this.logger.log(
+      `Credit ${credit.id} added to proposal ${proposal.proposalNumber} by ${user.email}${needsApproval ? ' - Requires approval' : ''}`,
+    );
+
+    return {
+      success: true,
+      message: needsApproval
+        ? 'Credit added and sent for finance approval'
+        : 'Credit added successfully',
+      data: { credit, proposal: totals },
+    };
+  }
+
+  async updateCredit(
+    proposalId: string,
+    creditId: string,
+    dto: UpdateProposalCreditDto,
+    user: User,
+  ) {
+    const proposal = await this.findEditableForCredits(proposalId, user);
+
+    const existing = await this.prisma.proposalCredit.findFirst({
+      where: { id: creditId, proposalId },
+    });
+
+    if (!existing) {
+      throw new NotFoundException('Credit not found in this proposal');
+    }
+
+    const type = dto.type ?? existing.type;
+    const amount = dto.amount ?? Number(existing.amount);
+    this.assertCreditTerms(type, amount);
+    await this.assertCreditsWithinSubtotal(
+      proposal,
+      { type, amount },
+      creditId,
+    );
+
+    // Changed terms void any earlier decision
+    const termsChanged =
+      type !== existing.type || amount !== Number(existing.amount);
+    const needsApproval = this.creditNeedsApproval(
+      { type, amount },
+      Number(proposal.subtotal),
+    );
+    const approvalStatus = !needsApproval
+      ? null
+      : termsChanged || !existing.approvalStatus
+        ? ServiceApprovalStatus.PENDING_APPROVAL
+        : existing.approvalStatus;
+
+    const credit = await this.prisma.proposalCredit.update({
+      where: { id: creditId },
+      data: {
+        type,
+        amount: new Prisma.Decimal(amount),
+        description:
+          dto.description !== undefined
+            ? dto.description.trim() || null
+            : undefined,
+        approvalStatus,
+      },
+    });
+
+    const totals = await this.recalculateTotals(proposalId);
+    await this.revisions.record(
+      proposalId,
+      ProposalRevisionReason.CREDIT_UPDATED,
+      user.id,
+    );
+
+    if (
+      approvalStatus === ServiceApprovalStatus.PENDING_APPROVAL &&
+      existing.approvalStatus !== ServiceApprovalStatus.PENDING_APPROVAL
+    ) {
+      await this.requestCreditApproval(proposal, credit, user);
+    }
+
+    this.logger.log(
+      `Credit ${creditId} on proposal ${proposal.proposalNumber} updated by ${user.email}`,
+    );
+
+    return {
+      success: true,
+      message: 'Credit updated successfully',
+      data: { credit, proposal: totals },
+    };
+  }
+
+  async deleteCredit(proposalId: string, creditId: string, user: User) {
+    const proposal = await this.findEditableForCredits(proposalId, user);
+
+    const credit = await this.prisma.proposalCredit.findFirst({
+      where: { id: creditId, proposalId },
+    });
+
+    if (!credit) {
+      throw new NotFoundException('Credit not found in this proposal');
+    }
+
+    // Approval records keep their copy of the terms
+    await this.prisma.proposalCredit.delete({ where: { id: creditId } });
+
+    const totals = await this.recalculateTotals(proposalId);
+    await this.revisions.record(
+      proposalId,
+      ProposalRevisionReason.CREDIT_DELETED,
+      user.id,
+    );
+
+    this.logger.log(
+      `Credit ${creditId} deleted from proposal ${proposal.proposalNumber} by ${user.email}`,
+    );
+
+    return {
+      success: true,
+      message: 'Credit deleted successfully',
+      data: { deletedCreditId: creditId, proposal: totals },
+    };
+  }
+
+  async reviewCredit(
+    proposalId: string,
+    creditId: string,
+    dto: ReviewCreditDto,
+    user: User,
+  ) {
+    if (!this.canApproveCredits(user)) {
+      throw new ForbiddenException(
+        'Only finance or higher management can approve discounts',
+      );
+    }
+
+    const proposal = await this.prisma.proposal.findUnique({
+      where: { id: proposalId },
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    this.assertEditable(proposal.status);
+
+    const credit = await this.prisma.proposalCredit.findFirst({
+      where: { id: creditId, proposalId },
+    });
+
+    if (!credit) {
+      throw new NotFoundException('Credit not found in this proposal');
+    }
+
+    if (credit.approvalStatus !== ServiceApprovalStatus.PENDING_APPROVAL) {
+      throw new BadRequestException('Credit is not awaiting approval');
+    }
+
+    if (credit.createdById === user.id) {
+      throw new ForbiddenException('You cannot approve your own discount');
+    }
+
+    const reason = dto.reason?.trim();
+    if (dto.action === 'reject' && !reason) {
+      throw new BadRequestException(
+        'A reason is required when rejecting a discount',
+      );
+    }
+
+    const decision =
+      dto.action === 'approve'
+        ? ServiceApprovalStatus.APPROVED
+        : ServiceApprovalStatus.REJECTED;
+    const subtotal = Number(proposal.subtotal);
+
+    const [updated, approval] = await this.prisma.$transaction([
+      this.prisma.proposalCredit.update({
+        where: { id: creditId },
+        data: { approvalStatus: decision },
+      }),
+      this.prisma.proposalCreditApproval.create({
+        data: {
+          proposalId,
+          creditId,
+          decision,
+          creditType: credit.type,
+          creditAmount: credit.amount,
+          discountAmount: new Prisma.Decimal(
+            this.creditDiscount(credit, subtotal).toFixed(2),
+          ),
+          subtotal: proposal.subtotal,
+          description: credit.description,
+          reason: reason || null,
+          decidedById: user.id,
+        },
+      }),
+    ]);
+
+    // Only approved credits count against the price
+    const totals = await this.recalculateTotals(proposalId);
+    await this.revisions.record(
+      proposalId,
+      ProposalRevisionReason.CREDIT_UPDATED,
+      user.id,
+    );
+
+    const verb = dto.action === 'approve' ? 'approved' : 'rejected';
+
+    await this.notifications.notifyUser(
+      credit.createdById ?? proposal.createdById,
+      {
+        type: NotificationType.DISCOUNT_APPROVAL_DECIDED,
+        title: `Discount ${verb}`,
+        message: `A discount on proposal ${proposal.proposalNumber} was ${verb} by ${user.name || user.email}.${reason ? ` Reason: ${reason}` : ''}`,
+        link: `/admin/proposals/${proposalId}`,
+      },
+    );
+
+    this.logger.log(
+      `Credit ${creditId} on proposal ${proposal.proposalNumber} ${verb} by ${user.email}`,
+    );
+
+    return {
+      success: true,
+      message: `Discount ${verb} successfully`,
+      data: { credit: updated, approval, proposal: totals },
+    };
+  }
+
+  async findCreditApprovals(proposalId: string, user: User) {
+    if (!this.canManage(user) && !this.canApproveCredits(user)) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    const proposal = await this.prisma.proposal.findUnique({
+      where: { id: proposalId },
+      select: { id: true },
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    const approvals = await this.prisma.proposalCreditApproval.findMany({
+      where: { proposalId },
+      include: {
+        decidedBy: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return {
+      success: true,
+      message: 'Successfully retrieved discount approvals',
+      data: approvals,
+    };
+  }
+
+  /**
+   * Credits over the threshold that are not approved, re-checked against the
+   * current subtotal. Ones that crossed it through service changes are put
+   * up for approval here.
+   */
+  private async unapprovedCredits(proposal: Proposal, user: User) {
+    const credits = await this.prisma.proposalCredit.findMany({
+      where: { proposalId: proposal.id },
+    });
+    const subtotal = Number(proposal.subtotal);
+
+    const blocking = credits.filter(
+      (credit) =>
+        this.creditNeedsApproval(credit, subtotal) &&
+        credit.approvalStatus !== ServiceApprovalStatus.APPROVED,
+    );
+
+    for (const credit of blocking) {
+      if (credit.approvalStatus !== null) continue;
+
+      const pending = await this.prisma.proposalCredit.update({
+        where: { id: credit.id },
+        data: { approvalStatus: ServiceApprovalStatus.PENDING_APPROVAL },
+      });
+      await this.requestCreditApproval(proposal, pending, user);
+    }
+
+    return blocking;
+  }
+
+  private async requestCreditApproval(
+    proposal: Proposal,
+    credit: ProposalCredit,
+    requestedBy: User,
+  ) {
+    const discount = this.creditDiscount(credit, Number(proposal.subtotal));
+    const terms =
+      credit.type === 'PERCENTAGE'
+        ? `${Number(credit.amount)}% ($${discount.toFixed(2)})`
+        : `$${discount.toFixed(2)}`;
+
+    await this.notifications.notifyRoles(
+      this.CREDIT_APPROVER_ROLES,
+      {
+        type: NotificationType.DISCOUNT_APPROVAL_REQUESTED,
+        title: 'Discount needs approval',
+        message: `${requestedBy.name || requestedBy.email} added a ${terms} discount to proposal ${proposal.proposalNumber} for ${proposal.clientName}.`,
+        link: `/admin/proposals/${proposal.id}`,
+      },
+      requestedBy.id,
+    );
+  }
+
+  /** Keeps the construction cost and size that derived fees are priced on */
+  private assertFeeBasis(
+    services: { feeModel: FeeModel }[],
+    dto: UpdateProposalDto,
+  ) {
+    const models = new Set(services.map((service) => service.feeModel));
+
+    if (
+      models.has(FeeModel.PERCENT_OF_CONSTRUCTION) &&
+      dto.estimatedConstructionCost === null
+    ) {
+      throw new BadRequestException(
+        'Percentage fees need an estimated construction cost',
+      );
+    }
+
+    if (
+      models.has(FeeModel.PER_SQUARE_FOOT) &&
+      dto.squareFootage !== undefined &&
+      this.fees.squareFeet(dto.squareFootage) === null
+    ) {
+      throw new BadRequestException(
+        'Per-square-foot fees need a numeric square footage',
+      );
+    }
+  }
+
+  //=====================for the service ==============
+
+  private async recalculateTotals(proposalId: string) {
+    const proposal = await this.prisma.proposal.findUnique({
+      where: { id: proposalId },
+      include: {
+        services: true,
+        credits: true,
+        projectRequest: true,
+      },
+    });
+
+    if (!proposal) return;
+
+    // Percentage and per-square-foot fees follow the proposal's basis
+    for (const service of proposal.services) {
+      const amount = this.fees.amountFor(service, proposal);
+      if (!amount.equals(service.amount)) {
+        await this.prisma.proposalService.update({
+          where: { id: service.id },
+          data: { amount },
+        });
+        service.amount = amount;
+      }
+    }
+
+    // Calculate subtotal from what will be billed: no deselected add-ons,
+    // rejected services or ones still awaiting the client's approval
+    const subtotal = proposal.services
+      .filter(isBillable)
+      .reduce((sum, s) => sum + Number(s.amount || 0), 0);
+
+    // Calculate credits; pending and rejected discounts are not applied
+    let creditsTotal = 0;
+    if (proposal.credits) {
+      creditsTotal = proposal.credits
+        .filter(isApplied)
+        .reduce((sum, credit) => {
+          if (credit.type === 'DOLLAR_AMOUNT') {
+            return sum + Number(credit.amount);
+          } else {
+            return sum + (subtotal * Number(credit.amount)) / 100;
+          }
+        }, 0);
+    }
+
+    // Removing services can leave credits larger than what is left
+    const afterCredits = Math.max(0, subtotal - creditsTotal);
+
+    // Tax rules for the project location win over the manual rate
+    const tax = await this.taxes.calculate(
+      this.taxes.locationOf(proposal.projectRequest),
+      proposal.serviceType,
+      afterCredits,
+    );
+    const taxRate = tax ? tax.rate : Number(proposal.manualTaxRate || 0);
+    const taxAmount = tax ? tax.amount : (afterCredits * taxRate) / 100;
+    const totalAmount = afterCredits + taxAmount;
+
+    return this.prisma.proposal.update({
+      where: { id: proposalId },
+      data: {
+        subtotal,
+        // Once no rule applies any more the PM's own rate is back in force
+        taxRate: tax ? tax.rate : proposal.manualTaxRate,
+        taxAmount,
+        totalAmount,
+        taxBreakdown: tax
+          ? (tax.components as unknown as Prisma.InputJsonArray)
+          : Prisma.DbNull,
+      },
+      select: {
+        subtotal: true,
+        taxRate: true,
+        taxAmount: true,
+        totalAmount: true,
+        taxBreakdown: true,
+      },
+    });
+  }
+
+  async generatePdf(id: string, user: User) {
+    // Reuses the detail view's permission checks and VIEWED tracking
+    const { data: proposal } = await this.findOneWithFullData(id, user);
+
+    return {
+      fileName: this.pdf.fileName(proposal),
+      buffer: await this.pdf.render(proposal),
+    };
+  }
+
+  async send(id: string, user: User, dto: SendProposalDto = {}) {
+    if (!this.canManage(user)) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    const proposal = await this.prisma.proposal.findUnique({
+      where: { id },
+      include: {
+        services: true,
+        projectRequest: true,
+        user: true,
+      },
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    if (proposal.status !== ProposalStatus.DRAFT) {
+      throw new BadRequestException('Only DRAFT proposals can be sent');
+    }
+
+    if (proposal.services.length === 0) {
+      throw new BadRequestException('Proposal must have at least one service');
+    }
+
+    if (proposal.expiresAt && proposal.expiresAt <= new Date()) {
+      throw new BadRequestException(
+        'Proposal expiry date has passed; set a new expiry date before sending',
+      );
+    }
+
+    const unapproved = await this.unapprovedCredits(proposal, user);
+    if (unapproved.length > 0) {
+      throw new BadRequestException(
+        `${unapproved.length} discount(s) need finance approval before the proposal can be sent`,
+      );
+    }
+
+    // Quote tax with the rules in force today, not when the draft was last edited
+    const totals = await this.recalculateTotals(id);
+    const totalAmount = Number(totals?.totalAmount ?? proposal.totalAmount);
+
+    await this.reviews.assertCleared(id);
+
+    // Update status and sent date
+    await this.prisma.proposal.update({
+      where: { id },
+      data: {
+        status: ProposalStatus.SENT,
+        sentAt: new Date(),
+        expiryReminderDays: null,
+      },
+    });
+    await this.revisions.record(id, ProposalRevisionReason.SENT, user.id);
+
+    // Clients without an account open it through a login-free link
+    const { url: proposalUrl } = await this.links.issue(id, user.id);
+
+    let attachments: {
+      filename: string;
+      content: Buffer;
+      contentType: string;
+    }[] = [];
+    if (dto.attachPdf) {
+      const sent = await this.prisma.proposal.findUniqueOrThrow({
+        where: { id },
+        include: {
+          services: { orderBy: { order: 'asc' } },
+          credits: { orderBy: { createdAt: 'asc' } },
+        },
+      });
+      attachments = [
+        {
+          filename: this.pdf.fileName(sent),
+          content: await this.pdf.render(sent),
+          contentType: 'application/pdf',
+        },
+      ];
+    }
+
+    await this.mailer.queueMail({
+      to: proposal.clientEmail,
+      subject:
+        proposal.version > 1
+          ? `Revised Proposal Ready: ${proposal.projectName} (v${proposal.version})`
+          : `Proposal Ready: ${proposal.projectName}`,
+      attachments,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #2563eb;">New Proposal Available</h2>
           <p>Dear ${proposal.clientName || 'Client'},</p>
           <p>Your proposal for "<strong>${proposal.projectName}</strong>" is ready for review.</p>
           
@@ -1596,7 +2521,7 @@ async findOne(id: string, user: User) {
             <p><strong>Proposal Number:</strong> ${proposal.proposalNumber}</p>
             <p><strong>Project:</strong> ${proposal.projectName}</p>
             <p><strong>Services Included:</strong> ${proposal.services.length}</p>
-            ${Number(proposal.totalAmount) > 0 ? `<p><strong>Total Amount:</strong> $${Number(proposal.totalAmount).toFixed(2)}</p>` : ''}
+            ${totalAmount > 0 ? `<p><strong>Total Amount:</strong> $${totalAmount.toFixed(2)}</p>` : ''}
           </div>
           
           <p>Please review and sign the proposal by clicking the button below:</p>
@@ -1622,9 +2547,223 @@ async findOne(id: string, user: User) {
       `Proposal ${proposal.proposalNumber} sent to ${proposal.clientEmail}`,
     );
 
+    await this.notifications.notifyUser(proposal.userId, {
+      type: NotificationType.PROPOSAL_SENT,
+      title: 'New proposal ready for review',
+      message: `Proposal ${proposal.proposalNumber} for "${proposal.projectName}" is ready to review and sign.`,
+      link: `/proposals/${id}`,
+    });
+
     return { message: 'Proposal sent to client successfully' };
   }
 
+  /**
+   * Moves the expiry date. An expired proposal goes back to SENT (or VIEWED
+   * if the client had opened it) so it can be signed again.
+   */
+  async extendExpiry(id: string, user: User, dto: ExtendExpiryDto) {
+    if (!this.canManage(user)) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    const proposal = await this.prisma.proposal.findUnique({ where: { id } });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    if (!this.EXTENDABLE_STATUSES.has(proposal.status)) {
+      throw new BadRequestException(
+        `Cannot change the expiry of a ${proposal.status} proposal`,
+      );
+    }
+
+    const expiresAt = new Date(dto.expiresAt);
+    if (expiresAt <= new Date()) {
+      throw new BadRequestException('Expiry date must be in the future');
+    }
+
+    const status =
+      proposal.status === ProposalStatus.EXPIRED
+        ? proposal.viewedAt
+          ? ProposalStatus.VIEWED
+          : ProposalStatus.SENT
+        : proposal.status;
+
+    const updated = await this.prisma.proposal.update({
+      where: { id },
+      data: { expiresAt, status, expiryReminderDays: null },
+    });
+    await this.revisions.record(id, ProposalRevisionReason.UPDATED, user.id);
+
+    if (proposal.status !== ProposalStatus.DRAFT) {
+      // Fresh login-free link; the raw token of earlier ones is not stored
+      const { url: proposalUrl } = await this.links.issue(id, user.id);
+      const validUntil = expiresAt.toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+      });
+
+      await this.mailer.queueMail({
+        to: proposal.clientEmail,
+        subject: `Proposal Extended: ${proposal.projectName}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #2563eb;">Proposal Validity Extended</h2>
+            <p>Dear ${proposal.clientName || 'Client'},</p>
+            <p>Our proposal for "<strong>${proposal.projectName}</strong>" (${proposal.proposalNumber}) is now valid until <strong>${validUntil}</strong>.</p>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${proposalUrl}"
+                 style="background: #2563eb; color: white; padding: 12px 24px;
+                        text-decoration: none; border-radius: 6px; display: inline-block;">
+                Review & Sign Proposal
+              </a>
+            </div>
+
+            <p>Best regards,<br>Your Architecture Team</p>
+          </div>
+        `,
+        text: `Proposal ${proposal.proposalNumber} for "${proposal.projectName}" is now valid until ${validUntil}.\nReview & sign here: ${proposalUrl}`,
+      });
+    }
+
+    if (status !== proposal.status) {
+      this.realtime.publish(
+        { userIds: [proposal.userId], roles: this.MANAGER_ROLES_ARRAY },
+        RealtimeEvent.PROPOSAL_STATUS_CHANGED,
+        {
+          proposalId: id,
+          proposalNumber: proposal.proposalNumber,
+          previousStatus: proposal.status,
+          status,
+          updatedBy: user.id,
+          updatedAt: updated.updatedAt,
+        },
+      );
+    }
+
+    this.logger.log(
+      `Proposal ${proposal.proposalNumber} expiry moved to ${expiresAt.toISOString()} by ${user.email}`,
+    );
+
+    return {
+      success: true,
+      message: 'Proposal expiry updated',
+      data: updated,
+    };
+  }
+
+  /**
+   * Voids the sent version and reopens the proposal as the next draft
+   * version. Signatures collected on the old version no longer apply, and
+   * the client is told to wait for the revised proposal.
+   */
+  async revise(id: string, user: User, dto: ReviseProposalDto = {}) {
+    if (!this.canManage(user)) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    const proposal = await this.prisma.proposal.findUnique({ where: { id } });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    if (!this.REVISABLE_STATUSES.has(proposal.status)) {
+      throw new BadRequestException(
+        proposal.status === ProposalStatus.ACCEPTED
+          ? 'Accepted proposals can only be changed through an amendment'
+          : `Cannot revise a ${proposal.status} proposal`,
+      );
+    }
+
+    // Keeps what the client had (including any signature) on record
+    await this.revisions.record(id, ProposalRevisionReason.VOIDED, user.id);
+    await this.links.revokeAll(id);
+
+    const revised = await this.prisma.proposal.update({
+      where: { id },
+      data: {
+        status: ProposalStatus.DRAFT,
+        version: { increment: 1 },
+        sentAt: null,
+        viewedAt: null,
+        respondedAt: null,
+        ownerSignature: null,
+        ownerSignedAt: null,
+        ownerSignedBy: null,
+        architectSignature: null,
+        architectSignedAt: null,
+        architectSignedBy: null,
+      },
+      include: {
+        services: { orderBy: { order: 'asc' } },
+        credits: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    await this.revisions.record(id, ProposalRevisionReason.REVISED, user.id);
+
+    const voidedVersion = proposal.version;
+    const reason = dto.reason?.trim();
+
+    await this.mailer.queueMail({
+      to: proposal.clientEmail,
+      subject: `Proposal Withdrawn for Revision: ${proposal.projectName}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #d97706;">Proposal Being Revised</h2>
+          <p>Dear ${proposal.clientName || 'Client'},</p>
+          <p>We are revising our proposal for "<strong>${proposal.projectName}</strong>".</p>
+
+          <div style="background: #fffbeb; padding: 20px; border-left: 4px solid #d97706; margin: 20px 0;">
+            <p><strong>Proposal Number:</strong> ${proposal.proposalNumber}</p>
+            <p><strong>Version ${voidedVersion}</strong> is now void and can no longer be signed.${proposal.ownerSignature ? ' Your signature on that version has been withdrawn.' : ''}</p>
+            ${reason ? `<p><strong>Reason:</strong> ${reason}</p>` : ''}
+          </div>
+
+          <p>You will receive the revised proposal for review shortly.</p>
+
+          <p>Best regards,<br>Your Architecture Team</p>
+        </div>
+      `,
+      text: `Proposal ${proposal.proposalNumber} version ${voidedVersion} for "${proposal.projectName}" is void. A revised proposal will follow.${reason ? `\nReason: ${reason}` : ''}`,
+    });
+
+    await this.notifications.notifyUser(proposal.userId, {
+      type: NotificationType.PROPOSAL_REVISED,
+      title: 'Proposal is being revised',
+      message: `Version ${voidedVersion} of proposal ${proposal.proposalNumber} is void. A revised version will follow.`,
+      link: `/proposals/${id}`,
+    });
+
+    this.realtime.publish(
+      { userIds: [proposal.userId], roles: this.MANAGER_ROLES_ARRAY },
+      RealtimeEvent.PROPOSAL_STATUS_CHANGED,
+      {
+        proposalId: id,
+        proposalNumber: proposal.proposalNumber,
+        previousStatus: proposal.status,
+        status: revised.status,
+        version: revised.version,
+        updatedBy: user.id,
+        updatedAt: revised.updatedAt,
+      },
+    );
+
+    this.logger.log(
+      `Proposal ${proposal.proposalNumber} v${voidedVersion} voided; v${revised.version} opened as draft by ${user.email}`,
+    );
+
+    return {
+      success: true,
+      message: `Proposal revised; version ${revised.version} is now a draft`,
+      data: revised,
+    };
+  }
+
   async updateProposalStatus(
     proposalId: string,
     user: User,
@@ -1654,31 +2793,24 @@ async findOne(id: string, user: User) {
       );
     }
 
-    if (!isManager) {
-      const allowedClientStatuses: ProposalStatus[] = [
-        // FIX: Type the array explicitly
-        ProposalStatus.ACCEPTED,
-        ProposalStatus.REJECTED,
-      ];
-      if (!allowedClientStatuses.includes(newStatus)) {
-        throw new BadRequestException(
-          `Clients can only set status to: ${allowedClientStatuses.join(', ')}`,
-        );
-      }
+    if (!isManager && newStatus !== ProposalStatus.REJECTED) {
+      throw new BadRequestException('Clients can only set status to: REJECTED');
+    }
+
+    // Sending goes through send() and accepting through sign(), so their
+    // review, credit, expiry, signature and invoicing steps always run
+    if (newStatus === ProposalStatus.SENT) {
+      throw new BadRequestException('Use the send endpoint to send a proposal');
+    }
+    if (newStatus === ProposalStatus.ACCEPTED) {
+      throw new BadRequestException('Proposals are accepted by signing them');
     }
 
     // Validate allowed status transitions
     const allowedTransitions: Record<ProposalStatus, ProposalStatus[]> = {
-      [ProposalStatus.DRAFT]: [ProposalStatus.SENT],
-      [ProposalStatus.SENT]: [
-        ProposalStatus.VIEWED,
-        ProposalStatus.ACCEPTED,
-        ProposalStatus.REJECTED,
-      ],
-      [ProposalStatus.VIEWED]: [
-        ProposalStatus.ACCEPTED,
-        ProposalStatus.REJECTED,
-      ],
+      [ProposalStatus.DRAFT]: [],
+      [ProposalStatus.SENT]: [ProposalStatus.VIEWED, ProposalStatus.REJECTED],
+      [ProposalStatus.VIEWED]: [ProposalStatus.REJECTED],
       [ProposalStatus.ACCEPTED]: [],
       [ProposalStatus.REJECTED]: [],
       EXPIRED: [],
@@ -1699,19 +2831,14 @@ async findOne(id: string, user: User) {
         notes: notes
           ? `${proposal.notes ? proposal.notes + '\n\n' : ''}[${new Date().toISOString()}] Status changed to ${newStatus}: ${notes}`
           : proposal.notes,
-        // Set respondedAt when client accepts/rejects
-        ...(newStatus === ProposalStatus.ACCEPTED ||
-        newStatus === ProposalStatus.REJECTED
+        // Set respondedAt when the client declines
+        ...(newStatus === ProposalStatus.REJECTED
           ? { respondedAt: new Date() }
           : {}),
         // Set viewedAt when status changes to VIEWED
         ...(newStatus === ProposalStatus.VIEWED && !proposal.viewedAt
           ? { viewedAt: new Date() }
           : {}),
-        // Set sentAt when status changes to SENT
-        ...(newStatus === ProposalStatus.SENT && !proposal.sentAt
-          ? { sentAt: new Date() }
-          : {}),
       },
       include: {
         projectRequest: true,
@@ -1747,6 +2874,20 @@ async findOne(id: string, user: User) {
       proposal.status,
       newStatus,
     );
+    await this.persistStatusChangeNotification(updated, newStatus);
+
+    this.realtime.publish(
+      { userIds: [updated.userId], roles: this.MANAGER_ROLES_ARRAY },
+      RealtimeEvent.PROPOSAL_STATUS_CHANGED,
+      {
+        proposalId: updated.id,
+        proposalNumber: updated.proposalNumber,
+        previousStatus: proposal.status,
+        status: updated.status,
+        updatedBy: user.id,
+        updatedAt: updated.updatedAt,
+      },
+    );
 
     return {
       success: true,
@@ -1769,7 +2910,7 @@ async findOne(id: string, user: User) {
 
       // Notify client when proposal is sent
       if (newStatus === ProposalStatus.SENT) {
-        await this.mailer.sendMail({
+        await this.mailer.queueMail({
           to: proposal.clientEmail,
           subject: `Proposal Ready: ${proposal.projectName}`,
           html: `
@@ -1816,7 +2957,7 @@ async findOne(id: string, user: User) {
         });
 
         for (const member of team) {
-          await this.mailer.sendMail({
+          await this.mailer.queueMail({
             to: member.email,
             subject: `Proposal ${statusText}: ${proposal.projectName}`,
             html: `
@@ -1845,7 +2986,7 @@ async findOne(id: string, user: User) {
         }
 
         // Confirm to client
-        await this.mailer.sendMail({
+        await this.mailer.queueMail({
           to: proposal.clientEmail,
           subject: `Proposal ${statusText}: ${proposal.projectName}`,
           html: `
@@ -1883,6 +3024,39 @@ async findOne(id: string, user: User) {
       }
     }
   }
+  private async persistStatusChangeNotification(
+    proposal: {
+      id: string;
+      userId: string | null;
+      proposalNumber: string;
+      projectName: string;
+      clientName: string;
+    },
+    newStatus: ProposalStatus,
+  ) {
+    if (newStatus === ProposalStatus.SENT) {
+      await this.notifications.notifyUser(proposal.userId, {
+        type: NotificationType.PROPOSAL_SENT,
+        title: 'New proposal ready for review',
+        message: `Proposal ${proposal.proposalNumber} for "${proposal.projectName}" is ready to review and sign.`,
+        link: `/proposals/${proposal.id}`,
+      });
+      return;
+    }
+
+    if (
+      newStatus === ProposalStatus.ACCEPTED ||
+      newStatus === ProposalStatus.REJECTED
+    ) {
+      await this.notifications.notifyRoles(this.MANAGER_ROLES_ARRAY, {
+        type: NotificationType.PROPOSAL_STATUS_UPDATED,
+        title: `Proposal ${newStatus.toLowerCase()}`,
+        message: `${proposal.clientName} ${newStatus.toLowerCase()} proposal ${proposal.proposalNumber} (${proposal.projectName}).`,
+        link: `/admin/proposals/${proposal.id}`,
+      });
+    }
+  }
+
   //=============================================service add============
 
 async addServiceWithApproval(
@@ -1912,18 +3086,8 @@ async addServiceWithApproval(
     throw new NotFoundException('Proposal not found');
   }
 
-  // Can add services to DRAFT, SENT, or VIEWED proposals
-  const allowedStatuses: ProposalStatus[] = [ // ← Add this type annotation
-    ProposalStatus.DRAFT,
-    ProposalStatus.SENT,
-    ProposalStatus.VIEWED,
-  ];
-
-  if (!allowedStatuses.includes(proposal.status)) {
-    throw new BadRequestException(
-      'Cannot add services to this proposal. Status must be DRAFT, SENT, or VIEWED.',
-    );
-  }
+  // Services for a sent proposal go into a revised version instead
+  this.assertEditable(proposal.status);
 
   const maxOrder = proposal.services.reduce(
     (max, s) => Math.max(max, s.order ?? 0),
@@ -1945,6 +3109,7 @@ async addServiceWithApproval(
       order: maxOrder + 1,
       requiresApproval: dto.requiresApproval ?? true,
       approvalStatus: ServiceApprovalStatus.PENDING_APPROVAL,
+      active: false, // priced once the client approves it
     },
   });
 
@@ -1952,6 +3117,12 @@ async addServiceWithApproval(
     `Service "${service.name}" added to proposal ${proposal.proposalNumber} by ${user.email} - Requires approval`,
   );
 
+  await this.revisions.record(
+    proposalId,
+    ProposalRevisionReason.SERVICE_ADDED,
+    user.id,
+  );
+
   // Send email notification to client
   await this.sendServiceApprovalEmail(proposal, service, user);
 
@@ -2003,6 +3174,8 @@ async handleServiceApproval(
     throw new NotFoundException('Proposal not found');
   }
 
+  // A decision changes the priced scope, so it has to land before sending
+  this.assertEditable(proposal.status);
 
   const isClient =
     proposal.userId === user.id ||
@@ -2072,6 +3245,11 @@ async handleServiceApproval(
   if (isApproval) {
     await this.recalculateTotals(proposalId);
   }
+  await this.revisions.record(
+    proposalId,
+    ProposalRevisionReason.SERVICE_APPROVAL,
+    user.id,
+  );
 
   // Send confirmation emails
   await this.sendServiceApprovalConfirmation(
@@ -2169,7 +3347,7 @@ async handleServiceApproval(
       );
       const approvalUrl = `${frontendUrl}/proposals/${proposal.id}/approve-service/${service.id}`;
 
-      await this.mailer.sendMail({
+      await this.mailer.queueMail({
         to: proposal.clientEmail,
         subject: `New Service Added - Approval Required: ${proposal.projectName}`,
         html: `
@@ -2250,7 +3428,7 @@ async handleServiceApproval(
       const icon = isApproval ? '✅' : '❌';
 
       // Email to client (confirmation)
-      await this.mailer.sendMail({
+      await this.mailer.queueMail({
         to: proposal.clientEmail,
         subject: `Service ${statusText}: ${service.name}`,
         html: `
@@ -2298,7 +3476,7 @@ async handleServiceApproval(
       });
 
       for (const member of team) {
-        await this.mailer.sendMail({
+        await this.mailer.queueMail({
           to: member.email,
           subject: `Service ${statusText} by Client: ${proposal.projectName}`,
           html: `
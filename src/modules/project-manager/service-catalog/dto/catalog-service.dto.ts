@@ -0,0 +1,69 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { PartialType } from '@nestjs/mapped-types';
+import { Transform } from 'class-transformer';
+import { ServiceType } from '@prisma/client';
+
+export class CreateCatalogServiceDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsEnum(ServiceType)
+  serviceType?: ServiceType; // omit to offer it for every service type
+
+  @IsNumber({}, { message: 'defaultRate must be a valid number' })
+  @Min(0)
+  defaultRate: number;
+
+  @IsOptional()
+  @IsString()
+  unit?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  quantity?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  timelineWeeks?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  order?: number;
+}
+
+export class UpdateCatalogServiceDto extends PartialType(
+  CreateCatalogServiceDto,
+) {
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class QueryCatalogServiceDto {
+  @IsOptional()
+  @IsEnum(ServiceType)
+  serviceType?: ServiceType;
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeInactive?: boolean = false;
+}
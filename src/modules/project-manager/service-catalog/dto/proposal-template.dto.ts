@@ -0,0 +1,96 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { PartialType } from '@nestjs/mapped-types';
+import { Transform, Type } from 'class-transformer';
+import { ServiceType } from '@prisma/client';
+
+export class ProposalTemplateItemDto {
+  @IsUUID()
+  catalogServiceId: string;
+
+  // Overrides; anything left out comes from the catalog entry
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'rate must be a valid number' })
+  @Min(0)
+  rate?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  quantity?: number;
+}
+
+export class CreateProposalTemplateDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsEnum(ServiceType)
+  serviceType?: ServiceType;
+
+  @IsOptional()
+  @IsString()
+  paymentMethod?: string;
+
+  @IsOptional()
+  @IsString()
+  paymentTerms?: string;
+
+  @IsOptional()
+  @IsString()
+  termsAndConditions?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  taxRate?: number;
+
+  // Listed in the order the services should appear on the proposal
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ProposalTemplateItemDto)
+  items: ProposalTemplateItemDto[];
+}
+
+export class UpdateProposalTemplateDto extends PartialType(
+  CreateProposalTemplateDto,
+) {
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class QueryProposalTemplateDto {
+  @IsOptional()
+  @IsEnum(ServiceType)
+  serviceType?: ServiceType;
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeInactive?: boolean = false;
+}
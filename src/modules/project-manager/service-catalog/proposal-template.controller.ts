@@ -0,0 +1,63 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import * as client from '@prisma/client';
+import { JwtAuthGuard } from 'src/common/guards/auth.guard';
+import { RolesGuard } from 'src/common/guards/roles.guard';
+import { Roles } from 'src/common/decorators/roles.decorator';
+import { CurrentUser } from 'src/common/decorators/current-user.decorator';
+import { ProposalTemplateService } from './proposal-template.service';
+import {
+  CreateProposalTemplateDto,
+  QueryProposalTemplateDto,
+  UpdateProposalTemplateDto,
+} from './dto/proposal-template.dto';
+
+@Controller('proposal-templates')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(
+  client.UserRole.SUPER_ADMIN,
+  client.UserRole.ADMIN,
+  client.UserRole.PROJECT_MANAGER,
+)
+export class ProposalTemplateController {
+  constructor(
+    private readonly proposalTemplateService: ProposalTemplateService,
+  ) {}
+
+  @Get()
+  findAll(@Query() query: QueryProposalTemplateDto) {
+    return this.proposalTemplateService.findAll(query);
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string) {
+    return this.proposalTemplateService.findOne(id);
+  }
+
+  @Post()
+  create(
+    @Body() dto: CreateProposalTemplateDto,
+    @CurrentUser() user: client.User,
+  ) {
+    return this.proposalTemplateService.create(dto, user);
+  }
+
+  @Patch(':id')
+  update(@Param('id') id: string, @Body() dto: UpdateProposalTemplateDto) {
+    return this.proposalTemplateService.update(id, dto);
+  }
+
+  @Delete(':id')
+  remove(@Param('id') id: string) {
+    return this.proposalTemplateService.remove(id);
+  }
+}
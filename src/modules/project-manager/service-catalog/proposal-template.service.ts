@@ -0,0 +1,191 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, User } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  CreateProposalTemplateDto,
+  ProposalTemplateItemDto,
+  QueryProposalTemplateDto,
+  UpdateProposalTemplateDto,
+} from './dto/proposal-template.dto';
+import { ServiceCatalogService } from './service-catalog.service';
+
+const TEMPLATE_INCLUDE = {
+  items: {
+    orderBy: { order: 'asc' },
+    include: { catalogService: true },
+  },
+  createdBy: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.ProposalTemplateInclude;
+
+@Injectable()
+export class ProposalTemplateService {
+  private readonly logger = new Logger(ProposalTemplateService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private catalog: ServiceCatalogService,
+  ) {}
+
+  async findAll(query: QueryProposalTemplateDto) {
+    const { serviceType, includeInactive } = query;
+
+    const templates = await this.prisma.proposalTemplate.findMany({
+      where: {
+        ...(includeInactive ? {} : { isActive: true }),
+        ...(serviceType && {
+          OR: [{ serviceType }, { serviceType: null }],
+        }),
+      },
+      include: TEMPLATE_INCLUDE,
+      orderBy: { name: 'asc' },
+    });
+
+    return {
+      success: true,
+      message: 'Proposal templates retrieved successfully',
+      data: templates,
+    };
+  }
+
+  async findOne(id: string) {
+    return {
+      success: true,
+      message: 'Proposal template retrieved successfully',
+      data: await this.getOrThrow(id),
+    };
+  }
+
+  async create(dto: CreateProposalTemplateDto, user: User) {
+    await this.assertCatalogServices(dto.items);
+
+    const template = await this.prisma.proposalTemplate.create({
+      data: {
+        name: dto.name.trim(),
+        description: dto.description?.trim(),
+        serviceType: dto.serviceType,
+        paymentMethod: dto.paymentMethod,
+        paymentTerms: dto.paymentTerms?.trim(),
+        termsAndConditions: dto.termsAndConditions?.trim(),
+        taxRate: dto.taxRate,
+        createdById: user.id,
+        items: { create: this.toItems(dto.items) },
+      },
+      include: TEMPLATE_INCLUDE,
+    });
+
+    this.logger.log(
+      `Proposal template created: ${template.name} by ${user.email}`,
+    );
+
+    return {
+      success: true,
+      message: `Template "${template.name}" created successfully`,
+      data: template,
+    };
+  }
+
+  async update(id: string, dto: UpdateProposalTemplateDto) {
+    await this.getOrThrow(id);
+    if (dto.items) {
+      await this.assertCatalogServices(dto.items);
+    }
+
+    const template = await this.prisma.proposalTemplate.update({
+      where: { id },
+      data: {
+        name: dto.name?.trim(),
+        description: dto.description?.trim(),
+        serviceType: dto.serviceType,
+        paymentMethod: dto.paymentMethod,
+        paymentTerms: dto.paymentTerms?.trim(),
+        termsAndConditions: dto.termsAndConditions?.trim(),
+        taxRate: dto.taxRate,
+        isActive: dto.isActive,
+        // The item list is replaced as a whole
+        ...(dto.items && {
+          items: { deleteMany: {}, create: this.toItems(dto.items) },
+        }),
+      },
+      include: TEMPLATE_INCLUDE,
+    });
+
+    return {
+      success: true,
+      message: `Template "${template.name}" updated successfully`,
+      data: template,
+    };
+  }
+
+  async remove(id: string) {
+    const template = await this.getOrThrow(id);
+
+    await this.prisma.proposalTemplate.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    return {
+      success: true,
+      message: `Template "${template.name}" archived`,
+    };
+  }
+
+  /**
+   * Loads an active template together with the proposal service lines it
+   * expands to, numbered from `firstOrder`.
+   */
+  async resolve(id: string, firstOrder = 1) {
+    const template = await this.getOrThrow(id);
+
+    if (!template.isActive) {
+      throw new BadRequestException(`Template "${template.name}" is archived`);
+    }
+
+    const services = template.items.map((item, i) =>
+      this.catalog.toServiceLine(item.catalogService, firstOrder + i, item),
+    );
+
+    return { template, services };
+  }
+
+  private async getOrThrow(id: string) {
+    const template = await this.prisma.proposalTemplate.findUnique({
+      where: { id },
+      include: TEMPLATE_INCLUDE,
+    });
+
+    if (!template) {
+      throw new NotFoundException('Proposal template not found');
+    }
+
+    return template;
+  }
+
+  private toItems(items: ProposalTemplateItemDto[]) {
+    return items.map((item, i) => ({
+      catalogServiceId: item.catalogServiceId,
+      description: item.description?.trim(),
+      rate: item.rate,
+      quantity: item.quantity,
+      order: i + 1,
+    }));
+  }
+
+  private async assertCatalogServices(items: ProposalTemplateItemDto[]) {
+    const ids = [...new Set(items.map((item) => item.catalogServiceId))];
+    const found = await this.prisma.catalogService.count({
+      where: { id: { in: ids }, isActive: true },
+    });
+
+    if (found !== ids.length) {
+      throw new BadRequestException(
+        'Templates can only use active catalog services',
+      );
+    }
+  }
+}
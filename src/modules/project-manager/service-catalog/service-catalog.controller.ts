@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import * as client from '@prisma/client';
+import { JwtAuthGuard } from 'src/common/guards/auth.guard';
+import { RolesGuard } from 'src/common/guards/roles.guard';
+import { Roles } from 'src/common/decorators/roles.decorator';
+import { ServiceCatalogService } from './service-catalog.service';
+import {
+  CreateCatalogServiceDto,
+  QueryCatalogServiceDto,
+  UpdateCatalogServiceDto,
+} from './dto/catalog-service.dto';
+
+@Controller('service-catalog')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ServiceCatalogController {
+  constructor(private readonly serviceCatalogService: ServiceCatalogService) {}
+
+  @Get()
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+  )
+  findAll(@Query() query: QueryCatalogServiceDto) {
+    return this.serviceCatalogService.findAll(query);
+  }
+
+  @Get(':id')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+  )
+  findOne(@Param('id') id: string) {
+    return this.serviceCatalogService.findOne(id);
+  }
+
+  // Prices are firm-wide, so only admins maintain the catalog
+  @Post()
+  @Roles(client.UserRole.SUPER_ADMIN, client.UserRole.ADMIN)
+  create(@Body() dto: CreateCatalogServiceDto) {
+    return this.serviceCatalogService.create(dto);
+  }
+
+  @Patch(':id')
+  @Roles(client.UserRole.SUPER_ADMIN, client.UserRole.ADMIN)
+  update(@Param('id') id: string, @Body() dto: UpdateCatalogServiceDto) {
+    return this.serviceCatalogService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @Roles(client.UserRole.SUPER_ADMIN, client.UserRole.ADMIN)
+  remove(@Param('id') id: string) {
+    return this.serviceCatalogService.remove(id);
+  }
+}
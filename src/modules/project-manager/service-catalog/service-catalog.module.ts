@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { ServiceCatalogService } from './service-catalog.service';
+import { ServiceCatalogController } from './service-catalog.controller';
+import { ProposalTemplateService } from './proposal-template.service';
+import { ProposalTemplateController } from './proposal-template.controller';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [ServiceCatalogController, ProposalTemplateController],
+  providers: [ServiceCatalogService, ProposalTemplateService],
+  exports: [ServiceCatalogService, ProposalTemplateService],
+})
+export class ServiceCatalogModule {}
@@ -0,0 +1,147 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { CatalogService, FeeModel, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  CreateCatalogServiceDto,
+  QueryCatalogServiceDto,
+  UpdateCatalogServiceDto,
+} from './dto/catalog-service.dto';
+
+export interface ServiceLineOverrides {
+  description?: string | null;
+  rate?: Prisma.Decimal | number | null;
+  quantity?: number | null;
+}
+
+@Injectable()
+export class ServiceCatalogService {
+  private readonly logger = new Logger(ServiceCatalogService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  async findAll(query: QueryCatalogServiceDto) {
+    const { serviceType, includeInactive } = query;
+
+    const services = await this.prisma.catalogService.findMany({
+      where: {
+        ...(includeInactive ? {} : { isActive: true }),
+        // Generic entries (no service type) apply to every project
+        ...(serviceType && {
+          OR: [{ serviceType }, { serviceType: null }],
+        }),
+      },
+      orderBy: [{ order: 'asc' }, { name: 'asc' }],
+    });
+
+    return {
+      success: true,
+      message: 'Service catalog retrieved successfully',
+      data: services,
+    };
+  }
+
+  async findOne(id: string) {
+    return {
+      success: true,
+      message: 'Catalog service retrieved successfully',
+      data: await this.getOrThrow(id),
+    };
+  }
+
+  async create(dto: CreateCatalogServiceDto) {
+    const service = await this.prisma.catalogService.create({
+      data: {
+        name: dto.name.trim(),
+        description: dto.description?.trim(),
+        serviceType: dto.serviceType,
+        defaultRate: dto.defaultRate,
+        unit: dto.unit?.trim(),
+        quantity: dto.quantity,
+        timelineWeeks: dto.timelineWeeks,
+        order: dto.order,
+      },
+    });
+
+    this.logger.log(`Catalog service created: ${service.name}`);
+
+    return {
+      success: true,
+      message: `Service "${service.name}" added to the catalog`,
+      data: service,
+    };
+  }
+
+  async update(id: string, dto: UpdateCatalogServiceDto) {
+    await this.getOrThrow(id);
+
+    const service = await this.prisma.catalogService.update({
+      where: { id },
+      data: {
+        name: dto.name?.trim(),
+        description: dto.description?.trim(),
+        serviceType: dto.serviceType,
+        defaultRate: dto.defaultRate,
+        unit: dto.unit?.trim(),
+        quantity: dto.quantity,
+        timelineWeeks: dto.timelineWeeks,
+        order: dto.order,
+        isActive: dto.isActive,
+      },
+    });
+
+    return {
+      success: true,
+      message: `Catalog service "${service.name}" updated successfully`,
+      data: service,
+    };
+  }
+
+  /** Retired rather than deleted, since templates may still reference it */
+  async remove(id: string) {
+    const service = await this.getOrThrow(id);
+
+    await this.prisma.catalogService.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    return {
+      success: true,
+      message: `Catalog service "${service.name}" retired`,
+    };
+  }
+
+  async getOrThrow(id: string) {
+    const service = await this.prisma.catalogService.findUnique({
+      where: { id },
+    });
+
+    if (!service) {
+      throw new NotFoundException('Catalog service not found');
+    }
+
+    return service;
+  }
+
+  /** Proposal service line for a catalog entry, with optional overrides */
+  toServiceLine(
+    service: CatalogService,
+    order: number,
+    overrides: ServiceLineOverrides = {},
+  ): Prisma.ProposalServiceCreateWithoutProposalInput {
+    const rate = new Prisma.Decimal(overrides.rate ?? service.defaultRate);
+    const quantity = overrides.quantity ?? service.quantity;
+
+    return {
+      name: service.name,
+      description: overrides.description ?? service.description,
+      feeModel: FeeModel.RATE_QUANTITY,
+      rate,
+      quantity,
+      unit: service.unit,
+      amount: rate.mul(quantity),
+      timelineWeeks: service.timelineWeeks,
+      order,
+    };
+  }
+}
@@ -0,0 +1,167 @@
+// src/modules/queue/drivers/bullmq-queue.driver.ts
+import { Logger } from '@nestjs/common';
+import {
+  ConnectionOptions,
+  Job,
+  Queue,
+  UnrecoverableError,
+  Worker,
+} from 'bullmq';
+import {
+  FailedQueueJob,
+  QueueCounts,
+  QueueDriver,
+  QueueJobHandler,
+  QueueJobOptions,
+} from '../interfaces/queue-driver.interface';
+import { PermanentJobError } from '../queue.errors';
+
+/**
+ * Redis-backed driver. Failed jobs are kept (`removeOnFail: false`) so they
+ * stay inspectable and retryable from the admin queue routes.
+ */
+export class BullMqQueueDriver implements QueueDriver {
+  private readonly logger = new Logger(BullMqQueueDriver.name);
+
+  private readonly queues = new Map<string, Queue>();
+  private readonly workers: Worker[] = [];
+
+  constructor(
+    private readonly connection: ConnectionOptions,
+    private readonly prefix: string,
+  ) {}
+
+  async add(
+    queue: string,
+    name: string,
+    data: unknown,
+    options: QueueJobOptions,
+  ): Promise<string> {
+    const job = await this.getQueue(queue).add(name, data, {
+      jobId: options.jobId,
+      attempts: options.attempts,
+      backoff: { type: 'exponential', delay: options.backoffMs },
+      delay: options.delayMs,
+      removeOnComplete: 1000,
+      removeOnFail: false,
+    });
+
+    return job.id!;
+  }
+
+  process(queue: string, handler: QueueJobHandler, concurrency: number) {
+    const worker = new Worker(
+      queue,
+      async (job: Job<unknown>) => {
+        try {
+          await handler({
+            id: job.id!,
+            queue,
+            name: job.name,
+            data: job.data,
+            attempt: job.attemptsMade + 1,
+            maxAttempts: job.opts.attempts ?? 1,
+          });
+        } catch (error) {
+          // BullMQ skips the remaining attempts for this error type
+          if (error instanceof PermanentJobError) {
+            throw new UnrecoverableError(error.message);
+          }
+          throw error;
+        }
+      },
+      { connection: this.connection, prefix: this.prefix, concurrency },
+    );
+
+    worker.on('failed', (job, error) => {
+      const exhausted =
+        error instanceof UnrecoverableError ||
+        (job && job.attemptsMade >= (job.opts.attempts ?? 1));
+      if (job && exhausted) {
+        this.logger.warn(
+          `Job ${queue}:${job.name}#${job.id} failed after ${job.attemptsMade} attempts: ${error.message}`,
+        );
+      }
+    });
+    worker.on('error', (error) => {
+      this.logger.error(`Worker for ${queue} errored`, error);
+    });
+
+    this.workers.push(worker);
+  }
+
+  async getCounts(queue: string): Promise<QueueCounts> {
+    const counts = await this.getQueue(queue).getJobCounts(
+      'waiting',
+      'active',
+      'delayed',
+      'failed',
+      'completed',
+    );
+
+    return {
+      waiting: counts.waiting ?? 0,
+      active: counts.active ?? 0,
+      delayed: counts.delayed ?? 0,
+      failed: counts.failed ?? 0,
+      completed: counts.completed ?? 0,
+    };
+  }
+
+  async getFailed(queue: string, start: number, end: number) {
+    const bullQueue = this.getQueue(queue);
+    const [jobs, total] = await Promise.all([
+      bullQueue.getFailed(start, end),
+      bullQueue.getFailedCount(),
+    ]);
+
+    return {
+      jobs: jobs.map(
+        (job): FailedQueueJob => ({
+          id: job.id!,
+          queue,
+          name: job.name,
+          data: job.data,
+          failedReason: job.failedReason || null,
+          attemptsMade: job.attemptsMade,
+          createdAt: job.timestamp ? new Date(job.timestamp) : null,
+          failedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+        }),
+      ),
+      total,
+    };
+  }
+
+  async retryFailed(queue: string, jobId: string) {
+    const job = await Job.fromId(this.getQueue(queue), jobId);
+    if (!job || !(await job.isFailed())) return false;
+
+    await job.retry('failed', { resetAttemptsMade: true });
+    return true;
+  }
+
+  async removeFailed(queue: string, jobId: string) {
+    const job = await Job.fromId(this.getQueue(queue), jobId);
+    if (!job || !(await job.isFailed())) return false;
+
+    await job.remove();
+    return true;
+  }
+
+  async close() {
+    await Promise.all(this.workers.map((worker) => worker.close()));
+    await Promise.all([...this.queues.values()].map((queue) => queue.close()));
+  }
+
+  private getQueue(name: string) {
+    let queue = this.queues.get(name);
+    if (!queue) {
+      queue = new Queue(name, {
+        connection: this.connection,
+        prefix: this.prefix,
+      });
+      this.queues.set(name, queue);
+    }
+    return queue;
+  }
+}
@@ -0,0 +1,209 @@
+// src/modules/queue/drivers/in-memory-queue.driver.ts
+import { Logger } from '@nestjs/common';
+import {
+  FailedQueueJob,
+  QueueCounts,
+  QueueDriver,
+  QueueJobHandler,
+  QueueJobOptions,
+} from '../interfaces/queue-driver.interface';
+import { PermanentJobError } from '../queue.errors';
+
+type MemoryJobState = 'waiting' | 'delayed' | 'active' | 'failed';
+
+interface MemoryJob {
+  id: string;
+  queue: string;
+  name: string;
+  data: unknown;
+  options: QueueJobOptions;
+  state: MemoryJobState;
+  attemptsMade: number;
+  failedReason: string | null;
+  createdAt: Date;
+  failedAt: Date | null;
+}
+
+/**
+ * Process-local queue with the same retry/backoff/dead-letter semantics as
+ * the BullMQ driver. Jobs do not survive a restart, so it is meant for tests
+ * and local development without Redis.
+ */
+export class InMemoryQueueDriver implements QueueDriver {
+  private readonly logger = new Logger(InMemoryQueueDriver.name);
+
+  private readonly jobs = new Map<string, Map<string, MemoryJob>>();
+  private readonly handlers = new Map<string, QueueJobHandler>();
+  private readonly timers = new Set<NodeJS.Timeout>();
+  private readonly completed = new Map<string, number>();
+  private sequence = 0;
+  private closed = false;
+
+  add(
+    queue: string,
+    name: string,
+    data: unknown,
+    options: QueueJobOptions,
+  ): Promise<string> {
+    const jobs = this.queueJobs(queue);
+    const id = options.jobId ?? String(++this.sequence);
+
+    // Same as BullMQ: a custom jobId that is still known is not re-added
+    if (!jobs.has(id)) {
+      const job: MemoryJob = {
+        id,
+        queue,
+        name,
+        data,
+        options,
+        state: 'waiting',
+        attemptsMade: 0,
+        failedReason: null,
+        createdAt: new Date(),
+        failedAt: null,
+      };
+      jobs.set(id, job);
+      this.schedule(job, options.delayMs ?? 0);
+    }
+
+    return Promise.resolve(id);
+  }
+
+  process(queue: string, handler: QueueJobHandler) {
+    this.handlers.set(queue, handler);
+
+    // Pick up anything enqueued before the handler was registered
+    for (const job of this.queueJobs(queue).values()) {
+      if (job.state === 'waiting') this.schedule(job, 0);
+    }
+  }
+
+  getCounts(queue: string): Promise<QueueCounts> {
+    const counts: QueueCounts = {
+      waiting: 0,
+      active: 0,
+      delayed: 0,
+      failed: 0,
+      completed: this.completed.get(queue) ?? 0,
+    };
+    for (const job of this.queueJobs(queue).values()) {
+      counts[job.state]++;
+    }
+    return Promise.resolve(counts);
+  }
+
+  getFailed(queue: string, start: number, end: number) {
+    const failed = [...this.queueJobs(queue).values()]
+      .filter((job) => job.state === 'failed')
+      .sort(
+        (a, b) => (b.failedAt?.getTime() ?? 0) - (a.failedAt?.getTime() ?? 0),
+      );
+
+    return Promise.resolve({
+      jobs: failed.slice(start, end + 1).map(
+        (job): FailedQueueJob => ({
+          id: job.id,
+          queue: job.queue,
+          name: job.name,
+          data: job.data,
+          failedReason: job.failedReason,
+          attemptsMade: job.attemptsMade,
+          createdAt: job.createdAt,
+          failedAt: job.failedAt,
+        }),
+      ),
+      total: failed.length,
+    });
+  }
+
+  retryFailed(queue: string, jobId: string) {
+    const job = this.queueJobs(queue).get(jobId);
+    if (!job || job.state !== 'failed') return Promise.resolve(false);
+
+    job.state = 'waiting';
+    job.attemptsMade = 0;
+    job.failedReason = null;
+    job.failedAt = null;
+    this.schedule(job, 0);
+
+    return Promise.resolve(true);
+  }
+
+  removeFailed(queue: string, jobId: string) {
+    const jobs = this.queueJobs(queue);
+    const job = jobs.get(jobId);
+    if (!job || job.state !== 'failed') return Promise.resolve(false);
+
+    jobs.delete(jobId);
+    return Promise.resolve(true);
+  }
+
+  close() {
+    this.closed = true;
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+    return Promise.resolve();
+  }
+
+  private queueJobs(queue: string) {
+    let jobs = this.jobs.get(queue);
+    if (!jobs) {
+      jobs = new Map();
+      this.jobs.set(queue, jobs);
+    }
+    return jobs;
+  }
+
+  private schedule(job: MemoryJob, delayMs: number) {
+    if (this.closed) return;
+
+    job.state = delayMs > 0 ? 'delayed' : 'waiting';
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      void this.run(job);
+    }, delayMs);
+    this.timers.add(timer);
+  }
+
+  private async run(job: MemoryJob) {
+    const handler = this.handlers.get(job.queue);
+    if (!handler || this.closed) {
+      job.state = 'waiting';
+      return;
+    }
+
+    job.state = 'active';
+
+    try {
+      await handler({
+        id: job.id,
+        queue: job.queue,
+        name: job.name,
+        data: job.data,
+        attempt: job.attemptsMade + 1,
+        maxAttempts: job.options.attempts,
+      });
+
+      this.queueJobs(job.queue).delete(job.id);
+      this.completed.set(job.queue, (this.completed.get(job.queue) ?? 0) + 1);
+    } catch (error) {
+      job.attemptsMade++;
+      job.failedReason = error instanceof Error ? error.message : String(error);
+
+      if (
+        !(error instanceof PermanentJobError) &&
+        job.attemptsMade < job.options.attempts
+      ) {
+        const delay = job.options.backoffMs * 2 ** (job.attemptsMade - 1);
+        this.schedule(job, delay);
+        return;
+      }
+
+      job.state = 'failed';
+      job.failedAt = new Date();
+      this.logger.warn(
+        `Job ${job.queue}:${job.name}#${job.id} failed after ${job.attemptsMade} attempts: ${job.failedReason}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,63 @@
+// src/modules/queue/interfaces/queue-driver.interface.ts
+export interface QueueJobOptions {
+  attempts: number;
+  backoffMs: number; // base delay, doubled after every failed attempt
+  delayMs?: number;
+  jobId?: string;
+}
+
+export interface QueueJob<T = unknown> {
+  id: string;
+  queue: string;
+  name: string;
+  data: T;
+  attempt: number; // 1-based number of the current attempt
+  maxAttempts: number;
+}
+
+export type QueueJobHandler<T = unknown> = (job: QueueJob<T>) => Promise<void>;
+
+export interface FailedQueueJob {
+  id: string;
+  queue: string;
+  name: string;
+  data: unknown;
+  failedReason: string | null;
+  attemptsMade: number;
+  createdAt: Date | null;
+  failedAt: Date | null;
+}
+
+export interface QueueCounts {
+  waiting: number;
+  active: number;
+  delayed: number;
+  failed: number;
+  completed: number;
+}
+
+export interface QueueDriver {
+  add(
+    queue: string,
+    name: string,
+    data: unknown,
+    options: QueueJobOptions,
+  ): Promise<string>;
+
+  /** One handler per queue; it receives every job name on that queue. */
+  process(queue: string, handler: QueueJobHandler, concurrency: number): void;
+
+  getCounts(queue: string): Promise<QueueCounts>;
+
+  getFailed(
+    queue: string,
+    start: number,
+    end: number,
+  ): Promise<{ jobs: FailedQueueJob[]; total: number }>;
+
+  retryFailed(queue: string, jobId: string): Promise<boolean>;
+
+  removeFailed(queue: string, jobId: string): Promise<boolean>;
+
+  close(): Promise<void>;
+}
@@ -0,0 +1,11 @@
+// src/modules/queue/queue.constants.ts
+export const QUEUE_DRIVER = Symbol('QUEUE_DRIVER');
+
+export const QueueName = {
+  EMAIL: 'email',
+  MEDIA_PROCESSING: 'media-processing',
+} as const;
+
+export type QueueName = (typeof QueueName)[keyof typeof QueueName];
+
+export const QUEUE_NAMES: QueueName[] = Object.values(QueueName);
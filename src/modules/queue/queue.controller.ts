@@ -0,0 +1,49 @@
+// src/modules/queue/queue.controller.ts
+import {
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import * as client from '@prisma/client';
+import { JwtAuthGuard } from 'src/common/guards/auth.guard';
+import { RolesGuard } from 'src/common/guards/roles.guard';
+import { Roles } from 'src/common/decorators/roles.decorator';
+import { QueueService } from './queue.service';
+import { QueryFailedJobsDto } from './dto/query-failed-jobs.dto';
+
+@Controller('admin/queues')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(client.UserRole.SUPER_ADMIN, client.UserRole.ADMIN)
+export class QueueController {
+  constructor(private readonly queueService: QueueService) {}
+
+  @Get()
+  getOverview() {
+    return this.queueService.getOverview();
+  }
+
+  @Get(':queue/failed')
+  getFailedJobs(
+    @Param('queue') queue: string,
+    @Query() query: QueryFailedJobsDto,
+  ) {
+    return this.queueService.getFailedJobs(queue, query.page, query.limit);
+  }
+
+  @Post(':queue/failed/:jobId/retry')
+  retryFailedJob(@Param('queue') queue: string, @Param('jobId') jobId: string) {
+    return this.queueService.retryFailedJob(queue, jobId);
+  }
+
+  @Delete(':queue/failed/:jobId')
+  discardFailedJob(
+    @Param('queue') queue: string,
+    @Param('jobId') jobId: string,
+  ) {
+    return this.queueService.discardFailedJob(queue, jobId);
+  }
+}
@@ -0,0 +1,12 @@
+// src/modules/queue/queue.errors.ts
+
+/**
+ * Thrown by a job handler when retrying cannot help, e.g. a corrupt upload or
+ * a rejected recipient. The job goes straight to the failed list.
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = PermanentJobError.name;
+  }
+}
@@ -0,0 +1,41 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getRedisOptions } from 'src/config/redis.config';
+import { QueueService } from './queue.service';
+import { QueueController } from './queue.controller';
+import { QUEUE_DRIVER } from './queue.constants';
+import { QueueDriver } from './interfaces/queue-driver.interface';
+import { BullMqQueueDriver } from './drivers/bullmq-queue.driver';
+import { InMemoryQueueDriver } from './drivers/in-memory-queue.driver';
+
+// Global so that services provided directly in several modules (e.g.
+// MailerService) resolve the same QueueService.
+@Global()
+@Module({
+  controllers: [QueueController],
+  providers: [
+    {
+      provide: QUEUE_DRIVER,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService): QueueDriver => {
+        const defaultDriver =
+          config.get('NODE_ENV') === 'test' ? 'memory' : 'bullmq';
+
+        if (config.get('QUEUE_DRIVER', defaultDriver) === 'memory') {
+          return new InMemoryQueueDriver();
+        }
+
+        return new BullMqQueueDriver(
+          {
+            ...getRedisOptions(config),
+            maxRetriesPerRequest: null, // required by BullMQ workers
+          },
+          config.get('QUEUE_PREFIX', 'bull'),
+        );
+      },
+    },
+    QueueService,
+  ],
+  exports: [QueueService],
+})
+export class QueueModule {}
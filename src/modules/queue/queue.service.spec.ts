@@ -0,0 +1,127 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { QueueService } from './queue.service';
+import { QUEUE_DRIVER, QueueName } from './queue.constants';
+import { InMemoryQueueDriver } from './drivers/in-memory-queue.driver';
+import { PermanentJobError } from './queue.errors';
+
+const waitFor = async (condition: () => boolean | Promise<boolean>) => {
+  for (let i = 0; i < 100 && !(await condition()); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe('QueueService (in-memory driver)', () => {
+  let queue: QueueService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QueueService,
+        { provide: QUEUE_DRIVER, useFactory: () => new InMemoryQueueDriver() },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback?: string) => fallback },
+        },
+      ],
+    }).compile();
+
+    queue = module.get(QueueService);
+  });
+
+  afterEach(() => queue.onModuleDestroy());
+
+  it('retries with backoff until the handler succeeds', async () => {
+    const attempts: number[] = [];
+    queue.process(QueueName.EMAIL, {
+      send: (job) => {
+        attempts.push(job.attempt);
+        return job.attempt < 3
+          ? Promise.reject(new Error('SMTP unavailable'))
+          : Promise.resolve();
+      },
+    });
+
+    await queue.enqueue(QueueName.EMAIL, 'send', {}, { backoffMs: 1 });
+    await waitFor(() => attempts.length === 3);
+
+    expect(attempts).toEqual([1, 2, 3]);
+    await waitFor(async () => {
+      const { data } = await queue.getOverview();
+      return data[0].counts.completed === 1;
+    });
+    const { data } = await queue.getOverview();
+    expect(data.find((q) => q.name === QueueName.EMAIL)?.counts).toMatchObject({
+      failed: 0,
+      completed: 1,
+    });
+  });
+
+  it('keeps exhausted jobs in the failed list and can retry them', async () => {
+    let healthy = false;
+    let delivered: unknown;
+    queue.process(QueueName.EMAIL, {
+      send: (job) => {
+        if (!healthy) return Promise.reject(new Error('bounced'));
+        delivered = job.data;
+        return Promise.resolve();
+      },
+    });
+
+    const mail = {
+      to: 'client@example.com',
+      subject: 'Reset your password',
+      html: '<a href="https://app.example.com/reset?token=secret">Reset</a>',
+      text: 'https://app.example.com/reset?token=secret',
+    };
+    const jobId = await queue.enqueue(QueueName.EMAIL, 'send', mail, {
+      attempts: 2,
+      backoffMs: 1,
+    });
+    const failedCount = async () =>
+      (await queue.getFailedJobs(QueueName.EMAIL)).meta.total;
+    await waitFor(async () => (await failedCount()) === 1);
+
+    const failed = await queue.getFailedJobs(QueueName.EMAIL);
+    expect(failed.meta.total).toBe(1);
+    expect(failed.data[0]).toMatchObject({
+      id: jobId,
+      failedReason: 'bounced',
+      attemptsMade: 2,
+    });
+    // Listings leave out the body and its reset link
+    expect(failed.data[0].data).toEqual({
+      to: mail.to,
+      subject: mail.subject,
+    });
+
+    healthy = true;
+    await queue.retryFailedJob(QueueName.EMAIL, jobId);
+    await waitFor(() => delivered !== undefined);
+
+    expect(await failedCount()).toBe(0);
+    expect(delivered).toEqual(mail);
+  });
+
+  it('fails a job at once when the handler says retrying cannot help', async () => {
+    const attempts: number[] = [];
+    queue.process(QueueName.EMAIL, {
+      send: (job) => {
+        attempts.push(job.attempt);
+        return Promise.reject(new PermanentJobError('Mailbox does not exist'));
+      },
+    });
+
+    await queue.enqueue(QueueName.EMAIL, 'send', {}, { backoffMs: 1 });
+    await waitFor(
+      async () => (await queue.getFailedJobs(QueueName.EMAIL)).meta.total === 1,
+    );
+
+    const failed = await queue.getFailedJobs(QueueName.EMAIL);
+    expect(attempts).toEqual([1]);
+    expect(failed.data[0]).toMatchObject({
+      failedReason: 'Mailbox does not exist',
+      attemptsMade: 1,
+    });
+  });
+});
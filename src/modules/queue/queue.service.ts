@@ -0,0 +1,191 @@
+// src/modules/queue/queue.service.ts
+import {
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { QUEUE_DRIVER, QUEUE_NAMES, QueueName } from './queue.constants';
+import type {
+  FailedQueueJob,
+  QueueDriver,
+  QueueJobHandler,
+  QueueJobOptions,
+} from './interfaces/queue-driver.interface';
+
+// Mail bodies carry single-use links (password reset, email verification),
+// so admins listing failed jobs see who and what, but not the body
+const HIDDEN_JOB_FIELDS: Partial<Record<QueueName, string[]>> = {
+  [QueueName.EMAIL]: ['html', 'text'],
+};
+
+@Injectable()
+export class QueueService implements OnModuleDestroy {
+  private readonly logger = new Logger(QueueService.name);
+  private readonly registered = new Set<QueueName>();
+  private readonly defaultAttempts: number;
+  private readonly defaultBackoffMs: number;
+
+  constructor(
+    @Inject(QUEUE_DRIVER) private driver: QueueDriver,
+    private config: ConfigService,
+  ) {
+    this.defaultAttempts = parseInt(this.config.get('QUEUE_ATTEMPTS', '5'));
+    this.defaultBackoffMs = parseInt(
+      this.config.get('QUEUE_BACKOFF_MS', '5000'),
+    );
+  }
+
+  // ============================================
+  // PRODUCERS / CONSUMERS
+  // ============================================
+
+  async enqueue<T>(
+    queue: QueueName,
+    name: string,
+    data: T,
+    options: Partial<QueueJobOptions> = {},
+  ): Promise<string> {
+    const jobId = await this.driver.add(queue, name, data, {
+      attempts: options.attempts ?? this.defaultAttempts,
+      backoffMs: options.backoffMs ?? this.defaultBackoffMs,
+      delayMs: options.delayMs,
+      jobId: options.jobId,
+    });
+
+    this.logger.debug(`Enqueued ${queue}:${name}#${jobId}`);
+    return jobId;
+  }
+
+  /**
+   * Registers the worker for a queue. Each queue has exactly one owner, which
+   * maps job names to handlers; unknown names fail so they land in the
+   * failed list instead of disappearing.
+   */
+  process(
+    queue: QueueName,
+    handlers: Record<string, QueueJobHandler>,
+    concurrency = 1,
+  ) {
+    if (this.registered.has(queue)) {
+      throw new Error(`Queue "${queue}" already has a processor`);
+    }
+    this.registered.add(queue);
+
+    this.driver.process(
+      queue,
+      async (job) => {
+        const handler = handlers[job.name];
+        if (!handler) {
+          throw new Error(`No handler for job "${job.name}" on ${queue}`);
+        }
+        await handler(job);
+      },
+      concurrency,
+    );
+
+    this.logger.log(
+      `Processing ${queue} (${Object.keys(handlers).join(', ')}) with concurrency ${concurrency}`,
+    );
+  }
+
+  // ============================================
+  // DEAD-LETTER INSPECTION (admin)
+  // ============================================
+
+  async getOverview() {
+    const queues = await Promise.all(
+      QUEUE_NAMES.map(async (name) => ({
+        name,
+        counts: await this.driver.getCounts(name),
+      })),
+    );
+
+    return {
+      success: true,
+      message: 'Successfully retrieved queues',
+      data: queues,
+    };
+  }
+
+  async getFailedJobs(queue: string, page = 1, limit = 20) {
+    const name = this.assertQueue(queue);
+    const start = (page - 1) * limit;
+    const { jobs, total } = await this.driver.getFailed(
+      name,
+      start,
+      start + limit - 1,
+    );
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      success: true,
+      message: 'Successfully retrieved failed jobs',
+      data: jobs.map((job) => this.withoutHiddenFields(name, job)),
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrevious: page > 1,
+      },
+    };
+  }
+
+  async retryFailedJob(queue: string, jobId: string) {
+    const name = this.assertQueue(queue);
+    if (!(await this.driver.retryFailed(name, jobId))) {
+      throw new NotFoundException('Failed job not found');
+    }
+
+    this.logger.log(`Retrying failed job ${name}#${jobId}`);
+    return {
+      success: true,
+      message: 'Job re-queued',
+      data: { queue: name, jobId },
+    };
+  }
+
+  async discardFailedJob(queue: string, jobId: string) {
+    const name = this.assertQueue(queue);
+    if (!(await this.driver.removeFailed(name, jobId))) {
+      throw new NotFoundException('Failed job not found');
+    }
+
+    this.logger.log(`Discarded failed job ${name}#${jobId}`);
+    return {
+      success: true,
+      message: 'Failed job discarded',
+      data: { queue: name, jobId },
+    };
+  }
+
+  async onModuleDestroy() {
+    await this.driver.close();
+  }
+
+  private withoutHiddenFields(
+    queue: QueueName,
+    job: FailedQueueJob,
+  ): FailedQueueJob {
+    const hidden = HIDDEN_JOB_FIELDS[queue];
+    if (!hidden || !job.data || typeof job.data !== 'object') return job;
+
+    return {
+      ...job,
+      data: Object.fromEntries(
+        Object.entries(job.data).filter(([key]) => !hidden.includes(key)),
+      ),
+    };
+  }
+
+  private assertQueue(queue: string): QueueName {
+    if (!QUEUE_NAMES.includes(queue as QueueName)) {
+      throw new NotFoundException(`Unknown queue "${queue}"`);
+    }
+    return queue as QueueName;
+  }
+}
@@ -0,0 +1,28 @@
+// src/modules/realtime/drivers/in-memory-realtime.driver.ts
+import {
+  RealtimeDriver,
+  RealtimeListener,
+  RealtimeMessage,
+} from '../interfaces/realtime-driver.interface';
+
+/**
+ * Delivers within this process only, so it suits tests and a single local
+ * instance. Behind a load balancer use the Redis driver.
+ */
+export class InMemoryRealtimeDriver implements RealtimeDriver {
+  private readonly listeners: RealtimeListener[] = [];
+
+  publish(message: RealtimeMessage): Promise<void> {
+    this.listeners.forEach((listener) => listener(message));
+    return Promise.resolve();
+  }
+
+  subscribe(listener: RealtimeListener) {
+    this.listeners.push(listener);
+  }
+
+  close(): Promise<void> {
+    this.listeners.length = 0;
+    return Promise.resolve();
+  }
+}
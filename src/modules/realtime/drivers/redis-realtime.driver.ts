@@ -0,0 +1,57 @@
+// src/modules/realtime/drivers/redis-realtime.driver.ts
+import { Logger } from '@nestjs/common';
+import Redis, { RedisOptions } from 'ioredis';
+import {
+  RealtimeDriver,
+  RealtimeListener,
+  RealtimeMessage,
+} from '../interfaces/realtime-driver.interface';
+
+/**
+ * Fans events out over Redis pub/sub so a client receives them whichever
+ * instance its stream is connected to. A subscribed connection cannot run
+ * other commands, hence the second one.
+ */
+export class RedisRealtimeDriver implements RealtimeDriver {
+  private readonly logger = new Logger(RedisRealtimeDriver.name);
+
+  private readonly publisher: Redis;
+  private readonly subscriber: Redis;
+
+  constructor(
+    options: RedisOptions,
+    private readonly channel: string,
+  ) {
+    this.publisher = new Redis(options);
+    this.subscriber = this.publisher.duplicate();
+  }
+
+  async publish(message: RealtimeMessage) {
+    await this.publisher.publish(this.channel, JSON.stringify(message));
+  }
+
+  subscribe(listener: RealtimeListener) {
+    this.subscriber.on('message', (channel: string, raw: string) => {
+      if (channel !== this.channel) return;
+
+      let message: RealtimeMessage;
+      try {
+        message = JSON.parse(raw) as RealtimeMessage;
+      } catch {
+        this.logger.warn(`Dropped a malformed message on ${channel}`);
+        return;
+      }
+      listener(message);
+    });
+
+    this.subscriber.subscribe(this.channel).catch((error: Error) => {
+      this.logger.error(
+        `Could not subscribe to ${this.channel}: ${error.message}`,
+      );
+    });
+  }
+
+  async close() {
+    await Promise.all([this.subscriber.quit(), this.publisher.quit()]);
+  }
+}
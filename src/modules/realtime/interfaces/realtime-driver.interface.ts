@@ -0,0 +1,20 @@
+// src/modules/realtime/interfaces/realtime-driver.interface.ts
+import type { RealtimeEvent } from '../realtime-event.constant';
+
+/** An event as it travels between instances; it must survive JSON */
+export interface RealtimeMessage {
+  rooms: string[];
+  event: RealtimeEvent;
+  data: unknown;
+}
+
+export type RealtimeListener = (message: RealtimeMessage) => void;
+
+export interface RealtimeDriver {
+  /** Delivers to the listeners of every instance, this one included. */
+  publish(message: RealtimeMessage): Promise<void>;
+
+  subscribe(listener: RealtimeListener): void;
+
+  close(): Promise<void>;
+}
@@ -0,0 +1,12 @@
+// src/modules/realtime/realtime-event.constant.ts
+export const RealtimeEvent = {
+  NOTIFICATION_CREATED: 'notification.created',
+  PROPOSAL_STATUS_CHANGED: 'proposal.status_changed',
+  PROPOSAL_SIGNED: 'proposal.signed',
+  PROPOSAL_TOTALS_UPDATED: 'proposal.totals_updated',
+  STAGE_PROGRESS_UPDATED: 'stage.progress_updated',
+  AMENDMENT_REQUESTED: 'amendment.requested',
+  AMENDMENT_REVIEWED: 'amendment.reviewed',
+} as const;
+
+export type RealtimeEvent = (typeof RealtimeEvent)[keyof typeof RealtimeEvent];
@@ -0,0 +1,27 @@
+// src/modules/realtime/realtime-ticket.guard.ts
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { RealtimeTicketService } from './realtime-ticket.service';
+
+/** Authenticates `?ticket=` on stream routes; see RealtimeTicketService */
+@Injectable()
+export class RealtimeTicketGuard implements CanActivate {
+  constructor(private tickets: RealtimeTicketService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const ticket = request.query?.ticket;
+
+    if (typeof ticket !== 'string') {
+      throw new UnauthorizedException('Missing stream ticket');
+    }
+
+    request.user = await this.tickets.verify(ticket);
+    return true;
+  }
+}
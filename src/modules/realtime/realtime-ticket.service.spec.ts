@@ -0,0 +1,72 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { UserRole } from '@prisma/client';
+import { RealtimeTicketService } from './realtime-ticket.service';
+
+describe('RealtimeTicketService', () => {
+  const ACCESS_SECRET = 'test-access-secret-of-at-least-32-chars';
+
+  let tickets: RealtimeTicketService;
+  const jwt = new JwtService();
+
+  const user = {
+    id: 'client-1',
+    email: 'dana@example.com',
+    role: UserRole.USER,
+  };
+
+  const accessToken = (expiresIn = 900) =>
+    jwt.signAsync(
+      { sub: user.id, role: user.role },
+      { secret: ACCESS_SECRET, expiresIn },
+    );
+
+  beforeEach(() => {
+    tickets = new RealtimeTicketService(jwt, {
+      get: (key: string, fallback?: string) =>
+        key === 'JWT_ACCESS_SECRET' ? ACCESS_SECRET : fallback,
+    } as unknown as ConfigService);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('carries the user and the access token expiry to the stream', async () => {
+    const access = await accessToken();
+    const { exp } = jwt.decode<{ exp: number }>(access);
+
+    const { ticket } = await tickets.issue(user, access);
+
+    await expect(tickets.verify(ticket)).resolves.toEqual({
+      ...user,
+      sessionExpiresAt: new Date(exp * 1000),
+    });
+  });
+
+  it('does not take an access token as a ticket', async () => {
+    await expect(tickets.verify(await accessToken())).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+  });
+
+  it('does not let a ticket pass as an access token', async () => {
+    const { ticket } = await tickets.issue(user, await accessToken());
+
+    await expect(
+      jwt.verifyAsync(ticket, { secret: ACCESS_SECRET }),
+    ).rejects.toThrow();
+  });
+
+  it('refuses a ticket after it expires', async () => {
+    const { ticket, expiresIn } = await tickets.issue(
+      user,
+      await accessToken(),
+    );
+
+    jest.useFakeTimers({ now: Date.now() + (expiresIn + 1) * 1000 });
+
+    await expect(tickets.verify(ticket)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+  });
+});
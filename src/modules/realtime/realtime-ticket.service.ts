@@ -0,0 +1,87 @@
+// src/modules/realtime/realtime-ticket.service.ts
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { User, UserRole } from '@prisma/client';
+import { createHmac } from 'crypto';
+
+const TICKET_TTL_SECONDS = 30;
+const TICKET_AUDIENCE = 'realtime-stream';
+
+interface TicketPayload {
+  sub: string;
+  email: string;
+  role: UserRole;
+  sessionExp: number; // the issuing access token's `exp`
+}
+
+/** Who a stream belongs to and when the session behind it ends */
+export interface RealtimeStreamUser extends Pick<
+  User,
+  'id' | 'email' | 'role'
+> {
+  sessionExpiresAt: Date;
+}
+
+/**
+ * Browsers cannot set headers on an EventSource, so the stream URL carries a
+ * ticket instead of the access token. Tickets are exchanged for an access
+ * token, live for seconds and open streams only: one leaked through a proxy
+ * log or browser history is useless by the time anyone reads it.
+ */
+@Injectable()
+export class RealtimeTicketService {
+  private readonly secret: string;
+
+  constructor(
+    private jwt: JwtService,
+    config: ConfigService,
+  ) {
+    // Never the access secret itself, or a ticket would pass as an access token
+    this.secret =
+      config.get<string>('REALTIME_TICKET_SECRET') ||
+      createHmac('sha256', config.get<string>('JWT_ACCESS_SECRET', ''))
+        .update(TICKET_AUDIENCE)
+        .digest('hex');
+  }
+
+  async issue(user: Pick<User, 'id' | 'email' | 'role'>, accessToken: string) {
+    const access = this.jwt.decode<{ exp?: number } | null>(accessToken);
+    if (!access?.exp) {
+      throw new UnauthorizedException('Access token has no expiry');
+    }
+
+    const payload: TicketPayload = {
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      sessionExp: access.exp,
+    };
+    const ticket = await this.jwt.signAsync(payload, {
+      secret: this.secret,
+      audience: TICKET_AUDIENCE,
+      expiresIn: TICKET_TTL_SECONDS,
+    });
+
+    return { ticket, expiresIn: TICKET_TTL_SECONDS };
+  }
+
+  async verify(ticket: string): Promise<RealtimeStreamUser> {
+    let payload: TicketPayload;
+    try {
+      payload = await this.jwt.verifyAsync<TicketPayload>(ticket, {
+        secret: this.secret,
+        audience: TICKET_AUDIENCE,
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid or expired stream ticket');
+    }
+
+    return {
+      id: payload.sub,
+      email: payload.email,
+      role: payload.role,
+      sessionExpiresAt: new Date(payload.sessionExp * 1000),
+    };
+  }
+}
@@ -0,0 +1,2 @@
+// src/modules/realtime/realtime.constants.ts
+export const REALTIME_DRIVER = Symbol('REALTIME_DRIVER');
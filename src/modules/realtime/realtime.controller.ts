@@ -0,0 +1,47 @@
+// src/modules/realtime/realtime.controller.ts
+import {
+  Controller,
+  MessageEvent,
+  Post,
+  Req,
+  Sse,
+  UseGuards,
+} from '@nestjs/common';
+import * as client from '@prisma/client';
+import type { Request } from 'express';
+import { Observable } from 'rxjs';
+import { JwtAuthGuard } from 'src/common/guards/auth.guard';
+import { CurrentUser } from 'src/common/decorators/current-user.decorator';
+import { RealtimeService } from './realtime.service';
+import { RealtimeTicketService } from './realtime-ticket.service';
+import type { RealtimeStreamUser } from './realtime-ticket.service';
+import { RealtimeTicketGuard } from './realtime-ticket.guard';
+
+@Controller('realtime')
+export class RealtimeController {
+  constructor(
+    private readonly realtimeService: RealtimeService,
+    private readonly tickets: RealtimeTicketService,
+  ) {}
+
+  // POST /realtime/ticket with the usual Authorization header
+  @Post('ticket')
+  @UseGuards(JwtAuthGuard)
+  async issueTicket(@CurrentUser() user: client.User, @Req() req: Request) {
+    // JwtAuthGuard has already checked it is a valid bearer token
+    const accessToken = req.headers.authorization!.replace(/^Bearer /i, '');
+
+    return {
+      success: true,
+      message: 'Stream ticket issued',
+      data: await this.tickets.issue(user, accessToken),
+    };
+  }
+
+  // GET /realtime/stream?ticket=<ticket>
+  @Sse('stream')
+  @UseGuards(RealtimeTicketGuard)
+  stream(@CurrentUser() user: RealtimeStreamUser): Observable<MessageEvent> {
+    return this.realtimeService.stream(user);
+  }
+}
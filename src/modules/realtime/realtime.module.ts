@@ -0,0 +1,42 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { getRedisOptions } from 'src/config/redis.config';
+import { RealtimeService } from './realtime.service';
+import { RealtimeController } from './realtime.controller';
+import { RealtimeTicketService } from './realtime-ticket.service';
+import { RealtimeTicketGuard } from './realtime-ticket.guard';
+import { REALTIME_DRIVER } from './realtime.constants';
+import { RealtimeDriver } from './interfaces/realtime-driver.interface';
+import { InMemoryRealtimeDriver } from './drivers/in-memory-realtime.driver';
+import { RedisRealtimeDriver } from './drivers/redis-realtime.driver';
+
+@Module({
+  // Secrets are passed per call, as in AuthService
+  imports: [JwtModule.register({})],
+  controllers: [RealtimeController],
+  providers: [
+    {
+      provide: REALTIME_DRIVER,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService): RealtimeDriver => {
+        const defaultDriver =
+          config.get('NODE_ENV') === 'test' ? 'memory' : 'redis';
+
+        if (config.get('REALTIME_DRIVER', defaultDriver) === 'memory') {
+          return new InMemoryRealtimeDriver();
+        }
+
+        return new RedisRealtimeDriver(
+          getRedisOptions(config),
+          config.get('REALTIME_CHANNEL', 'realtime:events'),
+        );
+      },
+    },
+    RealtimeService,
+    RealtimeTicketService,
+    RealtimeTicketGuard,
+  ],
+  exports: [RealtimeService],
+})
+export class RealtimeModule {}
@@ -0,0 +1,101 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MessageEvent } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { Subscription } from 'rxjs';
+import { RealtimeService } from './realtime.service';
+import { RealtimeStreamUser } from './realtime-ticket.service';
+import { RealtimeEvent } from './realtime-event.constant';
+import { REALTIME_DRIVER } from './realtime.constants';
+import { InMemoryRealtimeDriver } from './drivers/in-memory-realtime.driver';
+
+describe('RealtimeService', () => {
+  let service: RealtimeService;
+  let driver: InMemoryRealtimeDriver;
+  let subscription: Subscription;
+  let received: MessageEvent[];
+
+  const manager: RealtimeStreamUser = {
+    id: 'pm-1',
+    email: 'pm@example.com',
+    role: UserRole.PROJECT_MANAGER,
+    sessionExpiresAt: new Date(Date.now() + 60_000),
+  };
+
+  beforeEach(async () => {
+    driver = new InMemoryRealtimeDriver();
+    received = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RealtimeService,
+        { provide: REALTIME_DRIVER, useValue: driver },
+      ],
+    }).compile();
+
+    service = module.get(RealtimeService);
+    service.onModuleInit();
+    subscription = service
+      .stream(manager)
+      .subscribe((event) => received.push(event));
+  });
+
+  afterEach(async () => {
+    subscription.unsubscribe();
+    await service.onModuleDestroy();
+  });
+
+  const types = () => received.map((event) => event.type);
+
+  it('delivers an event addressed to both the user and their role once', async () => {
+    service.publish(
+      { userIds: [manager.id], roles: [UserRole.PROJECT_MANAGER] },
+      RealtimeEvent.AMENDMENT_REQUESTED,
+      { proposalId: 'proposal-1' },
+    );
+    await Promise.resolve();
+
+    expect(types()).toEqual(['connected', RealtimeEvent.AMENDMENT_REQUESTED]);
+  });
+
+  it('leaves out events for other rooms', async () => {
+    service.publish(
+      { userIds: ['client-1'], roles: [UserRole.FINANCE] },
+      RealtimeEvent.PROPOSAL_SIGNED,
+      {},
+    );
+    await Promise.resolve();
+
+    expect(types()).toEqual(['connected']);
+  });
+
+  it('delivers what another instance published', async () => {
+    await driver.publish({
+      rooms: [RealtimeService.userRoom(manager.id)],
+      event: RealtimeEvent.NOTIFICATION_CREATED,
+      data: { id: 'notification-1' },
+    });
+
+    expect(received[1]).toEqual({
+      type: RealtimeEvent.NOTIFICATION_CREATED,
+      data: { id: 'notification-1' },
+    });
+  });
+
+  it('ends the stream when the session behind it expires', () => {
+    jest.useFakeTimers();
+    const events: string[] = [];
+    let ended = false;
+
+    service
+      .stream({ ...manager, sessionExpiresAt: new Date(Date.now() + 1000) })
+      .subscribe({
+        next: (event) => events.push(event.type!),
+        complete: () => (ended = true),
+      });
+    jest.advanceTimersByTime(1000);
+    jest.useRealTimers();
+
+    expect(events).toEqual(['connected', 'session_expired']);
+    expect(ended).toBe(true);
+  });
+});
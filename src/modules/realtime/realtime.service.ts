@@ -0,0 +1,132 @@
+// src/modules/realtime/realtime.service.ts
+import {
+  Inject,
+  Injectable,
+  Logger,
+  MessageEvent,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import {
+  Observable,
+  Subject,
+  concat,
+  filter,
+  interval,
+  map,
+  merge,
+  of,
+  takeUntil,
+  timer,
+} from 'rxjs';
+import { RealtimeEvent } from './realtime-event.constant';
+import { REALTIME_DRIVER } from './realtime.constants';
+import type { RealtimeDriver } from './interfaces/realtime-driver.interface';
+import type { RealtimeStreamUser } from './realtime-ticket.service';
+
+export interface RealtimeAudience {
+  userIds?: (string | null | undefined)[];
+  roles?: UserRole[];
+}
+
+interface RealtimeEnvelope {
+  rooms: Set<string>;
+  event: RealtimeEvent;
+  data: unknown;
+}
+
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+/**
+ * Fan-out hub for server-sent events. Every connection joins a `user:<id>`
+ * room and a `role:<ROLE>` room; publishers address rooms, never sockets.
+ * Events go through the driver, so every instance hears every publish.
+ */
+@Injectable()
+export class RealtimeService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RealtimeService.name);
+  private readonly events$ = new Subject<RealtimeEnvelope>();
+
+  constructor(
+    @Inject(REALTIME_DRIVER) private readonly driver: RealtimeDriver,
+  ) {}
+
+  onModuleInit() {
+    this.driver.subscribe(({ rooms, event, data }) =>
+      this.events$.next({ rooms: new Set(rooms), event, data }),
+    );
+  }
+
+  static userRoom(userId: string) {
+    return `user:${userId}`;
+  }
+
+  static roleRoom(role: UserRole) {
+    return `role:${role}`;
+  }
+
+  publish(audience: RealtimeAudience, event: RealtimeEvent, data: unknown) {
+    const rooms = new Set<string>([
+      ...(audience.userIds ?? [])
+        .filter((id): id is string => !!id)
+        .map((id) => RealtimeService.userRoom(id)),
+      ...(audience.roles ?? []).map((role) => RealtimeService.roleRoom(role)),
+    ]);
+
+    if (rooms.size === 0) return;
+
+    // Fire-and-forget like the callers expect; a lost push is not fatal
+    this.driver.publish({ rooms: [...rooms], event, data }).catch((error) => {
+      this.logger.error(
+        `Failed to publish ${event}: ${(error as Error).message}`,
+      );
+    });
+  }
+
+  stream(user: RealtimeStreamUser): Observable<MessageEvent> {
+    const rooms = [
+      RealtimeService.userRoom(user.id),
+      RealtimeService.roleRoom(user.role),
+    ];
+
+    this.logger.log(`Realtime stream opened for ${user.email}`);
+
+    const connected$ = of<MessageEvent>({
+      type: 'connected',
+      data: { userId: user.id, rooms },
+    });
+
+    const events$ = this.events$.pipe(
+      // One envelope may address both the user and their role; it is
+      // delivered once because we test membership, not per-room copies.
+      filter((envelope) => rooms.some((room) => envelope.rooms.has(room))),
+      map(
+        (envelope): MessageEvent => ({
+          type: envelope.event,
+          data: envelope.data as object,
+        }),
+      ),
+    );
+
+    const heartbeat$ = interval(HEARTBEAT_INTERVAL_MS).pipe(
+      map(
+        (): MessageEvent => ({ type: 'heartbeat', data: { at: Date.now() } }),
+      ),
+    );
+
+    // The stream ends with the session that opened it; the client gets a new
+    // ticket with a refreshed access token and reconnects
+    return concat(
+      merge(connected$, events$, heartbeat$).pipe(
+        takeUntil(timer(user.sessionExpiresAt)),
+      ),
+      of<MessageEvent>({ type: 'session_expired', data: {} }),
+    );
+  }
+
+  async onModuleDestroy() {
+    this.events$.complete();
+    await this.driver.close();
+  }
+}
@@ -0,0 +1,94 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { PartialType } from '@nestjs/mapped-types';
+import { Transform } from 'class-transformer';
+import { ServiceType } from '@prisma/client';
+
+export class CreateTaxRuleDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsNotEmpty()
+  country: string;
+
+  @IsOptional()
+  @IsString()
+  state?: string; // omit for a country-wide component
+
+  @IsOptional()
+  @IsString()
+  city?: string; // omit for a state-wide component
+
+  @IsNumber({}, { message: 'rate must be a valid number' })
+  @Min(0)
+  @Max(100)
+  rate: number; // percent
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(ServiceType, { each: true })
+  serviceTypes?: ServiceType[]; // omit to tax every service type
+
+  @IsOptional()
+  @IsBoolean()
+  compound?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  order?: number;
+}
+
+export class UpdateTaxRuleDto extends PartialType(CreateTaxRuleDto) {
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class QueryTaxRuleDto {
+  @IsOptional()
+  @IsString()
+  country?: string;
+
+  @IsOptional()
+  @IsString()
+  state?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeInactive?: boolean = false;
+}
+
+export class TaxQuoteDto {
+  @IsString()
+  @IsNotEmpty()
+  country: string;
+
+  @IsOptional()
+  @IsString()
+  state?: string;
+
+  @IsOptional()
+  @IsString()
+  city?: string;
+
+  @IsEnum(ServiceType)
+  serviceType: ServiceType;
+
+  @IsNumber()
+  @Min(0)
+  amount: number;
+}
@@ -0,0 +1,93 @@
+// src/modules/tax/tax.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import * as client from '@prisma/client';
+import { JwtAuthGuard } from 'src/common/guards/auth.guard';
+import { RolesGuard } from 'src/common/guards/roles.guard';
+import { Roles } from 'src/common/decorators/roles.decorator';
+import { TaxService } from './tax.service';
+import {
+  CreateTaxRuleDto,
+  QueryTaxRuleDto,
+  TaxQuoteDto,
+  UpdateTaxRuleDto,
+} from './dto/tax-rule.dto';
+
+@Controller('tax-rules')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class TaxController {
+  constructor(private readonly taxService: TaxService) {}
+
+  @Get()
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+    client.UserRole.FINANCE,
+  )
+  findAll(@Query() query: QueryTaxRuleDto) {
+    return this.taxService.findAll(query);
+  }
+
+  @Get('quote')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+    client.UserRole.FINANCE,
+  )
+  quote(@Query() query: TaxQuoteDto) {
+    return this.taxService.quote(query);
+  }
+
+  @Get(':id')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.PROJECT_MANAGER,
+    client.UserRole.FINANCE,
+  )
+  findOne(@Param('id') id: string) {
+    return this.taxService.findOne(id);
+  }
+
+  // Rates are a compliance matter, so finance maintains them
+  @Post()
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.FINANCE,
+  )
+  create(@Body() dto: CreateTaxRuleDto) {
+    return this.taxService.create(dto);
+  }
+
+  @Patch(':id')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.FINANCE,
+  )
+  update(@Param('id') id: string, @Body() dto: UpdateTaxRuleDto) {
+    return this.taxService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @Roles(
+    client.UserRole.SUPER_ADMIN,
+    client.UserRole.ADMIN,
+    client.UserRole.FINANCE,
+  )
+  remove(@Param('id') id: string) {
+    return this.taxService.remove(id);
+  }
+}
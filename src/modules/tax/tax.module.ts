@@ -0,0 +1,13 @@
+// src/modules/tax/tax.module.ts
+import { Module } from '@nestjs/common';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { TaxService } from './tax.service';
+import { TaxController } from './tax.controller';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [TaxController],
+  providers: [TaxService],
+  exports: [TaxService],
+})
+export class TaxModule {}
@@ -0,0 +1,140 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { Prisma, ServiceType } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { TaxService } from './tax.service';
+
+describe('TaxService', () => {
+  let service: TaxService;
+  let rules: unknown[];
+
+  const rule = (
+    id: string,
+    rate: number,
+    overrides: Record<string, unknown> = {},
+  ) => ({
+    id,
+    name: id,
+    country: 'US',
+    state: 'TX',
+    city: null,
+    rate: new Prisma.Decimal(rate),
+    compound: false,
+    serviceTypes: [] as ServiceType[],
+    ...overrides,
+  });
+
+  const prisma = {
+    taxRule: {
+      findMany: jest.fn<Promise<unknown[]>, [Prisma.TaxRuleFindManyArgs]>(() =>
+        Promise.resolve(rules),
+      ),
+      create: jest.fn(),
+    },
+  };
+
+  const austin = { country: 'US', state: 'TX', city: 'Austin' };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    rules = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [TaxService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get(TaxService);
+  });
+
+  describe('calculate', () => {
+    it('stacks state and local rules, compounding where asked', async () => {
+      rules = [
+        rule('state', 6.25),
+        rule('city', 2, { city: 'Austin', compound: true }),
+      ];
+
+      const tax = await service.calculate(
+        austin,
+        ServiceType.NEW_CONSTRUCTION,
+        1000,
+      );
+
+      expect(tax?.amount).toBe(83.75);
+      expect(tax?.components).toMatchObject([
+        { taxRuleId: 'state', taxableAmount: 1000, amount: 62.5 },
+        { taxRuleId: 'city', taxableAmount: 1062.5, amount: 21.25 },
+      ]);
+    });
+
+    it('skips rules that exempt the service type', async () => {
+      rules = [
+        rule('state', 6.25),
+        rule('renovation', 1, { serviceTypes: [ServiceType.RENOVATION] }),
+      ];
+
+      const tax = await service.calculate(
+        austin,
+        ServiceType.INTERIOR_DESIGN,
+        1000,
+      );
+
+      expect(tax).toMatchObject({ rate: 6.25, amount: 62.5 });
+      expect(tax?.components[1]).toMatchObject({ taxable: false, amount: 0 });
+    });
+
+    it('leaves locations without rules to the manual rate', async () => {
+      await expect(
+        service.calculate(austin, ServiceType.OTHER, 1000),
+      ).resolves.toBeNull();
+      await expect(
+        service.calculate({ state: 'TX' }, ServiceType.OTHER, 1000),
+      ).resolves.toBeNull();
+      expect(prisma.taxRule.findMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not apply city rules to a project with no city', async () => {
+      await service.calculate(
+        { country: 'US', state: 'TX' },
+        ServiceType.OTHER,
+        1000,
+      );
+
+      const [query] = prisma.taxRule.findMany.mock.calls[0];
+      expect(query.where?.AND).toContainEqual({ city: null });
+    });
+  });
+
+  it('reapplies a stored breakdown to an installment', async () => {
+    rules = [
+      rule('state', 6.25),
+      rule('city', 2, { city: 'Austin', compound: true }),
+    ];
+    const quote = await service.calculate(austin, ServiceType.ADDITION, 1000);
+
+    expect(service.reapply(quote!.components, 500).amount).toBe(41.88);
+  });
+
+  it('taxes the project site unless it is the client address', () => {
+    const request = {
+      projectLocationSameAsClient: false,
+      projectCountry: null,
+      projectState: 'TX',
+      projectCity: 'Austin',
+      country: 'US',
+      state: 'CA',
+      city: 'Oakland',
+    };
+
+    expect(service.locationOf(request)).toEqual(austin);
+    expect(
+      service.locationOf({ ...request, projectLocationSameAsClient: true }),
+    ).toEqual({ country: 'US', state: 'CA', city: 'Oakland' });
+  });
+
+  it('refuses a city rule without a state', async () => {
+    await expect(
+      service.create({ name: 'City', country: 'US', city: 'Austin', rate: 2 }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.taxRule.create).not.toHaveBeenCalled();
+  });
+});
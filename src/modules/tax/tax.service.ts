@@ -0,0 +1,321 @@
+// src/modules/tax/tax.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, ProjectRequest, ServiceType, TaxRule } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  CreateTaxRuleDto,
+  QueryTaxRuleDto,
+  TaxQuoteDto,
+  UpdateTaxRuleDto,
+} from './dto/tax-rule.dto';
+
+export interface TaxLocation {
+  country?: string | null;
+  state?: string | null;
+  city?: string | null;
+}
+
+/** One line of a proposal's tax breakdown, as stored in `taxBreakdown` */
+export interface TaxComponent {
+  taxRuleId: string;
+  name: string;
+  jurisdiction: string;
+  rate: number;
+  compound: boolean;
+  taxable: boolean; // false when the rule exempts the service type
+  taxableAmount: number;
+  amount: number;
+}
+
+export interface TaxCalculation {
+  rate: number; // effective percent of the taxable amount
+  amount: number;
+  components: TaxComponent[];
+}
+
+const insensitive = (value: string) => ({
+  equals: value.trim(),
+  mode: Prisma.QueryMode.insensitive,
+});
+
+/**
+ * Tax rules keyed on a project's location. A proposal is taxed by every
+ * active rule for its country, state and city, so state and local components
+ * stack. Locations without rules keep the proposal's manual tax rate.
+ */
+@Injectable()
+export class TaxService {
+  private readonly logger = new Logger(TaxService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  async findAll(query: QueryTaxRuleDto) {
+    const { country, state, includeInactive } = query;
+
+    const rules = await this.prisma.taxRule.findMany({
+      where: {
+        ...(includeInactive ? {} : { isActive: true }),
+        ...(country && { country: insensitive(country) }),
+        ...(state && { state: insensitive(state) }),
+      },
+      orderBy: [
+        { country: 'asc' },
+        { state: 'asc' },
+        { city: 'asc' },
+        { order: 'asc' },
+      ],
+    });
+
+    return {
+      success: true,
+      message: 'Tax rules retrieved successfully',
+      data: rules,
+    };
+  }
+
+  async findOne(id: string) {
+    return {
+      success: true,
+      message: 'Tax rule retrieved successfully',
+      data: await this.getOrThrow(id),
+    };
+  }
+
+  async create(dto: CreateTaxRuleDto) {
+    this.assertJurisdiction(dto.state, dto.city);
+
+    const rule = await this.prisma.taxRule.create({
+      data: {
+        name: dto.name.trim(),
+        country: dto.country.trim(),
+        state: dto.state?.trim() || null,
+        city: dto.city?.trim() || null,
+        rate: dto.rate,
+        serviceTypes: dto.serviceTypes ?? [],
+        compound: dto.compound,
+        order: dto.order,
+      },
+    });
+
+    this.logger.log(
+      `Tax rule created: ${rule.name} (${this.jurisdiction(rule)}, ${Number(rule.rate)}%)`,
+    );
+
+    return {
+      success: true,
+      message: `Tax rule "${rule.name}" created`,
+      data: rule,
+    };
+  }
+
+  async update(id: string, dto: UpdateTaxRuleDto) {
+    const existing = await this.getOrThrow(id);
+    this.assertJurisdiction(
+      dto.state !== undefined ? dto.state : existing.state,
+      dto.city !== undefined ? dto.city : existing.city,
+    );
+
+    const rule = await this.prisma.taxRule.update({
+      where: { id },
+      data: {
+        name: dto.name?.trim(),
+        country: dto.country?.trim(),
+        state: dto.state !== undefined ? dto.state.trim() || null : undefined,
+        city: dto.city !== undefined ? dto.city.trim() || null : undefined,
+        rate: dto.rate,
+        serviceTypes: dto.serviceTypes,
+        compound: dto.compound,
+        order: dto.order,
+        isActive: dto.isActive,
+      },
+    });
+
+    return {
+      success: true,
+      message: `Tax rule "${rule.name}" updated successfully`,
+      data: rule,
+    };
+  }
+
+  /** Retired rather than deleted; quoted proposals keep their breakdown */
+  async remove(id: string) {
+    const rule = await this.getOrThrow(id);
+
+    await this.prisma.taxRule.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    return {
+      success: true,
+      message: `Tax rule "${rule.name}" retired`,
+    };
+  }
+
+  /** What a project at a location would be charged, without a proposal */
+  async quote(dto: TaxQuoteDto) {
+    const calculation = await this.calculate(
+      dto,
+      dto.serviceType,
+      Number(dto.amount),
+    );
+
+    return {
+      success: true,
+      message: calculation
+        ? 'Tax calculated successfully'
+        : 'No tax rules apply to this location',
+      data: calculation,
+    };
+  }
+
+  /** Where the work happens, falling back to the client's address */
+  locationOf(
+    request: Pick<
+      ProjectRequest,
+      | 'projectLocationSameAsClient'
+      | 'projectCountry'
+      | 'projectState'
+      | 'projectCity'
+      | 'country'
+      | 'state'
+      | 'city'
+    >,
+  ): TaxLocation {
+    if (request.projectLocationSameAsClient) {
+      return {
+        country: request.country,
+        state: request.state,
+        city: request.city,
+      };
+    }
+
+    return {
+      country: request.projectCountry || request.country,
+      state: request.projectState,
+      city: request.projectCity,
+    };
+  }
+
+  /**
+   * Tax on `taxableAmount` for a location, or null when no rules cover it.
+   * Components apply in rule order; compound ones include the tax before them.
+   */
+  async calculate(
+    location: TaxLocation,
+    serviceType: ServiceType,
+    taxableAmount: number,
+  ): Promise<TaxCalculation | null> {
+    const rules = await this.rulesFor(location);
+    if (rules.length === 0) return null;
+
+    return this.apply(
+      rules.map((rule) => ({
+        taxRuleId: rule.id,
+        name: rule.name,
+        jurisdiction: this.jurisdiction(rule),
+        rate: Number(rule.rate),
+        compound: rule.compound,
+        taxable:
+          rule.serviceTypes.length === 0 ||
+          rule.serviceTypes.includes(serviceType),
+      })),
+      taxableAmount,
+    );
+  }
+
+  /** Applies a stored breakdown's rates to another amount, e.g. an invoice */
+  reapply(components: TaxComponent[], taxableAmount: number) {
+    return this.apply(components, taxableAmount);
+  }
+
+  private apply(
+    components: Omit<TaxComponent, 'taxableAmount' | 'amount'>[],
+    taxableAmount: number,
+  ): TaxCalculation {
+    const applied: TaxComponent[] = [];
+    let taxSoFar = 0;
+    let unitTax = 0; // tax on 100, for the effective rate
+
+    for (const component of components) {
+      const { rate, compound, taxable } = component;
+      const base = compound ? taxableAmount + taxSoFar : taxableAmount;
+      const exact = taxable ? (base * rate) / 100 : 0;
+      const amount = Math.round(exact * 100) / 100;
+
+      if (taxable) {
+        unitTax += ((compound ? 100 + unitTax : 100) * rate) / 100;
+        taxSoFar += amount;
+      }
+
+      applied.push({
+        taxRuleId: component.taxRuleId,
+        name: component.name,
+        jurisdiction: component.jurisdiction,
+        rate,
+        compound,
+        taxable,
+        taxableAmount: taxable ? Math.round(base * 100) / 100 : 0,
+        amount,
+      });
+    }
+
+    return {
+      rate: Math.round(unitTax * 100) / 100,
+      amount: Math.round(taxSoFar * 100) / 100,
+      components: applied,
+    };
+  }
+
+  private async rulesFor(location: TaxLocation) {
+    const country = location.country?.trim();
+    if (!country) return [];
+
+    const state = location.state?.trim();
+    const city = location.city?.trim();
+
+    return this.prisma.taxRule.findMany({
+      where: {
+        isActive: true,
+        country: insensitive(country),
+        AND: [
+          state
+            ? { OR: [{ state: null }, { state: insensitive(state) }] }
+            : { state: null },
+          city
+            ? { OR: [{ city: null }, { city: insensitive(city) }] }
+            : { city: null },
+        ],
+      },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  // City names repeat across states, so a city rule must name its state
+  private assertJurisdiction(state?: string | null, city?: string | null) {
+    if (city?.trim() && !state?.trim()) {
+      throw new BadRequestException('A city tax rule must also set a state');
+    }
+  }
+
+  private jurisdiction(location: TaxLocation | TaxRule) {
+    return [location.city, location.state, location.country]
+      .filter(Boolean)
+      .join(', ');
+  }
+
+  async getOrThrow(id: string) {
+    const rule = await this.prisma.taxRule.findUnique({ where: { id } });
+
+    if (!rule) {
+      throw new NotFoundException('Tax rule not found');
+    }
+
+    return rule;
+  }
+}
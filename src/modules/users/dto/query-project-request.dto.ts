@@ -15,6 +15,10 @@ export class QueryProjectRequestDto {
   @IsString()
   email?: string;
 
+  @IsOptional()
+  @IsString()
+  requestNumber?: string;
+
   @IsOptional()
   @Type(() => Number)
   @IsInt()
@@ -5,19 +5,32 @@ import {
   ForbiddenException,
   Logger,
 } from '@nestjs/common';
-import { UserRole, RequestStatus } from '@prisma/client';
+import { UserRole, RequestStatus, NumberedDocument } from '@prisma/client';
 import { RequestStatus as StatusEnum } from '@prisma/client';
 import { PrismaService } from 'src/prisma/prisma.service';
+import { NumberingService } from 'src/modules/numbering/numbering.service';
 import { CreateProjectRequestDto } from '../dto/project-request.dto';
 import { QueryProjectRequestDto } from '../dto/query-project-request.dto';
 import { UpdateProjectRequestDto } from '../dto/update-project-request.dto';
 import { success } from 'zod';
+import { NotificationsService } from 'src/modules/notifications/notifications.service';
+import { NotificationType } from 'src/modules/notifications/notification-type.constant';
+import {
+  AssetProcessStatus,
+  AssetTarget,
+  MediaProcessingService,
+} from 'src/modules/media/media-processing.service';
 
 @Injectable()
 export class ProjectRequestService {
   private readonly logger = new Logger(ProjectRequestService.name);
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private notifications: NotificationsService,
+    private mediaProcessing: MediaProcessingService,
+    private numbering: NumberingService,
+  ) {}
 
   private readonly allowedTransitions: Record<RequestStatus, RequestStatus[]> =
     {
@@ -55,6 +68,9 @@ export class ProjectRequestService {
 
       const request = await this.prisma.projectRequest.create({
         data: {
+          requestNumber: await this.numbering.next(
+            NumberedDocument.PROJECT_REQUEST,
+          ),
           clientFirstName: dto.clientFirstName.trim(),
           clientMiddleName: dto.clientMiddleName?.trim(),
           clientLastName: dto.clientLastName.trim(),
@@ -96,6 +112,16 @@ export class ProjectRequestService {
         `Project request created: ${request.id} by ${userId || 'anonymous'}`,
       );
 
+      await this.notifications.notifyRoles(
+        [UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.PROJECT_MANAGER],
+        {
+          type: NotificationType.NEW_REQUEST,
+          title: 'New project request',
+          message: `${request.clientFirstName} ${request.clientLastName} submitted "${request.projectName}".`,
+          link: `/admin/project-requests/${request.id}`,
+        },
+      );
+
       return request;
     } catch (error) {
       this.logger.error('Create project request failed', error.stack);
@@ -119,23 +145,41 @@ export class ProjectRequestService {
       throw new ForbiddenException('You can only upload to your own requests');
     }
 
-    const originalUrl = `https://example.com/uploads/${file.originalname}`;
-    const cdnUrl = originalUrl; // replace with real CDN URL
+    if (!file) throw new BadRequestException('No file provided');
 
+    // URLs (and video duration/poster) are filled in by the media-processing
+    // queue once the file has been optimized and stored.
     const asset = await this.prisma.projectAsset.create({
       data: {
         projectRequestId: requestId,
-        type: 'DOCUMENT_1D', // determine based on mimeType
-        originalUrl,
-        cdnUrl,
+        type: this.mediaProcessing.determineAssetType(
+          file.mimetype,
+          file.originalname,
+        ),
+        originalUrl: '',
+        cdnUrl: '',
         fileSize: file.size,
         mimeType: file.mimetype,
         title: file.originalname,
         uploadedById: userId,
+        isProcessed: false,
+        processStatus: AssetProcessStatus.PENDING,
       },
     });
 
-    return { message: 'File uploaded successfully', asset };
+    const queued = await this.mediaProcessing.schedule(
+      asset.id,
+      file,
+      `architecture-simple/project-requests/${requestId}`,
+      AssetTarget.PROJECT,
+    );
+
+    return {
+      message: 'File uploaded successfully and queued for processing',
+      asset: queued
+        ? asset
+        : { ...asset, processStatus: AssetProcessStatus.FAILED },
+    };
   }
 
   async findAll(query: QueryProjectRequestDto, userRole: UserRole) {
@@ -143,9 +187,21 @@ export class ProjectRequestService {
       throw new ForbiddenException('Only staff can view all requests');
     }
 
-    const { page = 1, limit = 10, status, serviceType, email } = query;
+    const {
+      page = 1,
+      limit = 10,
+      status,
+      serviceType,
+      email,
+      requestNumber,
+    } = query;
 
-    const where: any = { deletedAt: null };
+    const where: any = {
+      deletedAt: null,
+      ...(requestNumber && {
+        requestNumber: { contains: requestNumber.toUpperCase() },
+      }),
+    };
 
     if (status) where.status = status;
     if (serviceType) where.serviceType = serviceType;
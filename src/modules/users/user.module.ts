@@ -2,12 +2,15 @@ import { Module } from '@nestjs/common';
 import { ProjectRequestService } from './user-service/project-request.service';
 
 import { PrismaModule } from '../../prisma/prisma.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { MediaModule } from '../media/media.module';
+import { NumberingModule } from '../numbering/numbering.module';
 import { ProjectRequestController } from './user-controller/user.controller';
 import { UsersGetService } from './user-service/user-get.service';
 import { UsersGetController } from './user-controller/user-get.controller';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, NotificationsModule, MediaModule, NumberingModule],
   controllers: [ProjectRequestController, UsersGetController],
   providers: [ProjectRequestService, UsersGetService ],
   exports: [ProjectRequestService, UsersGetService],
@@ -0,0 +1,37 @@
+// Minimal typings for the untyped 3D pipeline dependencies
+
+declare module 'draco3dgltf' {
+  const draco3d: {
+    createDecoderModule(options?: object): Promise<unknown>;
+    createEncoderModule(options?: object): Promise<unknown>;
+  };
+  export = draco3d;
+}
+
+declare module 'gltf-validator' {
+  export interface ValidationMessage {
+    code: string;
+    message: string;
+    severity: number; // 0 = error, 1 = warning, 2 = info, 3 = hint
+    pointer?: string;
+  }
+
+  export interface ValidationReport {
+    issues: {
+      numErrors: number;
+      numWarnings: number;
+      messages: ValidationMessage[];
+    };
+  }
+
+  export function validateBytes(
+    data: Uint8Array,
+    options?: {
+      uri?: string;
+      format?: 'glb' | 'gltf';
+      maxIssues?: number;
+      ignoredIssues?: string[];
+      externalResourceFunction?: (uri: string) => Promise<Uint8Array>;
+    },
+  ): Promise<ValidationReport>;
+}
@@ -0,0 +1,41 @@
+// src/upload/interfaces/storage-provider.interface.ts
+
+export interface StorageUploadResult {
+  url: string;
+  key: string; // provider identifier used for delete/signedUrl
+  originalFilename: string;
+  size: number;
+  format: string;
+  width?: number;
+  height?: number;
+  resourceType: string;
+}
+
+export type StoredFileRef = Pick<StorageUploadResult, 'key' | 'url'>;
+
+export interface StoredObject {
+  key: string;
+  url: string;
+  size: number;
+  lastModified: Date | null;
+}
+
+/**
+ * Where uploaded files end up. Implementations store the bytes they are given
+ * as-is; optimization happens before upload in the media pipeline.
+ */
+export interface StorageProvider {
+  upload(
+    file: Express.Multer.File,
+    folder?: string,
+  ): Promise<StorageUploadResult>;
+  /** Reads back a file this provider stored, e.g. a staged upload */
+  download(file: StoredFileRef): Promise<Buffer>;
+  delete(key: string): Promise<boolean>;
+  deleteMultiple(keys: string[]): Promise<number>;
+  getSignedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+  list(prefix: string, maxResults?: number): Promise<StoredObject[]>;
+
+  /** Reverses `url` back to a key, or null if the URL is not ours */
+  keyFromUrl(url: string): string | null;
+}
@@ -0,0 +1,64 @@
+import { ConfigService } from '@nestjs/config';
+import { v2 as cloudinary } from 'cloudinary';
+import { CloudinaryStrategy } from './cloudinary.strategy';
+
+describe('CloudinaryStrategy', () => {
+  let storage: CloudinaryStrategy;
+  let destroy: jest.SpyInstance;
+
+  const base = 'https://res.cloudinary.com/demo';
+
+  beforeEach(() => {
+    storage = new CloudinaryStrategy({
+      get: (key: string) => `test-${key}`,
+    } as unknown as ConfigService);
+    destroy = jest
+      .spyOn(cloudinary.uploader, 'destroy')
+      .mockResolvedValue({ result: 'ok' });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it.each([
+    [
+      'an image',
+      `${base}/image/upload/v1/media/photo.jpg`,
+      'image',
+      'media/photo',
+    ],
+    [
+      'a video',
+      `${base}/video/upload/v1/media/walkthrough.mp4`,
+      'video',
+      'media/walkthrough',
+    ],
+    [
+      'a raw file',
+      `${base}/raw/upload/v1/media/models/house.glb`,
+      'raw',
+      'media/models/house.glb',
+    ],
+  ])(
+    'deletes %s with its resource type',
+    async (_case, url, type, publicId) => {
+      const key = storage.keyFromUrl(url);
+
+      await expect(storage.delete(key!)).resolves.toBe(true);
+      expect(destroy).toHaveBeenCalledWith(publicId, { resource_type: type });
+    },
+  );
+
+  it('reads the resource type through transformations', () => {
+    expect(
+      storage.keyFromUrl(`${base}/video/upload/so_1/v1/media/clip.jpg`),
+    ).toBe('video:media/clip');
+  });
+
+  it('treats keys without a resource type as images', async () => {
+    await storage.delete('media/photo');
+
+    expect(destroy).toHaveBeenCalledWith('media/photo', {
+      resource_type: 'image',
+    });
+  });
+});
@@ -3,27 +3,27 @@ import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { v2 as cloudinary, UploadApiResponse } from 'cloudinary';
 import { ConfigService } from '@nestjs/config';
 import { Readable } from 'stream';
-import { FileOptimizerService } from 'src/utils/optimizer/file-optimizer.service';
-
-interface CloudinaryUploadResult {
-  url: string;
-  publicId: string;
-  originalFilename: string;
-  size: number;
-  format: string;
-  width?: number;
-  height?: number;
-  resourceType: string;
-}
-
+import {
+  StorageProvider,
+  StorageUploadResult,
+  StoredFileRef,
+  StoredObject,
+} from '../interfaces/storage-provider.interface';
+
+type ResourceType = 'image' | 'video' | 'raw';
+
+const RESOURCE_TYPES: ResourceType[] = ['image', 'video', 'raw'];
+
+/**
+ * Keys are `<resource_type>:<public_id>`. Cloudinary assumes `image` unless
+ * told otherwise, and videos and raw files (models, PDFs) cannot be deleted
+ * or signed from the public ID alone.
+ */
 @Injectable()
-export class CloudinaryStrategy {
+export class CloudinaryStrategy implements StorageProvider {
   private readonly logger = new Logger(CloudinaryStrategy.name);
 
-  constructor(
-    private config: ConfigService,
-    private fileOptimizer: FileOptimizerService,
-  ) {
+  constructor(private config: ConfigService) {
     this.initializeCloudinary();
   }
 
@@ -50,47 +50,26 @@ export class CloudinaryStrategy {
    * Upload file to Cloudinary
    * @param file - Multer file object
    * @param folder - Cloudinary folder path
-   * @param transformation - Optional transformations
+   * @param transformation - Optional incoming transformations
    * @returns Upload result with URL and metadata
    */
   async upload(
     file: Express.Multer.File,
     folder: string = 'uploads',
     transformation?: any[],
-  ): Promise<CloudinaryUploadResult> {
+  ): Promise<StorageUploadResult> {
     try {
       // Validate file
       if (!file || !file.buffer) {
         throw new BadRequestException('Invalid file: no buffer found');
       }
 
-      // Optimize image if it's an image file
-      let bufferToUpload = file.buffer;
-      
-      if (this.isImage(file.mimetype)) {
-        try {
-          bufferToUpload = await this.fileOptimizer.optimizeImage(
-            file.buffer,
-            file.mimetype,
-          );
-          this.logger.log(`Image optimized: ${file.originalname}`);
-        } catch (optimizationError) {
-          this.logger.warn(
-            `Image optimization failed, using original: ${optimizationError}`,
-          );
-          bufferToUpload = file.buffer;
-        }
-      }
-
       return new Promise((resolve, reject) => {
         const uploadStream = cloudinary.uploader.upload_stream(
           {
             folder,
             resource_type: 'auto',
-            transformation: [
-              ...(transformation || []),
-              { quality: 'auto', fetch_format: 'auto' },
-            ],
+            transformation: transformation || [],
             // Add useful metadata
             context: {
               originalname: file.originalname,
@@ -124,7 +103,7 @@ export class CloudinaryStrategy {
 
             resolve({
               url: result.secure_url,
-              publicId: result.public_id,
+              key: this.toKey(result.resource_type, result.public_id),
               originalFilename: file.originalname,
               size: result.bytes,
               format: result.format,
@@ -136,7 +115,7 @@ export class CloudinaryStrategy {
         );
 
         // Create readable stream from buffer
-        const stream = Readable.from(bufferToUpload);
+        const stream = Readable.from(file.buffer);
         stream.pipe(uploadStream);
 
         // Handle stream errors
@@ -161,7 +140,7 @@ export class CloudinaryStrategy {
   async uploadMultiple(
     files: Express.Multer.File[],
     folder: string = 'uploads',
-  ): Promise<CloudinaryUploadResult[]> {
+  ): Promise<StorageUploadResult[]> {
     try {
       const uploadPromises = files.map((file) =>
         this.upload(file, folder),
@@ -173,20 +152,39 @@ export class CloudinaryStrategy {
     }
   }
 
+  /**
+   * Download a stored file. The delivery URL is used since it already
+   * carries the resource type that `auto` uploads resolved to.
+   * @param file - Public ID and URL returned by upload
+   * @returns File contents
+   */
+  async download({ key, url }: StoredFileRef): Promise<Buffer> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(
+        `Cloudinary download failed for ${key}: HTTP ${response.status}`,
+      );
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
   /**
    * Delete file from Cloudinary
-   * @param publicId - Cloudinary public ID
+   * @param key - Key returned by upload or keyFromUrl
    * @returns Success boolean
    */
-  async delete(publicId: string): Promise<boolean> {
+  async delete(key: string): Promise<boolean> {
     try {
-      if (!publicId) {
-        this.logger.warn('Delete called with empty publicId');
+      if (!key) {
+        this.logger.warn('Delete called with empty key');
         return false;
       }
 
-      const result = await cloudinary.uploader.destroy(publicId);
-      
+      const { resourceType, publicId } = this.parseKey(key);
+      const result = await cloudinary.uploader.destroy(publicId, {
+        resource_type: resourceType,
+      });
+
       if (result.result === 'ok') {
         this.logger.log(`File deleted successfully: ${publicId}`);
         return true;
@@ -201,10 +199,7 @@ export class CloudinaryStrategy {
       }
     } catch (error) {
       // FIX 4: Correct template literal syntax
-      this.logger.error(
-        `Cloudinary delete failed for ${publicId}:`,
-        error,
-      );
+      this.logger.error(`Cloudinary delete failed for ${key}:`, error);
       return false;
     }
   }
@@ -232,22 +227,20 @@ export class CloudinaryStrategy {
   }
 
   /**
-   * Get signed URL for a Cloudinary asset
-   * @param publicId - Cloudinary public ID
-   * @param transformation - Optional transformations
+   * Get signed URL for a Cloudinary asset. Cloudinary signatures protect
+   * the transformation, they do not expire.
+   * @param key - Key returned by upload or keyFromUrl
    * @returns Signed URL
    */
-  async getSignedUrl(
-    publicId: string,
-    transformation?: any[],
-  ): Promise<string> {
+  async getSignedUrl(key: string): Promise<string> {
     try {
-      if (!publicId) {
-        throw new BadRequestException('Public ID is required');
+      if (!key) {
+        throw new BadRequestException('Key is required');
       }
 
+      const { resourceType, publicId } = this.parseKey(key);
       return cloudinary.url(publicId, {
-        transformation: transformation || [],
+        resource_type: resourceType,
         secure: true,
         sign_url: true, // For private assets
       });
@@ -306,12 +299,40 @@ export class CloudinaryStrategy {
   }
 
   /**
-   * Check if file is an image
-   * @param mimetype - File MIME type
-   * @returns True if image
+   * Extract the key from a delivery URL
+   * (.../<resource_type>/upload/[transformations/]v123/<public_id>.<ext>).
+   * The extension is part of the public ID for raw files only.
+   * @param url - Cloudinary URL
+   * @returns Key or null for foreign URLs
    */
-  private isImage(mimetype: string): boolean {
-    return mimetype.startsWith('image/');
+  keyFromUrl(url: string): string | null {
+    const match = url.match(
+      /res\.cloudinary\.com\/[^/]+\/(image|video|raw)\/upload\/(?:.*?\/)?v\d+\/(.+?)(\.\w+)?$/,
+    );
+    if (!match) return null;
+
+    const [, resourceType, publicId, extension = ''] = match;
+    return this.toKey(
+      resourceType,
+      resourceType === 'raw' ? publicId + extension : publicId,
+    );
+  }
+
+  private toKey(resourceType: string, publicId: string) {
+    return `${resourceType}:${publicId}`;
+  }
+
+  // Keys without a resource type predate it and were all treated as images
+  private parseKey(key: string): {
+    resourceType: ResourceType;
+    publicId: string;
+  } {
+    const separator = key.indexOf(':');
+    const resourceType = key.slice(0, separator) as ResourceType;
+
+    return separator > 0 && RESOURCE_TYPES.includes(resourceType)
+      ? { resourceType, publicId: key.slice(separator + 1) }
+      : { resourceType: 'image', publicId: key };
   }
 
   /**
@@ -337,14 +358,26 @@ export class CloudinaryStrategy {
    * @param maxResults - Maximum results (default: 100)
    * @returns List of assets
    */
-  async listAssets(folder: string, maxResults: number = 100): Promise<any[]> {
+  async list(
+    folder: string,
+    maxResults: number = 100,
+  ): Promise<StoredObject[]> {
     try {
       const result = await cloudinary.api.resources({
         type: 'upload',
         prefix: folder,
         max_results: maxResults,
       });
-      return result.resources;
+      return (result.resources as UploadApiResponse[]).map(
+        (resource): StoredObject => ({
+          key: this.toKey(resource.resource_type, resource.public_id),
+          url: resource.secure_url,
+          size: resource.bytes,
+          lastModified: resource.created_at
+            ? new Date(resource.created_at)
+            : null,
+        }),
+      );
     } catch (error) {
       this.logger.error(`Failed to list assets in ${folder}:`, error);
       throw new Error(
@@ -0,0 +1,125 @@
+import { Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { extname, join, relative, resolve, sep } from 'path';
+import {
+  StorageProvider,
+  StorageUploadResult,
+  StoredFileRef,
+  StoredObject,
+} from '../interfaces/storage-provider.interface';
+
+/**
+ * Stores files on the local disk under `rootDir`, served by the app itself
+ * (see main.ts). Meant for development, tests and single-node installs; it
+ * needs no network at all.
+ */
+export class LocalStrategy implements StorageProvider {
+  private readonly logger = new Logger(LocalStrategy.name);
+  readonly rootDir: string;
+  readonly publicPath: string; // URL path main.ts serves rootDir under
+
+  constructor(
+    rootDir: string,
+    private readonly publicUrl: string,
+  ) {
+    this.rootDir = resolve(rootDir);
+    this.publicPath = new URL(publicUrl).pathname;
+  }
+
+  async upload(
+    file: Express.Multer.File,
+    folder = 'uploads',
+  ): Promise<StorageUploadResult> {
+    const extension = extname(file.originalname).toLowerCase();
+    const key = `${folder}/${randomUUID()}${extension}`;
+    const path = this.pathFor(key);
+
+    await fs.mkdir(join(path, '..'), { recursive: true });
+    await fs.writeFile(path, file.buffer);
+
+    this.logger.log(`File stored locally: ${key}`);
+    return {
+      url: this.urlFor(key),
+      key,
+      originalFilename: file.originalname,
+      size: file.buffer.length,
+      format: extension.replace('.', ''),
+      resourceType: file.mimetype.split('/')[0],
+    };
+  }
+
+  download({ key }: StoredFileRef): Promise<Buffer> {
+    return fs.readFile(this.pathFor(key));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    if (!key) return false;
+
+    try {
+      await fs.unlink(this.pathFor(key));
+      return true;
+    } catch (error) {
+      this.logger.warn(`Local delete failed for ${key}: ${error}`);
+      return false;
+    }
+  }
+
+  async deleteMultiple(keys: string[]): Promise<number> {
+    const results = await Promise.all(keys.map((key) => this.delete(key)));
+    return results.filter(Boolean).length;
+  }
+
+  /** Local files are served publicly, so the plain URL is returned */
+  getSignedUrl(key: string): Promise<string> {
+    return Promise.resolve(this.urlFor(key));
+  }
+
+  async list(prefix: string, maxResults = 100): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    const walk = async (dir: string) => {
+      const entries = await fs
+        .readdir(dir, { withFileTypes: true })
+        .catch(() => []);
+
+      for (const entry of entries) {
+        if (objects.length >= maxResults) return;
+
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(path);
+        } else {
+          const key = relative(this.rootDir, path).split(sep).join('/');
+          const stat = await fs.stat(path);
+          objects.push({
+            key,
+            url: this.urlFor(key),
+            size: stat.size,
+            lastModified: stat.mtime,
+          });
+        }
+      }
+    };
+
+    await walk(this.pathFor(prefix));
+    return objects;
+  }
+
+  keyFromUrl(url: string): string | null {
+    const base = `${this.publicUrl}/`;
+    return url.startsWith(base) ? decodeURI(url.slice(base.length)) : null;
+  }
+
+  private urlFor(key: string) {
+    return `${this.publicUrl}/${encodeURI(key)}`;
+  }
+
+  // Keys come back from URLs, so never let them escape the storage root
+  private pathFor(key: string) {
+    const path = resolve(this.rootDir, key);
+    if (path !== this.rootDir && !path.startsWith(this.rootDir + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,169 @@
+import { Logger } from '@nestjs/common';
+import {
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { randomUUID } from 'crypto';
+import { extname } from 'path';
+import {
+  StorageProvider,
+  StorageUploadResult,
+  StoredFileRef,
+  StoredObject,
+} from '../interfaces/storage-provider.interface';
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string; // MinIO / R2 / other S3-compatible hosts
+  forcePathStyle: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  publicUrl: string; // base URL objects are served from (bucket or CDN)
+}
+
+/**
+ * S3-compatible storage. Objects are written under `<folder>/<uuid>.<ext>`
+ * and served from `publicUrl`, so the bucket (or a CDN in front of it) has
+ * to allow public reads for the URLs stored on assets to work.
+ */
+export class S3Strategy implements StorageProvider {
+  private readonly logger = new Logger(S3Strategy.name);
+  private readonly client: S3Client;
+
+  constructor(private readonly options: S3StorageOptions) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? {
+              accessKeyId: options.accessKeyId,
+              secretAccessKey: options.secretAccessKey,
+            }
+          : undefined, // fall back to the default AWS credential chain
+    });
+  }
+
+  async upload(
+    file: Express.Multer.File,
+    folder = 'uploads',
+  ): Promise<StorageUploadResult> {
+    const extension = extname(file.originalname).toLowerCase();
+    const key = `${folder}/${randomUUID()}${extension}`;
+
+    try {
+      await this.client.send(
+        new PutObjectCommand({
+          Bucket: this.options.bucket,
+          Key: key,
+          Body: file.buffer,
+          ContentType: file.mimetype,
+          CacheControl: 'public, max-age=31536000, immutable',
+        }),
+      );
+    } catch (error) {
+      this.logger.error(`S3 upload failed for ${key}`, error);
+      throw new Error(`Upload failed: ${(error as Error).message}`);
+    }
+
+    this.logger.log(`File uploaded successfully: ${key}`);
+    return {
+      url: this.urlFor(key),
+      key,
+      originalFilename: file.originalname,
+      size: file.buffer.length,
+      format: extension.replace('.', ''),
+      resourceType: file.mimetype.split('/')[0],
+    };
+  }
+
+  async download({ key }: StoredFileRef): Promise<Buffer> {
+    const result = await this.client.send(
+      new GetObjectCommand({ Bucket: this.options.bucket, Key: key }),
+    );
+    if (!result.Body) {
+      throw new Error(`S3 object ${key} has no body`);
+    }
+    return Buffer.from(await result.Body.transformToByteArray());
+  }
+
+  async delete(key: string): Promise<boolean> {
+    if (!key) return false;
+
+    try {
+      await this.client.send(
+        new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }),
+      );
+      return true;
+    } catch (error) {
+      this.logger.error(`S3 delete failed for ${key}`, error);
+      return false;
+    }
+  }
+
+  async deleteMultiple(keys: string[]): Promise<number> {
+    let deleted = 0;
+
+    // DeleteObjects accepts at most 1000 keys per request
+    for (let i = 0; i < keys.length; i += 1000) {
+      try {
+        const result = await this.client.send(
+          new DeleteObjectsCommand({
+            Bucket: this.options.bucket,
+            Delete: {
+              Objects: keys.slice(i, i + 1000).map((Key) => ({ Key })),
+              Quiet: false,
+            },
+          }),
+        );
+        deleted += result.Deleted?.length ?? 0;
+      } catch (error) {
+        this.logger.error('S3 batch delete failed', error);
+      }
+    }
+
+    this.logger.log(`Deleted ${deleted}/${keys.length} files`);
+    return deleted;
+  }
+
+  getSignedUrl(key: string, expiresInSeconds = 3600): Promise<string> {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.options.bucket, Key: key }),
+      { expiresIn: expiresInSeconds },
+    );
+  }
+
+  async list(prefix: string, maxResults = 100): Promise<StoredObject[]> {
+    const result = await this.client.send(
+      new ListObjectsV2Command({
+        Bucket: this.options.bucket,
+        Prefix: prefix,
+        MaxKeys: maxResults,
+      }),
+    );
+
+    return (result.Contents ?? []).map((object) => ({
+      key: object.Key!,
+      url: this.urlFor(object.Key!),
+      size: object.Size ?? 0,
+      lastModified: object.LastModified ?? null,
+    }));
+  }
+
+  keyFromUrl(url: string): string | null {
+    const base = `${this.options.publicUrl}/`;
+    return url.startsWith(base) ? decodeURI(url.slice(base.length)) : null;
+  }
+
+  private urlFor(key: string) {
+    return `${this.options.publicUrl}/${encodeURI(key)}`;
+  }
+}
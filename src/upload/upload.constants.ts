@@ -0,0 +1,10 @@
+// src/upload/upload.constants.ts
+export const STORAGE_PROVIDER = Symbol('STORAGE_PROVIDER');
+
+export const StorageDriver = {
+  CLOUDINARY: 'cloudinary',
+  S3: 's3',
+  LOCAL: 'local',
+} as const;
+
+export type StorageDriver = (typeof StorageDriver)[keyof typeof StorageDriver];
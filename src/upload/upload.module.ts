@@ -0,0 +1,67 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { STORAGE_PROVIDER, StorageDriver } from './upload.constants';
+import { StorageProvider } from './interfaces/storage-provider.interface';
+import { CloudinaryStrategy } from './strategies/cloudinary.strategy';
+import { S3Strategy } from './strategies/s3.strategy';
+import { LocalStrategy } from './strategies/local.strategy';
+
+// Global so every module uploading files resolves the same provider, picked
+// by STORAGE_DRIVER (cloudinary | s3 | local).
+@Global()
+@Module({
+  providers: [
+    {
+      provide: STORAGE_PROVIDER,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService): StorageProvider => {
+        const defaultDriver =
+          config.get('NODE_ENV') === 'test'
+            ? StorageDriver.LOCAL
+            : StorageDriver.CLOUDINARY;
+
+        switch (config.get('STORAGE_DRIVER', defaultDriver)) {
+          case StorageDriver.LOCAL:
+            return new LocalStrategy(
+              config.get('STORAGE_LOCAL_DIR', 'uploads'),
+              config.get(
+                'STORAGE_LOCAL_URL',
+                `http://localhost:${config.get('PORT', '3000')}/uploads`,
+              ),
+            );
+
+          case StorageDriver.S3: {
+            const bucket = config.getOrThrow<string>('S3_BUCKET');
+            const region = config.get<string>('S3_REGION', 'us-east-1');
+            const endpoint = config.get<string>('S3_ENDPOINT');
+
+            return new S3Strategy({
+              bucket,
+              region,
+              endpoint,
+              // MinIO and most self-hosted endpoints need path-style URLs
+              forcePathStyle:
+                config.get(
+                  'S3_FORCE_PATH_STYLE',
+                  endpoint ? 'true' : 'false',
+                ) === 'true',
+              accessKeyId: config.get<string>('S3_ACCESS_KEY_ID'),
+              secretAccessKey: config.get<string>('S3_SECRET_ACCESS_KEY'),
+              publicUrl: config.get(
+                'S3_PUBLIC_URL',
+                endpoint
+                  ? `${endpoint}/${bucket}`
+                  : `https://${bucket}.s3.${region}.amazonaws.com`,
+              ),
+            });
+          }
+
+          default:
+            return new CloudinaryStrategy(config);
+        }
+      },
+    },
+  ],
+  exports: [STORAGE_PROVIDER],
+})
+export class UploadModule {}
@@ -2,17 +2,13 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { MailerService } from './email.service';
-
+import { MailQueueProcessor } from './email.processor';
 
 @Module({
   imports: [
     ConfigModule, // needed for ConfigService injection
   ],
-  providers: [
-    MailerService,
-  ],
-  exports: [
-    MailerService, 
-  ],
+  providers: [MailerService, MailQueueProcessor],
+  exports: [MailerService],
 })
 export class MailerModule {}
@@ -0,0 +1,57 @@
+// utils/email/email.processor.ts
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { QueueService } from 'src/modules/queue/queue.service';
+import { QueueName } from 'src/modules/queue/queue.constants';
+import { QueueJob } from 'src/modules/queue/interfaces/queue-driver.interface';
+import { PermanentJobError } from 'src/modules/queue/queue.errors';
+import { MAIL_JOB_SEND, MailerService, QueuedMailJob } from './email.service';
+
+@Injectable()
+export class MailQueueProcessor implements OnModuleInit {
+  constructor(
+    private queue: QueueService,
+    private mailer: MailerService,
+    private config: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    this.queue.process(
+      QueueName.EMAIL,
+      { [MAIL_JOB_SEND]: (job: QueueJob<QueuedMailJob>) => this.send(job) },
+      parseInt(this.config.get('MAIL_QUEUE_CONCURRENCY', '5')),
+    );
+  }
+
+  private async send({ data }: QueueJob<QueuedMailJob>) {
+    // sendMail rethrows transport errors, which schedules the next retry
+    try {
+      await this.mailer.sendMail({
+        ...data,
+        attachments: data.attachments?.map((attachment) => ({
+          ...attachment,
+          content: Buffer.from(attachment.content, 'base64'),
+        })),
+      });
+    } catch (error) {
+      if (this.isRejected(error)) {
+        throw new PermanentJobError((error as Error).message, {
+          cause: error,
+        });
+      }
+      throw error;
+    }
+  }
+
+  // The server refused the recipient or message (55x), or there was none
+  private isRejected(error: unknown) {
+    const { code, responseCode } = error as {
+      code?: string;
+      responseCode?: number;
+    };
+    return (
+      code === 'EENVELOPE' ||
+      (responseCode !== undefined && responseCode >= 550 && responseCode < 560)
+    );
+  }
+}
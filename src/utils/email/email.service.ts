@@ -3,13 +3,40 @@ import { Injectable, Logger } from '@nestjs/common';
 import * as nodemailer from 'nodemailer';
 import { ConfigService } from '@nestjs/config';
 import { $Enums, RequestStatus } from '@prisma/client';
+import { QueueService } from 'src/modules/queue/queue.service';
+import { QueueName } from 'src/modules/queue/queue.constants';
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+export interface SendMailOptions {
+  to: string | string[];
+  subject: string;
+  html: string;
+  text?: string;
+  replyTo?: string;
+  attachments?: MailAttachment[];
+}
+
+// Job payloads are JSON, so attachment buffers travel as base64
+export interface QueuedMailJob extends Omit<SendMailOptions, 'attachments'> {
+  attachments?: (Omit<MailAttachment, 'content'> & { content: string })[];
+}
+
+export const MAIL_JOB_SEND = 'send';
 
 @Injectable()
 export class MailerService {
   private readonly logger = new Logger(MailerService.name);
   private transporter: nodemailer.Transporter;
 
-  constructor(private config: ConfigService) {
+  constructor(
+    private config: ConfigService,
+    private queue: QueueService,
+  ) {
     const port = this.config.get<number>('SMTP_PORT', 587);
     this.transporter = nodemailer.createTransport({
       host: this.config.get('SMTP_HOST'),
@@ -44,6 +71,13 @@ export class MailerService {
     return new Date().getFullYear();
   }
 
+  // e.g. "30 minutes", "1 hour", "2 hours"
+  private formatDuration(minutes: number): string {
+    if (minutes % 60 !== 0) return `${minutes} minutes`;
+    const hours = minutes / 60;
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+
   // ============================================
   // MEETING INVITATION EMAIL (was throwing error)
   // ============================================
@@ -195,7 +229,7 @@ If you did not expect this email, please ignore it.
 © ${this.getCurrentYear()} ${appName}
     `.trim();
 
-    await this.sendMail({
+    await this.queueMail({
       to,
       subject: `Meeting Invitation: ${details.meetingTitle} – ${details.projectName}`,
       html,
@@ -253,7 +287,7 @@ Thanks,
 ${appName}
     `.trim();
 
-    await this.sendMail({
+    await this.queueMail({
       to,
       subject: `Project Request Update – ${data.projectName} (${statusDisplay})`,
       html,
@@ -318,7 +352,7 @@ Best regards,
 ${appName}
     `.trim();
 
-    await this.sendMail({
+    await this.queueMail({
       to,
       subject: `Stage Completed: ${data.stageName} – ${data.projectName}`,
       html,
@@ -369,7 +403,7 @@ If you didn't sign up, ignore this message.
 © ${this.getCurrentYear()} ${this.getAppName()}
     `.trim();
 
-    await this.sendMail({
+    await this.queueMail({
       to,
       subject: `Verify Your Email - ${this.getAppName()}`,
       html,
@@ -382,8 +416,10 @@ If you didn't sign up, ignore this message.
     token: string,
     name: string,
     resetUrl: string,
+    expiresInMinutes: number,
   ): Promise<void> {
     const resetLink = `${resetUrl}?token=${token}&email=${encodeURIComponent(to)}`;
+    const expiresIn = this.formatDuration(expiresInMinutes);
 
     const html = `
       <div style="font-family: Arial, Helvetica, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
@@ -401,7 +437,7 @@ If you didn't sign up, ignore this message.
           <a href="${resetLink}" style="color: #e53e3e; word-break: break-all;">${resetLink}</a>
         </p>
         <p style="font-size: 14px; color: #4a5568; margin-top: 32px;">
-          This link will expire in 1 hour.<br>
+          This link will expire in ${expiresIn}.<br>
           If you didn't request a password reset, please ignore this email — your account is safe.
         </p>
         <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 40px 0;" />
@@ -416,12 +452,12 @@ Password Reset Request
 Hello ${name || 'there'},
 Use this link to reset your password:
 ${resetLink}
-Link expires in 1 hour.
+Link expires in ${expiresIn}.
 If this wasn't you, ignore this email.
 © ${this.getCurrentYear()} ${this.getAppName()}
     `.trim();
 
-    await this.sendMail({
+    await this.queueMail({
       to,
       subject: `Reset Your Password - ${this.getAppName()}`,
       html,
@@ -430,13 +466,30 @@ If this wasn't you, ignore this email.
   }
 
   // Reusable low-level send method
-  async sendMail(options: {
-    to: string | string[];
-    subject: string;
-    html: string;
-    text?: string;
-    replyTo?: string;
-  }): Promise<void> {
+  /**
+   * Hands the email to the background queue and returns immediately. SMTP
+   * failures are retried by the worker and never reach the caller.
+   */
+  async queueMail(options: SendMailOptions): Promise<void> {
+    const job: QueuedMailJob = {
+      ...options,
+      attachments: options.attachments?.map((attachment) => ({
+        ...attachment,
+        content: attachment.content.toString('base64'),
+      })),
+    };
+
+    try {
+      await this.queue.enqueue(QueueName.EMAIL, MAIL_JOB_SEND, job);
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue email "${options.subject}" to ${String(options.to)}`,
+        error,
+      );
+    }
+  }
+
+  async sendMail(options: SendMailOptions): Promise<void> {
     try {
       const mailOptions = {
         from: `"${this.config.get('MAIL_FROM_NAME')}" <${this.config.get('MAIL_FROM')}>`,
@@ -445,6 +498,7 @@ If this wasn't you, ignore this email.
         html: options.html,
         text: options.text || options.html.replace(/<[^>]+>/g, ''),
         replyTo: options.replyTo,
+        attachments: options.attachments,
       };
 
       const info = await this.transporter.sendMail(mailOptions);
@@ -0,0 +1,121 @@
+// utils/optimizer/document-optimizer.service.ts
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createCanvas } from '@napi-rs/canvas';
+import { dirname, join } from 'path';
+import sharp from 'sharp';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+
+export interface InspectedDocument {
+  pageCount: number;
+  thumbnail: Buffer | null; // JPEG of the first page, null when it failed
+  pages: string[]; // extracted text, one entry per indexed page
+}
+
+// pdfjs-dist only ships ES modules; loaded on first use from this CJS build
+type PdfJs = typeof import('pdfjs-dist/legacy/build/pdf.mjs');
+
+/**
+ * PDF inspection with pdf.js: page count, a first-page thumbnail rendered
+ * onto a native canvas, and per-page text for the document search index.
+ */
+@Injectable()
+export class DocumentOptimizerService {
+  private readonly logger = new Logger(DocumentOptimizerService.name);
+  private readonly thumbnailWidth: number;
+  private readonly maxIndexedPages: number;
+  private readonly standardFontDataUrl = join(
+    dirname(require.resolve('pdfjs-dist/package.json')),
+    'standard_fonts/',
+  );
+  private pdfjs?: Promise<PdfJs>;
+
+  constructor(private config: ConfigService) {
+    this.thumbnailWidth = parseInt(
+      this.config.get('DOCUMENT_THUMBNAIL_WIDTH', '640'),
+    );
+    this.maxIndexedPages = parseInt(
+      this.config.get('DOCUMENT_MAX_INDEXED_PAGES', '500'),
+    );
+  }
+
+  async inspectPdf(buffer: Buffer): Promise<InspectedDocument> {
+    const pdfjs = await this.getPdfJs();
+
+    let pdf: PDFDocumentProxy;
+    try {
+      pdf = await pdfjs.getDocument({
+        data: new Uint8Array(buffer),
+        standardFontDataUrl: this.standardFontDataUrl,
+        isEvalSupported: false,
+        verbosity: 0,
+      }).promise;
+    } catch (error) {
+      this.logger.error('PDF could not be opened:', error);
+      throw new BadRequestException('Invalid or encrypted PDF document');
+    }
+
+    try {
+      const thumbnail = await this.renderThumbnail(pdf).catch((error) => {
+        this.logger.warn(`PDF thumbnail failed: ${error}`);
+        return null;
+      });
+
+      const pages: string[] = [];
+      const indexed = Math.min(pdf.numPages, this.maxIndexedPages);
+      for (let number = 1; number <= indexed; number++) {
+        const page = await pdf.getPage(number);
+        pages.push(await this.extractText(page));
+        page.cleanup();
+      }
+
+      this.logger.log(
+        `PDF inspected: ${pdf.numPages} pages, ${indexed} indexed`,
+      );
+
+      return { pageCount: pdf.numPages, thumbnail, pages };
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  private getPdfJs() {
+    this.pdfjs ??= import('pdfjs-dist/legacy/build/pdf.mjs');
+    return this.pdfjs;
+  }
+
+  private async renderThumbnail(pdf: PDFDocumentProxy) {
+    const page = await pdf.getPage(1);
+    const { width } = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: this.thumbnailWidth / width });
+    const canvas = createCanvas(
+      Math.ceil(viewport.width),
+      Math.ceil(viewport.height),
+    );
+
+    const context = canvas.getContext('2d');
+    context.fillStyle = '#ffffff'; // PDF pages are transparent by default
+    context.fillRect(0, 0, canvas.width, canvas.height);
+
+    await page.render({
+      canvas: canvas as unknown as HTMLCanvasElement,
+      canvasContext: context as unknown as CanvasRenderingContext2D,
+      viewport,
+    }).promise;
+    page.cleanup();
+
+    return sharp(canvas.toBuffer('image/png')).jpeg({ quality: 85 }).toBuffer();
+  }
+
+  private async extractText(page: PDFPageProxy) {
+    const content = await page.getTextContent();
+    return content.items
+      .map((item) =>
+        'str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '',
+      )
+      .join('')
+      .replace(/[ \t]+/g, ' ')
+      .replaceAll('\0', '') // Postgres text cannot hold NUL
+      .trim();
+  }
+}
@@ -0,0 +1,64 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import ffmpeg from 'fluent-ffmpeg';
+import { FileOptimizerService } from './file-optimizer.service';
+
+describe('FileOptimizerService', () => {
+  let service: FileOptimizerService;
+
+  const probeFails = (message: string) =>
+    jest
+      .spyOn(ffmpeg, 'ffprobe')
+      .mockImplementation((_path: string, callback: unknown) =>
+        (callback as (error: Error) => void)(new Error(message)),
+      );
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FileOptimizerService,
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback?: string) => fallback },
+        },
+      ],
+    }).compile();
+
+    service = module.get(FileOptimizerService);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('rejects an image it cannot read', async () => {
+    const garbage = Buffer.from('not an image');
+
+    await expect(
+      service.optimizeImage(garbage, 'image/jpeg'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(service.generateImageVariants(garbage)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+
+  it('rejects a video ffprobe cannot read', async () => {
+    probeFails('ffprobe exited with code 1');
+
+    await expect(
+      service.optimizeVideo(Buffer.from('not a video'), 'video/mp4'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it.each([
+    'Cannot find ffprobe',
+    'ffprobe was killed with signal SIGKILL',
+    'ENOSPC: no space left on device',
+  ])('passes "%s" on for the queue to retry', async (message) => {
+    probeFails(message);
+
+    const failure = service.optimizeVideo(Buffer.from('clip'), 'video/mp4');
+
+    await expect(failure).rejects.toThrow(message);
+    await expect(failure).rejects.not.toBeInstanceOf(BadRequestException);
+  });
+});
@@ -0,0 +1,68 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Document, NodeIO } from '@gltf-transform/core';
+import { ModelOptimizerService } from './model-optimizer.service';
+
+describe('ModelOptimizerService', () => {
+  let service: ModelOptimizerService;
+
+  const MAX_TRIANGLES = 4;
+
+  // A flat strip of separate triangles, the nth one n units wide
+  const strip = (count: number) => {
+    const document = new Document();
+    const positions = new Float32Array(
+      Array.from({ length: count }, (_, n) => {
+        const x = n * 100;
+        return [x, 0, 0, x + n + 1, 0, 0, x, 1, 0];
+      }).flat(),
+    );
+
+    const position = document
+      .createAccessor()
+      .setType('VEC3')
+      .setArray(positions);
+    const mesh = document
+      .createMesh()
+      .addPrimitive(
+        document.createPrimitive().setAttribute('POSITION', position),
+      );
+    document
+      .createScene()
+      .addChild(
+        document.createNode().setMesh(mesh).setRotation([0.5, 0, 0, 0.87]),
+      );
+
+    return document;
+  };
+
+  beforeEach(() => {
+    service = new ModelOptimizerService({
+      get: (key: string, fallback?: string) =>
+        key === 'MODEL_THUMBNAIL_MAX_TRIANGLES'
+          ? String(MAX_TRIANGLES)
+          : fallback,
+    } as unknown as ConfigService);
+  });
+
+  it('keeps only the largest triangles for the thumbnail', () => {
+    const triangles = service['collectTriangles'](strip(25));
+
+    expect(triangles).toHaveLength(MAX_TRIANGLES);
+    const widths = triangles.map(({ points }) =>
+      Math.round(Math.hypot(...points[1].map((v, i) => v - points[0][i]))),
+    );
+    expect(widths).toEqual([25, 24, 23, 22]);
+  });
+
+  it('rejects a model it cannot read', async () => {
+    // NodeIO itself needs ESM dynamic imports, which jest does not run
+    service['io'] = Promise.resolve({
+      readBinary: () => Promise.reject(new Error('Invalid GLB header')),
+    } as unknown as NodeIO);
+
+    await expect(
+      service['read'](Buffer.from('not a model'), 'glb'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
@@ -0,0 +1,343 @@
+// utils/optimizer/model-optimizer.service.ts
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Document,
+  NodeIO,
+  Primitive,
+  type GLTF,
+  mat4,
+  vec3,
+} from '@gltf-transform/core';
+import { ALL_EXTENSIONS } from '@gltf-transform/extensions';
+import {
+  dedup,
+  draco,
+  getGLPrimitiveCount,
+  meshopt,
+  prune,
+  textureCompress,
+  weld,
+} from '@gltf-transform/functions';
+import draco3d from 'draco3dgltf';
+import { MeshoptDecoder, MeshoptEncoder } from 'meshoptimizer';
+import { validateBytes } from 'gltf-validator';
+import sharp from 'sharp';
+
+export interface OptimizedModel {
+  buffer: Buffer; // GLB
+  thumbnail: Buffer | null; // JPEG render, null when nothing could be drawn
+  polygonCount: number;
+  hasAnimations: boolean;
+}
+
+type ModelCompression = 'draco' | 'meshopt' | 'none';
+
+interface Triangle {
+  points: [vec3, vec3, vec3]; // view space
+  color: [number, number, number]; // sRGB 0-255
+  depth: number;
+  area: number;
+}
+
+const TRIANGLE_MODES = new Set<number>([
+  Primitive.Mode.TRIANGLES,
+  Primitive.Mode.TRIANGLE_STRIP,
+  Primitive.Mode.TRIANGLE_FAN,
+]);
+
+/**
+ * glTF pipeline: validate, clean up (dedup/prune/weld), compress textures to
+ * WebP and geometry with Draco or meshopt, and always emit a single GLB.
+ * The thumbnail is a flat-shaded isometric render drawn as SVG, since there
+ * is no GPU to render with on the server.
+ */
+@Injectable()
+export class ModelOptimizerService {
+  private readonly logger = new Logger(ModelOptimizerService.name);
+  private readonly compression: ModelCompression;
+  private readonly textureMaxSize: number;
+  private readonly thumbnailSize: number;
+  private readonly thumbnailMaxTriangles: number;
+  private io?: Promise<NodeIO>;
+
+  constructor(private config: ConfigService) {
+    this.compression = this.config.get('MODEL_COMPRESSION', 'draco');
+    this.textureMaxSize = parseInt(
+      this.config.get('MODEL_TEXTURE_MAX_SIZE', '2048'),
+    );
+    this.thumbnailSize = parseInt(
+      this.config.get('MODEL_THUMBNAIL_SIZE', '512'),
+    );
+    this.thumbnailMaxTriangles = parseInt(
+      this.config.get('MODEL_THUMBNAIL_MAX_TRIANGLES', '20000'),
+    );
+  }
+
+  async optimizeModel(
+    buffer: Buffer,
+    fileName: string,
+  ): Promise<OptimizedModel> {
+    const format = fileName.toLowerCase().endsWith('.gltf') ? 'gltf' : 'glb';
+    await this.validate(buffer, format, fileName);
+    const document = await this.read(buffer, format);
+
+    try {
+      const io = await this.getIO();
+      await document.transform(dedup(), prune(), weld());
+
+      const root = document.getRoot();
+      const polygonCount = this.countPolygons(document);
+      const hasAnimations = root.listAnimations().length > 0;
+
+      // Rendered before compression, while positions are plain floats
+      const thumbnail = await this.renderThumbnail(document).catch((error) => {
+        this.logger.warn(`Model thumbnail failed: ${error}`);
+        return null;
+      });
+
+      await document.transform(
+        textureCompress({
+          encoder: sharp,
+          targetFormat: 'webp',
+          resize: [this.textureMaxSize, this.textureMaxSize],
+        }),
+        ...this.compressionTransforms(),
+      );
+
+      const glb = Buffer.from(await io.writeBinary(document));
+
+      this.logger.log(
+        `Model optimized: ${buffer.length}B → ${glb.length}B (${polygonCount} polygons, ${this.compression})`,
+      );
+
+      return { buffer: glb, thumbnail, polygonCount, hasAnimations };
+    } catch (error) {
+      // Past reading, failures are ours (WASM, memory), so let the job retry
+      this.logger.error('Model optimization failed:', error);
+      throw error;
+    }
+  }
+
+  private async read(buffer: Buffer, format: 'glb' | 'gltf') {
+    const io = await this.getIO();
+
+    try {
+      return format === 'gltf'
+        ? await io.readJSON({
+            json: JSON.parse(buffer.toString('utf8')) as GLTF.IGLTF,
+            resources: {}, // only self-contained (data URI) .gltf files
+          })
+        : await io.readBinary(new Uint8Array(buffer));
+    } catch (error) {
+      this.logger.warn(`Unreadable 3D model: ${(error as Error).message}`);
+      throw new BadRequestException('Unreadable or unsupported 3D model');
+    }
+  }
+
+  private async validate(buffer: Buffer, format: 'glb' | 'gltf', uri: string) {
+    const report = await validateBytes(new Uint8Array(buffer), {
+      uri,
+      format,
+      maxIssues: 10,
+    });
+
+    if (report.issues.numErrors > 0) {
+      const errors = report.issues.messages
+        .filter((issue) => issue.severity === 0)
+        .slice(0, 3)
+        .map((issue) => issue.message);
+      throw new BadRequestException(`Invalid glTF model: ${errors.join('; ')}`);
+    }
+  }
+
+  private getIO() {
+    this.io ??= (async () => {
+      await Promise.all([MeshoptDecoder.ready, MeshoptEncoder.ready]);
+      return new NodeIO()
+        .registerExtensions(ALL_EXTENSIONS)
+        .registerDependencies({
+          'draco3d.decoder': await draco3d.createDecoderModule(),
+          'draco3d.encoder': await draco3d.createEncoderModule(),
+          'meshopt.decoder': MeshoptDecoder,
+          'meshopt.encoder': MeshoptEncoder,
+        });
+    })();
+    return this.io;
+  }
+
+  private compressionTransforms() {
+    switch (this.compression) {
+      case 'draco':
+        return [draco()];
+      case 'meshopt':
+        return [meshopt({ encoder: MeshoptEncoder, level: 'medium' })];
+      default:
+        return [];
+    }
+  }
+
+  /** Triangles per placed node, so instanced meshes count every time */
+  private countPolygons(document: Document) {
+    let count = 0;
+    for (const node of document.getRoot().listNodes()) {
+      for (const primitive of node.getMesh()?.listPrimitives() ?? []) {
+        if (TRIANGLE_MODES.has(primitive.getMode())) {
+          count += getGLPrimitiveCount(primitive);
+        }
+      }
+    }
+    return count;
+  }
+
+  private async renderThumbnail(document: Document): Promise<Buffer | null> {
+    const size = this.thumbnailSize;
+    const triangles = this.collectTriangles(document);
+    if (triangles.length === 0) return null;
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const { points } of triangles) {
+      for (const [x, y] of points) {
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+      }
+    }
+
+    const scale = (size * 0.9) / Math.max(maxX - minX, maxY - minY, 1e-6);
+    const offsetX = size / 2 - ((minX + maxX) / 2) * scale;
+    const offsetY = size / 2 + ((minY + maxY) / 2) * scale;
+
+    // Painter's algorithm: far triangles first
+    const polygons = triangles
+      .sort((a, b) => a.depth - b.depth)
+      .map(({ points, color }) => {
+        const fill = `rgb(${color.join(',')})`;
+        const coords = points
+          .map(
+            ([x, y]) =>
+              `${(offsetX + x * scale).toFixed(1)},${(offsetY - y * scale).toFixed(1)}`,
+          )
+          .join(' ');
+        return `<polygon points="${coords}" fill="${fill}" stroke="${fill}" stroke-width="0.5"/>`;
+      })
+      .join('');
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}"><rect width="100%" height="100%" fill="#f4f4f4"/>${polygons}</svg>`;
+
+    return sharp(Buffer.from(svg)).jpeg({ quality: 85 }).toBuffer();
+  }
+
+  /**
+   * The largest `thumbnailMaxTriangles` triangles, which matter most for the
+   * silhouette. Trimmed while collecting so a huge mesh never holds more
+   * than twice that many in memory.
+   */
+  private collectTriangles(document: Document): Triangle[] {
+    const max = this.thumbnailMaxTriangles;
+    const triangles: Triangle[] = [];
+    const keepLargest = () => {
+      triangles.sort((a, b) => b.area - a.area);
+      triangles.length = Math.min(triangles.length, max);
+    };
+
+    // Isometric-style camera: 45° around Y, looking down 30°
+    const yaw = Math.PI / 4;
+    const pitch = Math.PI / 6;
+    const light = this.normalize([-0.4, 0.7, 0.6]);
+
+    const toView = (matrix: mat4, [x, y, z]: vec3): vec3 => {
+      const wx = matrix[0] * x + matrix[4] * y + matrix[8] * z + matrix[12];
+      const wy = matrix[1] * x + matrix[5] * y + matrix[9] * z + matrix[13];
+      const wz = matrix[2] * x + matrix[6] * y + matrix[10] * z + matrix[14];
+      const rx = wx * Math.cos(yaw) + wz * Math.sin(yaw);
+      const rz = -wx * Math.sin(yaw) + wz * Math.cos(yaw);
+      return [
+        rx,
+        wy * Math.cos(pitch) - rz * Math.sin(pitch),
+        wy * Math.sin(pitch) + rz * Math.cos(pitch),
+      ];
+    };
+
+    for (const scene of document.getRoot().listScenes()) {
+      scene.traverse((node) => {
+        const mesh = node.getMesh();
+        if (!mesh) return;
+        const matrix = node.getWorldMatrix();
+
+        for (const primitive of mesh.listPrimitives()) {
+          const position = primitive.getAttribute('POSITION');
+          if (!position || primitive.getMode() !== Primitive.Mode.TRIANGLES) {
+            continue;
+          }
+
+          const indices = primitive.getIndices();
+          const count = indices ? indices.getCount() : position.getCount();
+          const base = primitive.getMaterial()?.getBaseColorFactor() ?? [
+            0.8, 0.8, 0.8, 1,
+          ];
+
+          for (let i = 0; i + 2 < count; i += 3) {
+            const points = [0, 1, 2].map((k) => {
+              const index = indices ? indices.getScalar(i + k) : i + k;
+              return toView(
+                matrix,
+                position.getElement(index, [0, 0, 0]) as vec3,
+              );
+            }) as [vec3, vec3, vec3];
+
+            const normal = this.cross(
+              this.subtract(points[1], points[0]),
+              this.subtract(points[2], points[0]),
+            );
+            const length = Math.hypot(...normal);
+            if (length === 0) continue;
+
+            // abs(): winding is unreliable in exported architectural models
+            const shade =
+              0.35 + 0.65 * Math.abs(this.dot(normal, light) / length);
+            const color = [0, 1, 2].map((c) =>
+              Math.round(255 * Math.min(1, base[c] ** (1 / 2.2) * shade)),
+            ) as [number, number, number];
+
+            triangles.push({
+              points,
+              color,
+              depth: (points[0][2] + points[1][2] + points[2][2]) / 3,
+              area: Math.abs(normal[2]) / 2,
+            });
+            if (triangles.length >= 2 * max) keepLargest();
+          }
+        }
+      });
+    }
+
+    keepLargest();
+    return triangles;
+  }
+
+  private subtract(a: vec3, b: vec3): vec3 {
+    return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+  }
+
+  private cross(a: vec3, b: vec3): vec3 {
+    return [
+      a[1] * b[2] - a[2] * b[1],
+      a[2] * b[0] - a[0] * b[2],
+      a[0] * b[1] - a[1] * b[0],
+    ];
+  }
+
+  private dot(a: vec3, b: vec3) {
+    return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+  }
+
+  private normalize(v: vec3): vec3 {
+    const length = Math.hypot(...v);
+    return [v[0] / length, v[1] / length, v[2] / length];
+  }
+}